@@ -10,10 +10,19 @@ import { ToastComponent } from '@/components/ui/toast';
 import { Home } from '@/pages/Home';
 import { Login } from '@/pages/Login';
 import { Register } from '@/pages/Register';
+import { ForgotPassword } from '@/pages/ForgotPassword';
+import { ResetPassword } from '@/pages/ResetPassword';
+import { VerifyEmail } from '@/pages/VerifyEmail';
 import { Restaurants } from '@/pages/Restaurants';
 import { RestaurantDetail } from '@/pages/RestaurantDetail';
 import { Cart } from '@/pages/Cart';
 import { Checkout } from '@/pages/Checkout';
+import { Orders } from '@/pages/Orders';
+import { OrderTracking } from '@/pages/OrderTracking';
+import { Profile } from '@/pages/Profile';
+import { PartnerDashboard } from '@/pages/PartnerDashboard';
+import { PartnerRestaurant } from '@/pages/PartnerRestaurant';
+import { PartnerKitchen } from '@/pages/PartnerKitchen';
 
 function App() {
   return (
@@ -35,6 +44,9 @@ function AppContent() {
       <Switch>
         <Route path="/login" component={Login} />
         <Route path="/register" component={Register} />
+        <Route path="/forgot-password" component={ForgotPassword} />
+        <Route path="/reset-password" component={ResetPassword} />
+        <Route path="/verify-email" component={VerifyEmail} />
         <Route>
           <Layout>
             <Switch>
@@ -43,6 +55,12 @@ function AppContent() {
               <Route path="/restaurant/:id" component={RestaurantDetail} />
               <Route path="/cart" component={Cart} />
               <Route path="/checkout" component={Checkout} />
+              <Route path="/orders" component={Orders} />
+              <Route path="/orders/:id" component={OrderTracking} />
+              <Route path="/profile" component={Profile} />
+              <Route path="/partner" component={PartnerDashboard} />
+              <Route path="/partner/restaurants/:id/kitchen" component={PartnerKitchen} />
+              <Route path="/partner/restaurants/:id" component={PartnerRestaurant} />
               <Route>
                 <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12 text-center">
                   <div className="text-6xl mb-6">🍽️</div>
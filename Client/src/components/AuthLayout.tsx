@@ -0,0 +1,33 @@
+import { ReactNode } from 'react';
+
+// Centered card with the FastFeast header, for pages outside the main layout
+export function AuthLayout({ title, subtitle, children }: { title: string; subtitle: string; children: ReactNode }) {
+  return (
+    <div className="min-h-screen flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8 bg-gradient-to-br from-orange-50 via-yellow-50 to-red-50">
+      <div className="max-w-md w-full space-y-8">
+        {/* Header */}
+        <div className="text-center">
+          <div className="flex items-center justify-center space-x-2 mb-6">
+            <div className="w-12 h-12 bg-gradient-saffron rounded-full flex items-center justify-center">
+              <span className="text-white font-bold text-2xl">🍛</span>
+            </div>
+            <div>
+              <h1 className="font-display font-bold text-3xl text-gray-900">FastFeast</h1>
+              <p className="text-sm text-gray-600">तेज़ और स्वादिष्ट</p>
+            </div>
+          </div>
+          <h2 className="font-display font-bold text-2xl text-gray-900 mb-2">
+            {title}
+          </h2>
+          <p className="text-gray-600">
+            {subtitle}
+          </p>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-xl p-8 border border-gray-100">
+          {children}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { useState } from 'react';
+import { Tag, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { useCoupon } from '@/hooks/use-coupon';
+
+// Promo code entry for the cart and checkout summaries; shows the applied coupon,
+// or why it can't be used
+export function CouponField({ coupon }: { coupon: ReturnType<typeof useCoupon> }) {
+  const [draft, setDraft] = useState('');
+  const { code, breakdown, error, isChecking, applyCoupon, removeCoupon } = coupon;
+
+  if (code) {
+    return (
+      <div className={`rounded-lg p-3 text-sm ${error ? 'bg-red-50' : 'bg-green-50'}`}>
+        <div className="flex items-center justify-between">
+          <span className={`flex items-center font-medium ${error ? 'text-red-700' : 'text-green-700'}`}>
+            <Tag className="h-4 w-4 mr-2" />
+            {code}
+          </span>
+          <button onClick={removeCoupon} className="text-gray-400 hover:text-gray-600" aria-label="Remove coupon">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+        <p className={`mt-1 ${error ? 'text-red-700' : 'text-gray-600'}`}>
+          {error ? error.message : isChecking ? 'Checking...' : breakdown?.coupon.description}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      className="flex space-x-2"
+      onSubmit={(event) => {
+        event.preventDefault();
+        if (draft.trim()) applyCoupon(draft);
+        setDraft('');
+      }}
+    >
+      <Input
+        value={draft}
+        onChange={(event) => setDraft(event.target.value)}
+        placeholder="Promo code"
+        maxLength={32}
+        className="uppercase"
+      />
+      <Button type="submit" variant="outline" disabled={!draft.trim()}>
+        Apply
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,49 @@
+import { Input } from '@/components/ui/input';
+import { FormField, FormItem, FormLabel, FormControl, FormMessage } from '@/components/ui/form';
+
+// Labelled react-hook-form fields for simple forms
+export function TextField({ form, name, label, type = 'text', placeholder }: {
+  form: any;
+  name: string;
+  label: string;
+  type?: string;
+  placeholder?: string;
+}) {
+  return (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input {...field} type={type} placeholder={placeholder} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+export function CheckboxField({ form, name, label }: { form: any; name: string; label: string }) {
+  return (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className="flex items-center space-x-2 space-y-0">
+          <FormControl>
+            <input
+              type="checkbox"
+              checked={field.value}
+              onChange={(e) => field.onChange(e.target.checked)}
+              className="h-4 w-4"
+            />
+          </FormControl>
+          <FormLabel>{label}</FormLabel>
+        </FormItem>
+      )}
+    />
+  );
+}
@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { Link, useLocation } from 'wouter';
-import { ShoppingCart, User, Home, Search, Heart, MapPin, Phone } from 'lucide-react';
+import { ShoppingCart, User, Home, Search, Heart, MapPin, Phone, Store } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { useQuery } from '@tanstack/react-query';
@@ -12,7 +12,6 @@ export function Layout({ children }: { children: React.ReactNode }) {
 
   const { data: cartItems = [] } = useQuery({
     queryKey: ['/api/cart'],
-    enabled: isAuthenticated,
   });
 
   const cartItemCount = cartItems.reduce((total: number, item: any) => total + item.quantity, 0);
@@ -57,25 +56,34 @@ export function Layout({ children }: { children: React.ReactNode }) {
                 </Button>
               </Link>
               
+              <Link href="/cart">
+                <Button variant={location === '/cart' ? 'default' : 'ghost'} size="sm" className="relative">
+                  <ShoppingCart className="h-4 w-4 mr-2" />
+                  Cart
+                  {cartItemCount > 0 && (
+                    <span className="absolute -top-2 -right-2 bg-red-500 text-white text-xs rounded-full h-5 w-5 flex items-center justify-center">
+                      {cartItemCount}
+                    </span>
+                  )}
+                </Button>
+              </Link>
+
               {isAuthenticated && (
                 <>
-                  <Link href="/cart">
-                    <Button variant={location === '/cart' ? 'default' : 'ghost'} size="sm" className="relative">
-                      <ShoppingCart className="h-4 w-4 mr-2" />
-                      Cart
-                      {cartItemCount > 0 && (
-                        <span className="absolute -top-2 -right-2 bg-red-500 text-white text-xs rounded-full h-5 w-5 flex items-center justify-center">
-                          {cartItemCount}
-                        </span>
-                      )}
-                    </Button>
-                  </Link>
                   <Link href="/orders">
                     <Button variant={location === '/orders' ? 'default' : 'ghost'} size="sm">
                       <Heart className="h-4 w-4 mr-2" />
                       Orders
                     </Button>
                   </Link>
+                  {user?.role === 'restaurant_owner' && (
+                    <Link href="/partner">
+                      <Button variant={location.startsWith('/partner') ? 'default' : 'ghost'} size="sm">
+                        <Store className="h-4 w-4 mr-2" />
+                        Partner
+                      </Button>
+                    </Link>
+                  )}
                 </>
               )}
             </nav>
@@ -97,7 +105,7 @@ export function Layout({ children }: { children: React.ReactNode }) {
                     <div className="absolute right-0 mt-2 w-48 bg-white rounded-md shadow-lg py-1 z-50">
                       <div className="px-4 py-2 text-sm text-gray-700 border-b">
                         <p className="font-medium">{user?.username}</p>
-                        <p className="text-gray-500">{user?.email}</p>
+                        <p className="text-gray-500">{user?.email || user?.phone}</p>
                       </div>
                       <Link href="/profile">
                         <button className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 w-full text-left">
@@ -0,0 +1,20 @@
+import { OrderStatus, ORDER_STATUS_LABELS } from '@shared/orderStatus';
+
+const STATUS_STYLES: Record<OrderStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  scheduled: 'bg-indigo-100 text-indigo-700',
+  confirmed: 'bg-blue-100 text-blue-700',
+  preparing: 'bg-yellow-100 text-yellow-800',
+  ready_for_pickup: 'bg-orange-100 text-orange-700',
+  out_for_delivery: 'bg-purple-100 text-purple-700',
+  delivered: 'bg-green-100 text-green-700',
+  cancelled: 'bg-red-100 text-red-700',
+};
+
+export function OrderStatusBadge({ status }: { status: OrderStatus }) {
+  return (
+    <span className={`text-xs font-medium rounded-full px-2 py-1 whitespace-nowrap ${STATUS_STYLES[status]}`}>
+      {ORDER_STATUS_LABELS[status]}
+    </span>
+  );
+}
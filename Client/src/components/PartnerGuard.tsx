@@ -0,0 +1,46 @@
+import { ReactNode } from 'react';
+import { Link } from 'wouter';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/contexts/AuthContext';
+
+// Wraps /partner pages: requires a logged-in restaurant owner.
+// The server enforces the same check on every /api/partner route.
+export function PartnerGuard({ children }: { children: ReactNode }) {
+  const { isAuthenticated, user } = useAuth();
+
+  if (!isAuthenticated) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12 text-center">
+        <div className="text-6xl mb-6">🔐</div>
+        <h1 className="font-display font-bold text-3xl text-gray-900 mb-4">
+          Partner Login Required
+        </h1>
+        <p className="text-gray-600 mb-8">
+          Please login with your restaurant partner account to continue
+        </p>
+        <Link href="/login">
+          <Button size="lg">Login to Continue</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  if (user?.role !== 'restaurant_owner') {
+    return (
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12 text-center">
+        <div className="text-6xl mb-6">🏪</div>
+        <h1 className="font-display font-bold text-3xl text-gray-900 mb-4">
+          Partners Only
+        </h1>
+        <p className="text-gray-600 mb-8">
+          This section is for restaurant partners. Register a partner account to manage your restaurant on FastFeast.
+        </p>
+        <Link href="/">
+          <Button size="lg">Back to Home</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,37 @@
+import { PriceBreakdown } from '@shared/schema';
+import { formatAmount } from '@shared/pricing';
+
+function PriceRow({ label, amount }: { label: string; amount: number }) {
+  return (
+    <div className="flex justify-between text-gray-600">
+      <span>{label}</span>
+      <span>{formatAmount(amount)}</span>
+    </div>
+  );
+}
+
+// The charges above the total in the cart, checkout and order summaries
+export function PriceBreakdownRows({ breakdown, couponCode }: { breakdown: PriceBreakdown; couponCode?: string }) {
+  return (
+    <>
+      <PriceRow label="Subtotal" amount={breakdown.subtotal} />
+      {breakdown.discount > 0 && (
+        <div className="flex justify-between text-green-700">
+          <span>Discount{couponCode && ` (${couponCode})`}</span>
+          <span>−{formatAmount(breakdown.discount)}</span>
+        </div>
+      )}
+      {breakdown.packagingCharge > 0 && <PriceRow label="Packaging" amount={breakdown.packagingCharge} />}
+      <div className="flex justify-between text-gray-600">
+        <span>Delivery Fee</span>
+        <span className={breakdown.deliveryFee === 0 ? 'text-green-600 font-medium' : ''}>
+          {breakdown.deliveryFee === 0 ? 'FREE' : formatAmount(breakdown.deliveryFee)}
+        </span>
+      </div>
+      {breakdown.platformFee > 0 && <PriceRow label="Platform Fee" amount={breakdown.platformFee} />}
+      {breakdown.taxes.map(tax => (
+        <PriceRow key={tax.name} label={`${tax.name} (${tax.rate}%)`} amount={tax.amount} />
+      ))}
+    </>
+  );
+}
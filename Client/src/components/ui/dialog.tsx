@@ -0,0 +1,50 @@
+import { ReactNode, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { X } from 'lucide-react';
+
+interface DialogProps {
+  open: boolean;
+  onClose: () => void;
+  title: string;
+  description?: string;
+  children: ReactNode;
+  footer?: ReactNode;
+}
+
+export function Dialog({ open, onClose, title, description, children, footer }: DialogProps) {
+  useEffect(() => {
+    if (!open) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [open, onClose]);
+
+  if (!open) return null;
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label={title}
+        className="relative w-full max-w-md max-h-[90vh] flex flex-col bg-white rounded-lg shadow-xl"
+      >
+        <div className="flex items-start justify-between p-6 border-b">
+          <div>
+            <h2 className="font-semibold text-lg text-gray-900">{title}</h2>
+            {description && <p className="text-sm text-gray-600 mt-1">{description}</p>}
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <div className="p-6 overflow-y-auto">{children}</div>
+        {footer && <div className="p-6 border-t">{footer}</div>}
+      </div>
+    </div>,
+    document.body
+  );
+}
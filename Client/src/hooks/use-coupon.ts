@@ -0,0 +1,54 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { PriceBreakdown } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+
+const COUPON_CODE_KEY = 'couponCode';
+
+// The cart priced with the coupon: each restaurant's order, and all of them added up
+export interface CouponBreakdown extends PriceBreakdown {
+  coupon: { code: string; description: string };
+  orders: (PriceBreakdown & { restaurantId: string; restaurantName: string })[];
+  skipped: { restaurantId: string; restaurantName?: string; reason: string }[];
+}
+
+// The promo code entered in the cart, carried over to checkout for the rest of the
+// session, with the server's pricing of the cart under it. The pricing is fetched
+// again whenever `cart` changes, so a coupon the cart no longer qualifies for shows
+// why instead of a stale discount.
+export function useCoupon({ cart, scheduledFor, enabled }: { cart: unknown; scheduledFor?: string; enabled: boolean }) {
+  const [code, setCode] = useState(() => sessionStorage.getItem(COUPON_CODE_KEY) || '');
+
+  const { data: breakdown, error, isFetching } = useQuery<CouponBreakdown, Error>({
+    queryKey: ['/api/cart/apply-coupon', code, cart, scheduledFor],
+    queryFn: async () => {
+      const response = await apiRequest('POST', '/api/cart/apply-coupon', { code, scheduledFor: scheduledFor || undefined });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.message || 'Failed to apply coupon');
+      return result;
+    },
+    enabled: enabled && !!code,
+    retry: false,
+    staleTime: 0,
+  });
+
+  const applyCoupon = (newCode: string) => {
+    const normalized = newCode.trim().toUpperCase();
+    sessionStorage.setItem(COUPON_CODE_KEY, normalized);
+    setCode(normalized);
+  };
+
+  const removeCoupon = () => {
+    sessionStorage.removeItem(COUPON_CODE_KEY);
+    setCode('');
+  };
+
+  return {
+    code,
+    breakdown: code ? breakdown : undefined,
+    error: code ? error : null,
+    isChecking: isFetching,
+    applyCoupon,
+    removeCoupon,
+  };
+}
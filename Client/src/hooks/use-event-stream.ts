@@ -0,0 +1,68 @@
+import { useEffect, useRef } from 'react';
+import { authorizedFetch } from '@/lib/queryClient';
+
+// Subscribes to a Server-Sent Events endpoint while `url` is set.
+// Uses fetch rather than EventSource so the Authorization header can be sent,
+// and reconnects after a short delay if the stream drops.
+export function useEventStream<T>(url: string | null, onEvent: (event: string, data: T) => void) {
+  const handlerRef = useRef(onEvent);
+  handlerRef.current = onEvent;
+
+  useEffect(() => {
+    if (!url) return;
+
+    const controller = new AbortController();
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = async () => {
+      try {
+        const response = await authorizedFetch(url, {
+          headers: {
+            'Accept': 'text/event-stream',
+          },
+          signal: controller.signal,
+        });
+
+        if (!response.ok || !response.body) {
+          throw new Error(`HTTP error! status: ${response.status}`);
+        }
+
+        const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+        let buffer = '';
+
+        while (true) {
+          const { value, done } = await reader.read();
+          if (done) break;
+
+          // Messages are separated by a blank line; keep any partial message for the next chunk
+          buffer += value;
+          const messages = buffer.split('\n\n');
+          buffer = messages.pop() || '';
+
+          for (const message of messages) {
+            let event = 'message';
+            let data = '';
+            for (const line of message.split('\n')) {
+              if (line.startsWith('event:')) event = line.slice(6).trim();
+              else if (line.startsWith('data:')) data += line.slice(5).trim();
+            }
+            if (data) handlerRef.current(event, JSON.parse(data));
+          }
+        }
+      } catch (error) {
+        if (controller.signal.aborted) return;
+      }
+
+      if (!controller.signal.aborted) {
+        retryTimer = setTimeout(connect, 3000);
+      }
+    };
+
+    connect();
+
+    return () => {
+      controller.abort();
+      clearTimeout(retryTimer);
+    };
+  }, [url]);
+}
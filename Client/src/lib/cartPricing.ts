@@ -0,0 +1,56 @@
+import { PriceBreakdown, SelectedOption } from '@shared/schema';
+import { unitPrice } from '@shared/menuOptions';
+import { ScheduledRestaurant } from '@shared/openingHours';
+import { priceBreakdown, combineBreakdowns } from '@shared/pricing';
+import type { CouponBreakdown } from '@/hooks/use-coupon';
+
+interface CartLine {
+  quantity: number;
+  options: SelectedOption[];
+  foodItem: { price: number; restaurantId: string };
+}
+
+// The part of the cart that becomes one restaurant's order
+export interface RestaurantCart<T extends CartLine> {
+  restaurantId: string;
+  restaurant?: ScheduledRestaurant;
+  items: T[];
+  subtotal: number;
+  belowMinOrder: boolean;
+}
+
+export interface PricedRestaurantCart<T extends CartLine> extends RestaurantCart<T> {
+  breakdown?: PriceBreakdown; // missing until the restaurant has loaded
+}
+
+export function groupCartByRestaurant<T extends CartLine>(cartItems: T[], restaurants: ScheduledRestaurant[]): RestaurantCart<T>[] {
+  const groups = new Map<string, RestaurantCart<T>>();
+  for (const item of cartItems) {
+    const restaurantId = item.foodItem.restaurantId;
+    const group = groups.get(restaurantId) || {
+      restaurantId,
+      restaurant: restaurants.find(r => r.id === restaurantId),
+      items: [],
+      subtotal: 0,
+      belowMinOrder: false,
+    };
+    group.items.push(item);
+    group.subtotal += unitPrice(item.foodItem.price, item.options) * item.quantity;
+    groups.set(restaurantId, group);
+  }
+  return Array.from(groups.values()).map(group => ({
+    ...group,
+    belowMinOrder: !!group.restaurant && group.subtotal < group.restaurant.minOrder,
+  }));
+}
+
+// Prices each restaurant's order the way the server will, with its share of the
+// coupon's discount, and adds up the ones that can be ordered
+export function priceCartGroups<T extends CartLine>(groups: RestaurantCart<T>[], coupon?: CouponBreakdown) {
+  const pricedGroups: PricedRestaurantCart<T>[] = groups.map(group => {
+    const discount = coupon?.orders.find(order => order.restaurantId === group.restaurantId)?.discount ?? 0;
+    return { ...group, breakdown: group.restaurant && priceBreakdown(group.restaurant, group.subtotal, discount) };
+  });
+  const summary = combineBreakdowns(pricedGroups.flatMap(group => !group.belowMinOrder && group.breakdown ? [group.breakdown] : []));
+  return { groups: pricedGroups, summary };
+}
@@ -1,20 +1,85 @@
 import { QueryClient } from '@tanstack/react-query';
 
+// Dispatched on window when the session can't be refreshed; AuthContext logs out
+export const AUTH_EXPIRED_EVENT = 'auth:expired';
+
+// Guests' carts are keyed by an id the server issues with their first cart item.
+// It is sent on every request so logging in can merge the cart into the account.
+export const GUEST_CART_KEY = 'guestCartId';
+
+let refreshPromise: Promise<boolean> | null = null;
+
+// Exchange the stored refresh token for a new token pair.
+// Concurrent callers share a single request, since each refresh token works once.
+export function refreshAccessToken(): Promise<boolean> {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const refreshToken = localStorage.getItem('refreshToken');
+      if (!refreshToken) return false;
+
+      try {
+        const response = await fetch('/api/auth/refresh', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ refreshToken }),
+        });
+
+        if (!response.ok) {
+          window.dispatchEvent(new Event(AUTH_EXPIRED_EVENT));
+          return false;
+        }
+
+        const result = await response.json();
+        localStorage.setItem('token', result.token);
+        localStorage.setItem('refreshToken', result.refreshToken);
+        localStorage.setItem('user', JSON.stringify(result.user));
+        return true;
+      } catch {
+        return false;
+      }
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+}
+
+// fetch with the current access token; on a 401 refresh it once and retry
+export async function authorizedFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const send = () => {
+    const token = localStorage.getItem('token');
+    const guestCartId = localStorage.getItem(GUEST_CART_KEY);
+    return fetch(url, {
+      ...init,
+      headers: {
+        ...init.headers,
+        ...(token && { Authorization: `Bearer ${token}` }),
+        ...(guestCartId && { 'X-Guest-Cart-Id': guestCartId }),
+      },
+    });
+  };
+
+  const response = await send();
+  if (response.status === 401 && await refreshAccessToken()) {
+    return send();
+  }
+  return response;
+}
+
 export const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
       queryFn: async ({ queryKey }) => {
-        const response = await fetch(queryKey[0] as string, {
+        const response = await authorizedFetch(queryKey[0] as string, {
           headers: {
-            'Authorization': `Bearer ${localStorage.getItem('token')}`,
             'Content-Type': 'application/json',
           },
         });
-        
+
         if (!response.ok) {
           throw new Error(`HTTP error! status: ${response.status}`);
         }
-        
+
         return response.json();
       },
       retry: 1,
@@ -26,15 +91,14 @@ export const queryClient = new QueryClient({
 export async function apiRequest(
   method: string,
   url: string,
-  data?: any
+  data?: any,
+  headers?: Record<string, string>
 ): Promise<Response> {
-  const token = localStorage.getItem('token');
-  
-  const response = await fetch(url, {
+  const response = await authorizedFetch(url, {
     method,
     headers: {
       'Content-Type': 'application/json',
-      ...(token && { Authorization: `Bearer ${token}` }),
+      ...headers,
     },
     ...(data && { body: JSON.stringify(data) }),
   });
@@ -2,16 +2,26 @@ import { useState } from 'react';
 import { Link, useLocation } from 'wouter';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Trash2, Plus, Minus, ShoppingBag, ArrowRight } from 'lucide-react';
+import { MAX_CART_ITEM_QUANTITY, SelectedOption } from '@shared/schema';
+import { formatOptions, unitPrice } from '@shared/menuOptions';
+import { ScheduledRestaurant } from '@shared/openingHours';
+import { amountForFreeDelivery, formatAmount } from '@shared/pricing';
 import { Button } from '@/components/ui/button';
+import { CouponField } from '@/components/CouponField';
+import { PriceBreakdownRows } from '@/components/PriceBreakdownRows';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { useCoupon } from '@/hooks/use-coupon';
 import { apiRequest } from '@/lib/queryClient';
+import { groupCartByRestaurant, priceCartGroups } from '@/lib/cartPricing';
 
 interface CartItemWithDetails {
   id: string;
-  userId: string;
+  userId?: string;
+  guestCartId?: string;
   foodItemId: string;
   quantity: number;
+  options: SelectedOption[];
   createdAt: string;
   foodItem: {
     id: string;
@@ -32,22 +42,32 @@ export function Cart() {
 
   const { data: cartItems = [], isLoading } = useQuery<CartItemWithDetails[]>({
     queryKey: ['/api/cart'],
-    enabled: isAuthenticated,
+  });
+
+  const { data: restaurants = [] } = useQuery<ScheduledRestaurant[]>({
+    queryKey: ['/api/restaurants'],
+  });
+
+  // Coupons need an account, for first-order and per-customer limits
+  const coupon = useCoupon({
+    cart: cartItems.map(item => [item.id, item.quantity]),
+    enabled: isAuthenticated && cartItems.length > 0,
   });
 
   const updateQuantityMutation = useMutation({
     mutationFn: async ({ cartItemId, quantity }: { cartItemId: string; quantity: number }) => {
       const response = await apiRequest('PUT', `/api/cart/${cartItemId}`, { quantity });
-      if (!response.ok) throw new Error('Failed to update quantity');
-      return response.json();
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.message || 'Failed to update quantity');
+      return result;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/cart'] });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: 'Error',
-        description: 'Failed to update quantity',
+        description: error.message,
         variant: 'destructive',
       });
     },
@@ -99,26 +119,8 @@ export function Cart() {
     },
   });
 
-  if (!isAuthenticated) {
-    return (
-      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12 text-center">
-        <div className="text-6xl mb-6">🔐</div>
-        <h1 className="font-display font-bold text-3xl text-gray-900 mb-4">
-          Login Required
-        </h1>
-        <p className="text-gray-600 mb-8">
-          Please login to view and manage your cart
-        </p>
-        <Link href="/login">
-          <Button size="lg">Login to Continue</Button>
-        </Link>
-      </div>
-    );
-  }
-
-  const subtotal = cartItems.reduce((total, item) => total + (item.foodItem.price * item.quantity), 0);
-  const deliveryFee = subtotal > 150 ? 0 : 25;
-  const total = subtotal + deliveryFee;
+  // Priced per restaurant, as each becomes its own order at checkout
+  const { groups: restaurantGroups, summary } = priceCartGroups(groupCartByRestaurant(cartItems, restaurants), coupon.breakdown);
 
   if (isLoading) {
     return (
@@ -193,15 +195,21 @@ export function Cart() {
                           {item.foodItem.name}
                         </h3>
                       </div>
-                      <p className="text-gray-600 text-sm mb-3 line-clamp-2">
-                        {item.foodItem.description}
-                      </p>
+                      {item.options.length > 0 ? (
+                        <p className="text-gray-700 text-sm mb-3">
+                          {formatOptions(item.options)}
+                        </p>
+                      ) : (
+                        <p className="text-gray-600 text-sm mb-3 line-clamp-2">
+                          {item.foodItem.description}
+                        </p>
+                      )}
                       <div className="flex items-center space-x-4">
                         <span className="font-bold text-lg text-primary-600">
-                          ₹{item.foodItem.price}
+                          ₹{unitPrice(item.foodItem.price, item.options)}
                         </span>
                         <span className="text-sm text-gray-500">
-                          × {item.quantity} = ₹{item.foodItem.price * item.quantity}
+                          × {item.quantity} = ₹{unitPrice(item.foodItem.price, item.options) * item.quantity}
                         </span>
                       </div>
                     </div>
@@ -233,8 +241,8 @@ export function Cart() {
                           cartItemId: item.id, 
                           quantity: item.quantity + 1 
                         })}
-                        disabled={updateQuantityMutation.isPending}
-                        className="w-8 h-8 rounded-full border border-gray-300 flex items-center justify-center hover:bg-gray-100"
+                        disabled={updateQuantityMutation.isPending || item.quantity >= MAX_CART_ITEM_QUANTITY}
+                        className="w-8 h-8 rounded-full border border-gray-300 flex items-center justify-center hover:bg-gray-100 disabled:opacity-50"
                       >
                         <Plus className="h-4 w-4" />
                       </button>
@@ -254,34 +262,39 @@ export function Cart() {
             </h2>
             
             <div className="space-y-4 mb-6">
-              <div className="flex justify-between text-gray-600">
-                <span>Subtotal</span>
-                <span>₹{subtotal}</span>
-              </div>
-              <div className="flex justify-between text-gray-600">
-                <span>Delivery Fee</span>
-                <span className={deliveryFee === 0 ? 'text-green-600 font-medium' : ''}>
-                  {deliveryFee === 0 ? 'FREE' : `₹${deliveryFee}`}
-                </span>
-              </div>
-              {subtotal < 150 && (
-                <div className="text-sm text-orange-600 bg-orange-50 p-3 rounded-lg">
-                  Add ₹{150 - subtotal} more for free delivery!
-                </div>
-              )}
+              <PriceBreakdownRows breakdown={summary} couponCode={coupon.code} />
+              {restaurantGroups.map(group => {
+                if (!group.restaurant) return null;
+                const name = restaurantGroups.length > 1 ? ` from ${group.restaurant.name}` : '';
+                if (group.belowMinOrder) {
+                  return (
+                    <div key={group.restaurantId} className="text-sm text-orange-600 bg-orange-50 p-3 rounded-lg">
+                      Add {formatAmount(group.restaurant.minOrder - group.subtotal)} more{name} to reach the minimum order
+                    </div>
+                  );
+                }
+                const missing = amountForFreeDelivery(group.restaurant, group.subtotal);
+                return missing !== undefined && (
+                  <div key={group.restaurantId} className="text-sm text-orange-600 bg-orange-50 p-3 rounded-lg">
+                    Add {formatAmount(missing)} more{name} for free delivery!
+                  </div>
+                );
+              })}
+              {isAuthenticated && <CouponField coupon={coupon} />}
               <div className="border-t pt-4">
                 <div className="flex justify-between font-bold text-lg">
                   <span>Total</span>
-                  <span className="text-primary-600">₹{total}</span>
+                  <span className="text-primary-600">{formatAmount(summary.totalAmount)}</span>
                 </div>
               </div>
             </div>
 
+            {/* Guests sign in here; their cart comes with them */}
             <Button
-              onClick={() => setLocation('/checkout')}
+              onClick={() => setLocation(isAuthenticated ? '/checkout' : '/login')}
               className="w-full h-12 text-lg font-semibold"
             >
-              Proceed to Checkout
+              {isAuthenticated ? 'Proceed to Checkout' : 'Login to Checkout'}
               <ArrowRight className="ml-2 h-5 w-5" />
             </Button>
 
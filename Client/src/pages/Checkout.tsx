@@ -1,38 +1,67 @@
-import { useState, useEffect } from 'react';
-import { useLocation } from 'wouter';
+import { useState, useEffect, useMemo } from 'react';
+import { Link, useLocation } from 'wouter';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useStripe, useElements, PaymentElement, Elements } from '@stripe/react-stripe-js';
 import { loadStripe } from '@stripe/stripe-js';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { MapPin, Clock, CreditCard, Lock } from 'lucide-react';
+import { MapPin, Clock, CreditCard, Lock, Wallet } from 'lucide-react';
+import { Order, Address, SelectedOption, PaymentMethod, paymentMethodSchema, Checkout as CheckoutRecord } from '@shared/schema';
+import { formatAddress } from '@shared/address';
+import { formatOptions, unitPrice } from '@shared/menuOptions';
+import { ScheduledRestaurant, formatDayName, formatTimeOfDay } from '@shared/openingHours';
+import { checkDeliverySlot, deliverySlots, leadTimeMinutes, formatMinutesRange, describeDeliverySlot } from '@shared/deliverySchedule';
+import { formatAmount } from '@shared/pricing';
 import { Button } from '@/components/ui/button';
+import { CouponField } from '@/components/CouponField';
+import { PriceBreakdownRows } from '@/components/PriceBreakdownRows';
 import { Input } from '@/components/ui/input';
 import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from '@/components/ui/form';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { useCoupon } from '@/hooks/use-coupon';
 import { apiRequest } from '@/lib/queryClient';
+import { groupCartByRestaurant, priceCartGroups } from '@/lib/cartPricing';
 
-if (!import.meta.env.VITE_STRIPE_PUBLIC_KEY) {
-  throw new Error('Missing required Stripe key: VITE_STRIPE_PUBLIC_KEY');
-}
-const stripePromise = loadStripe(import.meta.env.VITE_STRIPE_PUBLIC_KEY);
+// Card payments need VITE_STRIPE_PUBLIC_KEY; without it only the other methods are offered
+const stripePromise = import.meta.env.VITE_STRIPE_PUBLIC_KEY ? loadStripe(import.meta.env.VITE_STRIPE_PUBLIC_KEY) : null;
 
 const checkoutSchema = z.object({
   deliveryAddress: z.string().min(10, 'Please provide a complete address'),
   specialInstructions: z.string().optional(),
+  scheduledFor: z.string().optional(), // ISO time of a delivery slot; empty for ASAP
+  paymentMethod: paymentMethodSchema,
 });
 
 type CheckoutForm = z.infer<typeof checkoutSchema>;
 
+interface PaymentMethodOption {
+  method: PaymentMethod;
+  label: string;
+}
+
+interface StartedPayment {
+  paymentMethod: PaymentMethod;
+  status: 'paid' | 'requires_action' | 'on_delivery';
+  clientSecret?: string;
+}
+
+interface CheckoutResult {
+  checkout: CheckoutRecord;
+  orders: Order[];
+  skipped: { restaurantId: string; restaurantName?: string; reason: string }[];
+}
+
 interface CartItemWithDetails {
   id: string;
   quantity: number;
+  options: SelectedOption[];
   foodItem: {
     id: string;
     name: string;
     price: number;
+    maxPrepMinutes: number;
     restaurantId: string;
   };
 }
@@ -43,59 +72,179 @@ export function Checkout() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [clientSecret, setClientSecret] = useState("");
-  const [orderId, setOrderId] = useState("");
+  const [orderIds, setOrderIds] = useState<string[]>([]);
+  const [checkoutTotal, setCheckoutTotal] = useState(0);
+  const [isStartingPayment, setIsStartingPayment] = useState(false);
 
   const { data: cartItems = [] } = useQuery<CartItemWithDetails[]>({
     queryKey: ['/api/cart'],
     enabled: isAuthenticated,
   });
 
+  const { data: restaurants = [] } = useQuery<ScheduledRestaurant[]>({
+    queryKey: ['/api/restaurants'],
+  });
+
+  const { data: savedAddresses = [] } = useQuery<Address[]>({
+    queryKey: ['/api/me/addresses'],
+    enabled: isAuthenticated,
+  });
+
+  const { data: allPaymentMethods = [] } = useQuery<PaymentMethodOption[]>({
+    queryKey: ['/api/payment-methods'],
+  });
+  const paymentMethods = allPaymentMethods.filter(option => option.method !== 'stripe' || stripePromise);
+
   const form = useForm<CheckoutForm>({
     resolver: zodResolver(checkoutSchema),
     defaultValues: {
       deliveryAddress: user?.address || '',
       specialInstructions: '',
+      scheduledFor: '',
+      paymentMethod: undefined,
     },
   });
 
-  const subtotal = cartItems.reduce((total, item) => total + (item.foodItem.price * item.quantity), 0);
-  const deliveryFee = subtotal > 150 ? 0 : 25;
-  const total = subtotal + deliveryFee;
+  // Preselect the first method the server offers
+  useEffect(() => {
+    if (!form.getValues('paymentMethod') && paymentMethods.length > 0) {
+      form.setValue('paymentMethod', paymentMethods[0].method);
+    }
+  }, [allPaymentMethods, form]);
+
+  // Start from the default saved address unless the user has already typed one
+  useEffect(() => {
+    const defaultAddress = savedAddresses.find(address => address.isDefault);
+    if (defaultAddress && !form.formState.dirtyFields.deliveryAddress) {
+      form.setValue('deliveryAddress', formatAddress(defaultAddress));
+    }
+  }, [savedAddresses, form]);
+
+  const deliveryAddress = form.watch('deliveryAddress');
+
+  // Each restaurant becomes its own order with its own charges and minimum order
+  const cartGroups = groupCartByRestaurant(cartItems, restaurants);
+  const orderableGroups = cartGroups.filter(group => !group.belowMinOrder);
+
+  // Delivery slots that work for every restaurant in the order
+  const scheduledGroups = orderableGroups.flatMap(group => group.restaurant
+    ? [{ restaurant: group.restaurant, leadMinutes: leadTimeMinutes(group.restaurant, group.items.map(item => item.foodItem)) }]
+    : []);
+  const timeZone = scheduledGroups[0]?.restaurant.timezone;
+  const slotKey = scheduledGroups.map(group => `${group.restaurant.id}:${group.leadMinutes}`).join(',');
+  const slots = useMemo(() => {
+    if (scheduledGroups.length === 0) return [];
+    const [first, ...others] = scheduledGroups;
+    const now = new Date();
+    return deliverySlots(first.restaurant, first.leadMinutes, now).filter(slot =>
+      others.every(group => !checkDeliverySlot(group.restaurant, slot, group.leadMinutes, now))
+    );
+  }, [slotKey]);
+
+  const slotsByDay = slots.reduce((days, slot) => {
+    const day = formatDayName(slot, timeZone!);
+    (days[day] = days[day] || []).push(slot);
+    return days;
+  }, {} as Record<string, Date[]>);
+
+  const canDeliverNow = scheduledGroups.every(group => group.restaurant.isOpen);
+  const slowestRestaurant = scheduledGroups
+    .map(group => group.restaurant)
+    .sort((a, b) => b.maxDeliveryMinutes - a.maxDeliveryMinutes)[0];
+  const scheduledFor = form.watch('scheduledFor');
+  const paymentMethod = form.watch('paymentMethod');
+
+  // The code entered in the cart carries over; the server checks it again when ordering
+  const coupon = useCoupon({
+    cart: cartItems.map(item => [item.id, item.quantity]),
+    scheduledFor,
+    enabled: isAuthenticated && cartItems.length > 0,
+  });
+  const { groups: restaurantGroups, summary } = priceCartGroups(cartGroups, coupon.breakdown);
 
-  const createOrderMutation = useMutation({
-    mutationFn: async (orderData: any) => {
-      const response = await apiRequest('POST', '/api/orders', orderData);
-      if (!response.ok) throw new Error('Failed to create order');
-      return response.json();
+  // ASAP isn't possible while a restaurant is closed, so start from the first slot
+  useEffect(() => {
+    if (!canDeliverNow && !scheduledFor && slots.length > 0) {
+      form.setValue('scheduledFor', slots[0].toISOString());
+    }
+  }, [canDeliverNow, scheduledFor, slots, form]);
+
+  // One key per attempt at placing the order, sent with the checkout and the payment,
+  // so a double submit or a retry replays the first attempt instead of ordering and
+  // charging twice. Changing the form starts a new attempt.
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID());
+  useEffect(() => {
+    const subscription = form.watch(() => setIdempotencyKey(crypto.randomUUID()));
+    return () => subscription.unsubscribe();
+  }, [form]);
+  useEffect(() => setIdempotencyKey(crypto.randomUUID()), [coupon.code]);
+
+  const checkoutMutation = useMutation({
+    mutationFn: async ({ paymentMethod, ...checkoutData }: CheckoutForm) => {
+      const response = await apiRequest('POST', '/api/checkout', {
+        ...checkoutData,
+        scheduledFor: checkoutData.scheduledFor || undefined,
+        couponCode: coupon.code || undefined,
+      }, { 'Idempotency-Key': idempotencyKey });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.message || 'Failed to create order');
+      return result as CheckoutResult;
     },
-    onSuccess: (order) => {
-      setOrderId(order.id);
-      // Create payment intent
-      createPaymentIntent(order.id);
+    onSuccess: (result, { paymentMethod }) => {
+      setOrderIds(result.orders.map(order => order.id));
+      setCheckoutTotal(result.checkout.totalAmount);
+      coupon.removeCoupon();
+      // Ordered items have been removed from the cart on the server
+      queryClient.invalidateQueries({ queryKey: ['/api/cart'] });
+
+      if (result.skipped.length > 0) {
+        toast({
+          title: 'Some items were left in your cart',
+          description: result.skipped
+            .map(group => `${group.restaurantName || 'Unknown restaurant'}: ${group.reason}`)
+            .join('; '),
+          variant: 'destructive',
+        });
+      }
+
+      startPayment(result.checkout.id, paymentMethod, result.orders.map(order => order.id));
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: 'Error',
-        description: 'Failed to create order',
+        description: error.message,
         variant: 'destructive',
       });
     },
   });
 
-  const createPaymentIntent = async (orderId: string) => {
+  const startPayment = async (checkoutId: string, method: PaymentMethod, placedOrderIds: string[]) => {
+    setIsStartingPayment(true);
     try {
-      const response = await apiRequest('POST', '/api/create-payment-intent', {
-        amount: total,
-        orderId,
+      const response = await apiRequest('POST', '/api/payments', { checkoutId, paymentMethod: method }, { 'Idempotency-Key': idempotencyKey });
+      const payment: StartedPayment = await response.json();
+      if (!response.ok) throw new Error();
+
+      // Card payments are finished in the Stripe form; other methods are settled already
+      if (payment.status === 'requires_action' && payment.clientSecret) {
+        setClientSecret(payment.clientSecret);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
+      toast({
+        title: 'Order placed! 🎉',
+        description: payment.status === 'on_delivery' ? 'Please pay the rider in cash on delivery' : 'Your payment was successful',
+        variant: 'success',
       });
-      const data = await response.json();
-      setClientSecret(data.clientSecret);
+      setLocation(placedOrderIds.length === 1 ? `/orders/${placedOrderIds[0]}` : '/orders');
     } catch (error) {
       toast({
         title: 'Error',
         description: 'Failed to initialize payment',
         variant: 'destructive',
       });
+    } finally {
+      setIsStartingPayment(false);
     }
   };
 
@@ -109,36 +258,7 @@ export function Checkout() {
       return;
     }
 
-    // Group items by restaurant
-    const restaurantGroups = cartItems.reduce((groups, item) => {
-      const restaurantId = item.foodItem.restaurantId;
-      if (!groups[restaurantId]) {
-        groups[restaurantId] = [];
-      }
-      groups[restaurantId].push(item);
-      return groups;
-    }, {} as Record<string, CartItemWithDetails[]>);
-
-    // For simplicity, we'll create one order for the first restaurant
-    // In a real app, you might want to create separate orders for each restaurant
-    const firstRestaurantId = Object.keys(restaurantGroups)[0];
-    const orderItems = restaurantGroups[firstRestaurantId];
-
-    const orderData = {
-      restaurantId: firstRestaurantId,
-      items: orderItems.map(item => ({
-        foodItemId: item.foodItem.id,
-        quantity: item.quantity,
-        price: item.foodItem.price,
-      })),
-      totalAmount: total,
-      deliveryAddress: data.deliveryAddress,
-      deliveryFee,
-      estimatedDeliveryTime: "30-45 mins",
-      specialInstructions: data.specialInstructions,
-    };
-
-    createOrderMutation.mutate(orderData);
+    checkoutMutation.mutate(data);
   };
 
   if (!isAuthenticated) {
@@ -158,6 +278,14 @@ export function Checkout() {
     );
   }
 
+  if (clientSecret && stripePromise) {
+    return (
+      <Elements stripe={stripePromise} options={{ clientSecret }}>
+        <CheckoutForm orderIds={orderIds} total={checkoutTotal} />
+      </Elements>
+    );
+  }
+
   if (cartItems.length === 0) {
     return (
       <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12 text-center">
@@ -175,14 +303,6 @@ export function Checkout() {
     );
   }
 
-  if (clientSecret) {
-    return (
-      <Elements stripe={stripePromise} options={{ clientSecret }}>
-        <CheckoutForm orderId={orderId} total={total} />
-      </Elements>
-    );
-  }
-
   return (
     <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       <h1 className="font-display font-bold text-3xl text-gray-900 mb-8">
@@ -198,6 +318,38 @@ export function Checkout() {
 
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              {savedAddresses.length > 0 && (
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-sm font-medium text-gray-700">Saved Addresses</span>
+                    <Link href="/profile" className="text-sm text-primary-600 hover:text-primary-700">
+                      Manage
+                    </Link>
+                  </div>
+                  <div className="space-y-2">
+                    {savedAddresses.map((address) => {
+                      const formatted = formatAddress(address);
+                      const isSelected = deliveryAddress === formatted;
+
+                      return (
+                        <button
+                          key={address.id}
+                          type="button"
+                          onClick={() => form.setValue('deliveryAddress', formatted, { shouldValidate: true, shouldDirty: true })}
+                          className={`w-full text-left rounded-lg border p-3 transition-colors ${
+                            isSelected ? 'border-primary-500 bg-primary-50' : 'border-gray-200 hover:border-gray-300'
+                          }`}
+                        >
+                          <span className="font-medium text-gray-900">{address.label}</span>
+                          {address.isDefault && <span className="ml-2 text-xs text-primary-600">Default</span>}
+                          <p className="text-sm text-gray-600">{formatted}</p>
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
               <FormField
                 control={form.control}
                 name="deliveryAddress"
@@ -238,29 +390,98 @@ export function Checkout() {
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="scheduledFor"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="flex items-center space-x-2">
+                      <Clock className="h-4 w-4" />
+                      <span>Delivery Time</span>
+                    </FormLabel>
+                    <FormControl>
+                      <select
+                        {...field}
+                        className="w-full h-12 px-3 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      >
+                        <option value="" disabled={!canDeliverNow}>
+                          {canDeliverNow ? 'As soon as possible' : 'As soon as possible (closed right now)'}
+                        </option>
+                        {Object.entries(slotsByDay).map(([day, daySlots]) => (
+                          <optgroup key={day} label={day}>
+                            {daySlots.map((slot) => (
+                              <option key={slot.toISOString()} value={slot.toISOString()}>
+                                {formatTimeOfDay(slot, timeZone!)}
+                              </option>
+                            ))}
+                          </optgroup>
+                        ))}
+                      </select>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="paymentMethod"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="flex items-center space-x-2">
+                      <Wallet className="h-4 w-4" />
+                      <span>Payment Method</span>
+                    </FormLabel>
+                    <div className="space-y-2">
+                      {paymentMethods.map((option) => (
+                        <button
+                          key={option.method}
+                          type="button"
+                          onClick={() => field.onChange(option.method)}
+                          className={`w-full text-left rounded-lg border p-3 transition-colors ${
+                            field.value === option.method ? 'border-primary-500 bg-primary-50' : 'border-gray-200 hover:border-gray-300'
+                          }`}
+                        >
+                          <span className="font-medium text-gray-900">{option.label}</span>
+                        </button>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                 <div className="flex items-center space-x-2 text-blue-800">
                   <Clock className="h-4 w-4" />
-                  <span className="font-medium">Estimated Delivery Time</span>
+                  <span className="font-medium">{scheduledFor ? 'Scheduled Delivery' : 'Estimated Delivery Time'}</span>
                 </div>
-                <p className="text-blue-700 mt-1">30-45 minutes</p>
+                <p className="text-blue-700 mt-1">
+                  {scheduledFor
+                    ? describeDeliverySlot(new Date(scheduledFor), timeZone!)
+                    : slowestRestaurant
+                      ? formatMinutesRange(slowestRestaurant.minDeliveryMinutes, slowestRestaurant.maxDeliveryMinutes)
+                      : '—'}
+                </p>
               </div>
 
               <Button
                 type="submit"
-                disabled={createOrderMutation.isPending}
+                disabled={checkoutMutation.isPending || isStartingPayment || orderableGroups.length === 0}
                 className="w-full h-12 text-lg font-semibold"
               >
-                {createOrderMutation.isPending ? (
+                {checkoutMutation.isPending || isStartingPayment ? (
                   <div className="flex items-center space-x-2">
                     <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full"></div>
                     <span>Creating Order...</span>
                   </div>
-                ) : (
+                ) : paymentMethod === 'stripe' ? (
                   <>
                     <CreditCard className="mr-2 h-5 w-5" />
                     Proceed to Payment
                   </>
+                ) : (
+                  'Place Order'
                 )}
               </Button>
             </form>
@@ -273,51 +494,67 @@ export function Checkout() {
             Order Summary
           </h2>
 
-          <div className="space-y-4 mb-6">
-            {cartItems.map((item) => (
-              <div key={item.id} className="flex justify-between items-center">
-                <div className="flex-1">
-                  <h4 className="font-medium text-gray-900">{item.foodItem.name}</h4>
-                  <p className="text-sm text-gray-600">Qty: {item.quantity}</p>
+          <div className="space-y-6 mb-6">
+            {restaurantGroups.map((group) => (
+              <div key={group.restaurantId} className={group.belowMinOrder ? 'opacity-60' : ''}>
+                <div className="flex justify-between items-center mb-2">
+                  <h3 className="font-semibold text-gray-900">{group.restaurant?.name || 'Restaurant'}</h3>
+                  {group.breakdown && (
+                    <span className="text-sm text-gray-600">
+                      {group.breakdown.deliveryFee === 0 ? 'Free delivery' : `${formatAmount(group.breakdown.deliveryFee)} delivery`}
+                    </span>
+                  )}
+                </div>
+                <div className="space-y-3">
+                  {group.items.map((item) => (
+                    <div key={item.id} className="flex justify-between items-center">
+                      <div className="flex-1">
+                        <h4 className="font-medium text-gray-900">{item.foodItem.name}</h4>
+                        {item.options.length > 0 && (
+                          <p className="text-sm text-gray-600">{formatOptions(item.options)}</p>
+                        )}
+                        <p className="text-sm text-gray-600">Qty: {item.quantity}</p>
+                      </div>
+                      <span className="font-medium">₹{unitPrice(item.foodItem.price, item.options) * item.quantity}</span>
+                    </div>
+                  ))}
                 </div>
-                <span className="font-medium">₹{item.foodItem.price * item.quantity}</span>
+                {group.belowMinOrder && group.restaurant && (
+                  <div className="mt-2 text-sm text-orange-600 bg-orange-50 p-3 rounded-lg">
+                    Minimum order is ₹{group.restaurant.minOrder}. These items will stay in your cart.
+                  </div>
+                )}
               </div>
             ))}
           </div>
 
           <div className="border-t pt-4 space-y-2">
-            <div className="flex justify-between text-gray-600">
-              <span>Subtotal</span>
-              <span>₹{subtotal}</span>
-            </div>
-            <div className="flex justify-between text-gray-600">
-              <span>Delivery Fee</span>
-              <span className={deliveryFee === 0 ? 'text-green-600 font-medium' : ''}>
-                {deliveryFee === 0 ? 'FREE' : `₹${deliveryFee}`}
-              </span>
-            </div>
+            <PriceBreakdownRows breakdown={summary} couponCode={coupon.code} />
+            <CouponField coupon={coupon} />
             <div className="flex justify-between font-bold text-lg pt-2 border-t">
               <span>Total</span>
-              <span className="text-primary-600">₹{total}</span>
+              <span className="text-primary-600">{formatAmount(summary.totalAmount)}</span>
             </div>
           </div>
 
-          <div className="mt-6 bg-green-50 border border-green-200 rounded-lg p-4">
-            <div className="flex items-center space-x-2 text-green-800">
-              <Lock className="h-4 w-4" />
-              <span className="font-medium">Secure Payment</span>
+          {paymentMethod === 'stripe' && (
+            <div className="mt-6 bg-green-50 border border-green-200 rounded-lg p-4">
+              <div className="flex items-center space-x-2 text-green-800">
+                <Lock className="h-4 w-4" />
+                <span className="font-medium">Secure Payment</span>
+              </div>
+              <p className="text-green-700 text-sm mt-1">
+                Your payment information is encrypted and secure
+              </p>
             </div>
-            <p className="text-green-700 text-sm mt-1">
-              Your payment information is encrypted and secure
-            </p>
-          </div>
+          )}
         </div>
       </div>
     </div>
   );
 }
 
-function CheckoutForm({ orderId, total }: { orderId: string; total: number }) {
+function CheckoutForm({ orderIds, total }: { orderIds: string[]; total: number }) {
   const stripe = useStripe();
   const elements = useElements();
   const [, setLocation] = useLocation();
@@ -325,6 +562,9 @@ function CheckoutForm({ orderId, total }: { orderId: string; total: number }) {
   const queryClient = useQueryClient();
   const [isProcessing, setIsProcessing] = useState(false);
 
+  // A single order goes straight to live tracking; several go to the orders list
+  const trackingPath = orderIds.length === 1 ? `/orders/${orderIds[0]}` : '/orders';
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -337,7 +577,7 @@ function CheckoutForm({ orderId, total }: { orderId: string; total: number }) {
     const { error } = await stripe.confirmPayment({
       elements,
       confirmParams: {
-        return_url: `${window.location.origin}/order-success?orderId=${orderId}`,
+        return_url: `${window.location.origin}${trackingPath}`,
       },
       redirect: 'if_required',
     });
@@ -359,7 +599,7 @@ function CheckoutForm({ orderId, total }: { orderId: string; total: number }) {
         variant: "success",
       });
       
-      setLocation(`/order-success?orderId=${orderId}`);
+      setLocation(trackingPath);
     }
 
     setIsProcessing(false);
@@ -376,7 +616,7 @@ function CheckoutForm({ orderId, total }: { orderId: string; total: number }) {
             Complete Payment
           </h1>
           <p className="text-gray-600">
-            Total Amount: <span className="font-bold text-primary-600">₹{total}</span>
+            Total Amount: <span className="font-bold text-primary-600">{formatAmount(total)}</span>
           </p>
         </div>
 
@@ -394,7 +634,7 @@ function CheckoutForm({ orderId, total }: { orderId: string; total: number }) {
                 <span>Processing...</span>
               </div>
             ) : (
-              `Pay ₹${total}`
+              `Pay ${formatAmount(total)}`
             )}
           </Button>
         </form>
@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Mail } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from '@/components/ui/form';
+import { AuthLayout } from '@/components/AuthLayout';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Please enter a valid email'),
+});
+
+type ForgotPasswordForm = z.infer<typeof forgotPasswordSchema>;
+
+export function ForgotPassword() {
+  const [isLoading, setIsLoading] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const form = useForm<ForgotPasswordForm>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: {
+      email: '',
+    },
+  });
+
+  const onSubmit = async (data: ForgotPasswordForm) => {
+    setIsLoading(true);
+    try {
+      const response = await apiRequest('POST', '/api/auth/forgot-password', data);
+      const result = await response.json();
+
+      if (response.ok) {
+        setSentTo(data.email);
+      } else {
+        toast({
+          title: 'Request Failed',
+          description: result.message || 'Something went wrong',
+          variant: 'destructive',
+        });
+      }
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Something went wrong. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (sentTo) {
+    return (
+      <AuthLayout title="Check your inbox 📬" subtitle="We've sent you a link to reset your password">
+        <p className="text-gray-600 text-center mb-6">
+          If <span className="font-medium text-gray-900">{sentTo}</span> has a FastFeast account, a reset link is on its way. It expires in 1 hour.
+        </p>
+        <Link href="/login">
+          <Button variant="outline" className="w-full h-12">Back to Sign In</Button>
+        </Link>
+      </AuthLayout>
+    );
+  }
+
+  return (
+    <AuthLayout title="Forgot your password?" subtitle="Enter your email and we'll send you a reset link">
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <FormField
+            control={form.control}
+            name="email"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-gray-700 font-medium">Email Address</FormLabel>
+                <FormControl>
+                  <div className="relative">
+                    <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                    <Input
+                      {...field}
+                      type="email"
+                      placeholder="Enter your email"
+                      className="pl-10 h-12 border-gray-300 focus:border-primary-500 focus:ring-primary-500"
+                    />
+                  </div>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <Button
+            type="submit"
+            disabled={isLoading}
+            className="w-full h-12 bg-gradient-saffron hover:from-yellow-500 hover:to-orange-500 text-white font-semibold text-lg rounded-xl shadow-lg"
+          >
+            {isLoading ? 'Sending...' : 'Send Reset Link'}
+          </Button>
+        </form>
+      </Form>
+
+      <p className="mt-6 text-center text-sm text-gray-600">
+        Remembered it?{' '}
+        <Link href="/login" className="text-primary-600 hover:text-primary-700 font-medium">
+          Sign in
+        </Link>
+      </p>
+    </AuthLayout>
+  );
+}
@@ -2,13 +2,15 @@ import { useState } from 'react';
 import { Link } from 'wouter';
 import { useQuery } from '@tanstack/react-query';
 import { Star, Clock, Truck, Search, ChefHat, MapPin } from 'lucide-react';
-import { Restaurant, FoodItem } from '@shared/schema';
+import { FoodItem } from '@shared/schema';
+import { ScheduledRestaurant, openingStatusLabel } from '@shared/openingHours';
+import { formatMinutesRange } from '@shared/deliverySchedule';
 import { Button } from '@/components/ui/button';
 
 export function Home() {
   const [selectedCuisine, setSelectedCuisine] = useState<string>('');
 
-  const { data: restaurants = [], isLoading: restaurantsLoading } = useQuery<Restaurant[]>({
+  const { data: restaurants = [], isLoading: restaurantsLoading } = useQuery<ScheduledRestaurant[]>({
     queryKey: ['/api/restaurants'],
   });
 
@@ -190,7 +192,7 @@ export function Home() {
                     <div className="flex items-center justify-between text-sm text-gray-500 mb-4">
                       <div className="flex items-center space-x-1">
                         <Clock className="h-4 w-4" />
-                        <span>{restaurant.deliveryTime}</span>
+                        <span>{formatMinutesRange(restaurant.minDeliveryMinutes, restaurant.maxDeliveryMinutes)}</span>
                       </div>
                       <div className="flex items-center space-x-1">
                         <Truck className="h-4 w-4" />
@@ -207,7 +209,7 @@ export function Home() {
                           ? 'bg-green-100 text-green-800' 
                           : 'bg-red-100 text-red-800'
                       }`}>
-                        {restaurant.isOpen ? 'Open' : 'Closed'}
+                        {openingStatusLabel(restaurant)}
                       </span>
                     </div>
                   </div>
@@ -264,7 +266,7 @@ export function Home() {
                   <p className="text-sm text-gray-600 mb-2 line-clamp-2">{item.description}</p>
                   <div className="flex items-center justify-between">
                     <span className="font-bold text-lg text-primary-600">₹{item.price}</span>
-                    <span className="text-xs text-gray-500">{item.preparationTime}</span>
+                    <span className="text-xs text-gray-500">{formatMinutesRange(item.minPrepMinutes, item.maxPrepMinutes)}</span>
                   </div>
                 </div>
               </div>
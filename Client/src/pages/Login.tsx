@@ -1,15 +1,16 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Link, useLocation } from 'wouter';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
+import { User, otpRequestSchema, otpVerifySchema } from '@shared/schema';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from '@/components/ui/form';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
-import { Eye, EyeOff, Mail, Lock } from 'lucide-react';
+import { Eye, EyeOff, Mail, Lock, Phone, KeyRound } from 'lucide-react';
 
 const loginSchema = z.object({
   email: z.string().email('Please enter a valid email'),
@@ -18,13 +19,37 @@ const loginSchema = z.object({
 
 type LoginForm = z.infer<typeof loginSchema>;
 
+type PhoneForm = z.infer<typeof otpRequestSchema>;
+
+const codeSchema = otpVerifySchema.pick({ code: true });
+
+type CodeForm = z.infer<typeof codeSchema>;
+
+interface LoginResult {
+  token: string;
+  refreshToken: string;
+  user: User;
+  isNewUser?: boolean;
+}
+
 export function Login() {
   const [, setLocation] = useLocation();
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [mode, setMode] = useState<'email' | 'phone'>('email');
   const { login } = useAuth();
   const { toast } = useToast();
 
+  const completeLogin = (result: LoginResult) => {
+    login(result.token, result.refreshToken, result.user);
+    toast({
+      title: result.isNewUser ? 'Welcome to FastFeast! 🎉' : 'Welcome back! 🎉',
+      description: result.isNewUser ? 'Your account has been created' : 'Successfully logged in to FastFeast',
+      variant: 'success',
+    });
+    setLocation('/');
+  };
+
   const form = useForm<LoginForm>({
     resolver: zodResolver(loginSchema),
     defaultValues: {
@@ -40,13 +65,7 @@ export function Login() {
       const result = await response.json();
 
       if (response.ok) {
-        login(result.token, result.user);
-        toast({
-          title: 'Welcome back! 🎉',
-          description: 'Successfully logged in to FastFeast',
-          variant: 'success',
-        });
-        setLocation('/');
+        completeLogin(result);
       } else {
         toast({
           title: 'Login Failed',
@@ -89,75 +108,98 @@ export function Login() {
 
         {/* Login Form */}
         <div className="bg-white rounded-2xl shadow-xl p-8 border border-gray-100">
-          <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-              <FormField
-                control={form.control}
-                name="email"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel className="text-gray-700 font-medium">Email Address</FormLabel>
-                    <FormControl>
-                      <div className="relative">
-                        <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
-                        <Input
-                          {...field}
-                          type="email"
-                          placeholder="Enter your email"
-                          className="pl-10 h-12 border-gray-300 focus:border-primary-500 focus:ring-primary-500"
-                        />
-                      </div>
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={form.control}
-                name="password"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel className="text-gray-700 font-medium">Password</FormLabel>
-                    <FormControl>
-                      <div className="relative">
-                        <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
-                        <Input
-                          {...field}
-                          type={showPassword ? 'text' : 'password'}
-                          placeholder="Enter your password"
-                          className="pl-10 pr-10 h-12 border-gray-300 focus:border-primary-500 focus:ring-primary-500"
-                        />
-                        <button
-                          type="button"
-                          onClick={() => setShowPassword(!showPassword)}
-                          className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
-                        >
-                          {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                        </button>
-                      </div>
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+          {mode === 'phone' ? (
+            <PhoneLogin onLogin={completeLogin} />
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-gray-700 font-medium">Email Address</FormLabel>
+                      <FormControl>
+                        <div className="relative">
+                          <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                          <Input
+                            {...field}
+                            type="email"
+                            placeholder="Enter your email"
+                            className="pl-10 h-12 border-gray-300 focus:border-primary-500 focus:ring-primary-500"
+                          />
+                        </div>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
 
-              <Button
-                type="submit"
-                disabled={isLoading}
-                className="w-full h-12 bg-gradient-saffron hover:from-yellow-500 hover:to-orange-500 text-white font-semibold text-lg rounded-xl shadow-lg hover:shadow-xl transition-all duration-300"
-              >
-                {isLoading ? (
-                  <div className="flex items-center space-x-2">
-                    <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full"></div>
-                    <span>Signing in...</span>
-                  </div>
-                ) : (
-                  'Sign In'
-                )}
-              </Button>
-            </form>
-          </Form>
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-gray-700 font-medium">Password</FormLabel>
+                      <FormControl>
+                        <div className="relative">
+                          <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                          <Input
+                            {...field}
+                            type={showPassword ? 'text' : 'password'}
+                            placeholder="Enter your password"
+                            className="pl-10 pr-10 h-12 border-gray-300 focus:border-primary-500 focus:ring-primary-500"
+                          />
+                          <button
+                            type="button"
+                            onClick={() => setShowPassword(!showPassword)}
+                            className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                          >
+                            {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                          </button>
+                        </div>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="flex justify-end -mt-3">
+                  <Link href="/forgot-password" className="text-sm text-primary-600 hover:text-primary-700">
+                    Forgot password?
+                  </Link>
+                </div>
+
+                <Button
+                  type="submit"
+                  disabled={isLoading}
+                  className="w-full h-12 bg-gradient-saffron hover:from-yellow-500 hover:to-orange-500 text-white font-semibold text-lg rounded-xl shadow-lg hover:shadow-xl transition-all duration-300"
+                >
+                  {isLoading ? (
+                    <div className="flex items-center space-x-2">
+                      <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full"></div>
+                      <span>Signing in...</span>
+                    </div>
+                  ) : (
+                    'Sign In'
+                  )}
+                </Button>
+              </form>
+            </Form>
+          )}
+
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={() => setMode(mode === 'email' ? 'phone' : 'email')}
+            className="w-full mt-4 text-primary-600 hover:text-primary-700"
+          >
+            {mode === 'email' ? (
+              <><Phone className="h-4 w-4 mr-2" />Login with phone</>
+            ) : (
+              <><Mail className="h-4 w-4 mr-2" />Login with email</>
+            )}
+          </Button>
 
           {/* Divider */}
           <div className="mt-6 relative">
@@ -182,14 +224,199 @@ export function Login() {
           </div>
         </div>
 
-        {/* Demo Credentials */}
-        <div className="bg-blue-50 border border-blue-200 rounded-xl p-4 text-center">
+        {/* Demo Credentials, seeded outside production only */}
+        {import.meta.env.DEV && <div className="bg-blue-50 border border-blue-200 rounded-xl p-4 text-center">
           <p className="text-sm text-blue-800 font-medium mb-2">🎯 Demo Credentials</p>
           <p className="text-xs text-blue-600">
             Email: demo@fastfeast.com | Password: demo123
           </p>
-        </div>
+          <p className="text-xs text-blue-600">
+            Partner: partner@fastfeast.com | Password: partner123
+          </p>
+        </div>}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+// Two steps: text a code to the number, then sign in with it
+function PhoneLogin({ onLogin }: { onLogin: (result: LoginResult) => void }) {
+  const [phone, setPhone] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [resendIn, setResendIn] = useState(0);
+  const { toast } = useToast();
+
+  const phoneForm = useForm<PhoneForm>({
+    resolver: zodResolver(otpRequestSchema),
+    defaultValues: {
+      phone: '',
+    },
+  });
+
+  const codeForm = useForm<CodeForm>({
+    resolver: zodResolver(codeSchema),
+    defaultValues: {
+      code: '',
+    },
+  });
+
+  // Count down to when another code can be requested
+  useEffect(() => {
+    if (resendIn <= 0) return;
+    const timer = setTimeout(() => setResendIn(resendIn - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendIn]);
+
+  const requestCode = async (number: string) => {
+    setIsLoading(true);
+    try {
+      const response = await apiRequest('POST', '/api/auth/otp/request', { phone: number });
+      const result = await response.json();
+
+      if (response.ok) {
+        setPhone(result.phone);
+        setResendIn(60);
+        toast({
+          title: 'Code sent',
+          description: `We texted a 6-digit code to ${result.phone}`,
+          variant: 'success',
+        });
+      } else {
+        if (result.retryAfter) setResendIn(result.retryAfter);
+        toast({
+          title: 'Could not send code',
+          description: result.message || 'Something went wrong',
+          variant: 'destructive',
+        });
+      }
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Something went wrong. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const verifyCode = async (data: CodeForm) => {
+    setIsLoading(true);
+    try {
+      const response = await apiRequest('POST', '/api/auth/otp/verify', { phone, code: data.code });
+      const result = await response.json();
+
+      if (response.ok) {
+        onLogin(result);
+      } else {
+        codeForm.reset();
+        toast({
+          title: 'Login Failed',
+          description: result.message || 'Invalid code',
+          variant: 'destructive',
+        });
+      }
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Something went wrong. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!phone) {
+    return (
+      <Form {...phoneForm}>
+        <form onSubmit={phoneForm.handleSubmit((data) => requestCode(data.phone))} className="space-y-6">
+          <FormField
+            control={phoneForm.control}
+            name="phone"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-gray-700 font-medium">Mobile Number</FormLabel>
+                <FormControl>
+                  <div className="relative">
+                    <Phone className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                    <Input
+                      {...field}
+                      type="tel"
+                      placeholder="98765 43210"
+                      className="pl-10 h-12 border-gray-300 focus:border-primary-500 focus:ring-primary-500"
+                    />
+                  </div>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <Button
+            type="submit"
+            disabled={isLoading || resendIn > 0}
+            className="w-full h-12 bg-gradient-saffron hover:from-yellow-500 hover:to-orange-500 text-white font-semibold text-lg rounded-xl shadow-lg hover:shadow-xl transition-all duration-300"
+          >
+            {isLoading ? 'Sending code...' : resendIn > 0 ? `Try again in ${resendIn}s` : 'Send Code'}
+          </Button>
+        </form>
+      </Form>
+    );
+  }
+
+  return (
+    <Form {...codeForm}>
+      <form onSubmit={codeForm.handleSubmit(verifyCode)} className="space-y-6">
+        <FormField
+          control={codeForm.control}
+          name="code"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-gray-700 font-medium">Code sent to {phone}</FormLabel>
+              <FormControl>
+                <div className="relative">
+                  <KeyRound className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                  <Input
+                    {...field}
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    maxLength={6}
+                    placeholder="6-digit code"
+                    className="pl-10 h-12 tracking-widest border-gray-300 focus:border-primary-500 focus:ring-primary-500"
+                  />
+                </div>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-between -mt-3 text-sm">
+          <button
+            type="button"
+            onClick={() => { setPhone(null); codeForm.reset(); }}
+            className="text-gray-500 hover:text-gray-700"
+          >
+            Change number
+          </button>
+          <button
+            type="button"
+            onClick={() => requestCode(phone)}
+            disabled={isLoading || resendIn > 0}
+            className="text-primary-600 hover:text-primary-700 disabled:text-gray-400"
+          >
+            {resendIn > 0 ? `Resend code in ${resendIn}s` : 'Resend code'}
+          </button>
+        </div>
+
+        <Button
+          type="submit"
+          disabled={isLoading}
+          className="w-full h-12 bg-gradient-saffron hover:from-yellow-500 hover:to-orange-500 text-white font-semibold text-lg rounded-xl shadow-lg hover:shadow-xl transition-all duration-300"
+        >
+          {isLoading ? 'Verifying...' : 'Verify & Sign In'}
+        </Button>
+      </form>
+    </Form>
+  );
+}
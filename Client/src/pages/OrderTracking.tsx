@@ -0,0 +1,442 @@
+import { useState } from 'react';
+import { Link, useParams } from 'wouter';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { ArrowLeft, Check, Clock, MapPin, RotateCcw, XCircle } from 'lucide-react';
+import { Restaurant, FoodItem, Order, OrderStatusEvent } from '@shared/schema';
+import { OrderStatus, ORDER_STATUS_LABELS, canCustomerCancel } from '@shared/orderStatus';
+import { formatOptions } from '@shared/menuOptions';
+import { formatAmount } from '@shared/pricing';
+import { Button } from '@/components/ui/button';
+import { Dialog } from '@/components/ui/dialog';
+import { OrderStatusBadge } from '@/components/OrderStatusBadge';
+import { PriceBreakdownRows } from '@/components/PriceBreakdownRows';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useEventStream } from '@/hooks/use-event-stream';
+import { apiRequest } from '@/lib/queryClient';
+
+// The happy path an order moves through, in order
+const TRACKING_STEPS: OrderStatus[] = [
+  'pending',
+  'confirmed',
+  'preparing',
+  'ready_for_pickup',
+  'out_for_delivery',
+  'delivered',
+];
+
+interface OrderWithDetails extends Omit<Order, 'items'> {
+  items: (Order['items'][number] & { foodItem: FoodItem | null })[];
+}
+
+interface ReorderResult {
+  added: { foodItemId: string; name: string; quantity: number; price: number }[];
+  priceChanges: { foodItemId: string; name: string; previousPrice: number; price: number }[];
+  skipped: { foodItemId: string; name?: string; reason: string }[];
+}
+
+const PAYMENT_STATUS_LABELS: Record<Order['paymentStatus'], string> = {
+  pending: 'Awaiting payment',
+  paid: 'Paid',
+  failed: 'Payment failed',
+  refunded: 'Refunded',
+  partially_refunded: 'Partly refunded',
+};
+
+// Older orders only have a "25-30 mins" style label, without a timestamp
+function deliveryEstimateLabel(order: Pick<Order, 'status' | 'scheduledFor' | 'estimatedDeliveryTime' | 'estimatedDeliveryAt'>): string {
+  if (order.scheduledFor && (order.status === 'pending' || order.status === 'scheduled')) {
+    return `Scheduled for ${order.estimatedDeliveryTime}`;
+  }
+  return order.estimatedDeliveryAt ? `Arriving by ${order.estimatedDeliveryTime}` : `Arriving in ${order.estimatedDeliveryTime}`;
+}
+
+export function OrderTracking() {
+  const { id } = useParams<{ id: string }>();
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [reorderResult, setReorderResult] = useState<ReorderResult | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [cancelReason, setCancelReason] = useState('');
+
+  const { data: order, isLoading } = useQuery<OrderWithDetails>({
+    queryKey: [`/api/orders/${id}`],
+    enabled: isAuthenticated,
+  });
+
+  const { data: timeline = [] } = useQuery<OrderStatusEvent[]>({
+    queryKey: [`/api/orders/${id}/timeline`],
+    enabled: !!order,
+  });
+
+  const { data: restaurant } = useQuery<Restaurant>({
+    queryKey: [`/api/restaurants/${order?.restaurantId}`],
+    enabled: !!order,
+  });
+
+  // The server pushes the order whenever its status or payment changes;
+  // refetch rather than use the payload, which has no food item details
+  useEventStream<Order>(isAuthenticated && order ? `/api/orders/${id}/stream` : null, (event) => {
+    if (event === 'order') {
+      queryClient.invalidateQueries({ queryKey: [`/api/orders/${id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/orders/${id}/timeline`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/orders'], exact: true });
+    }
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/orders/${id}/reorder`);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.message || 'Failed to reorder');
+      return result as ReorderResult;
+    },
+    onSuccess: (result) => {
+      setReorderResult(result);
+      queryClient.invalidateQueries({ queryKey: ['/api/cart'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (reason: string) => {
+      const response = await apiRequest('POST', `/api/orders/${id}/cancel`, reason ? { reason } : {});
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.message || 'Failed to cancel order');
+      return result as Order;
+    },
+    onSuccess: (cancelledOrder) => {
+      setIsCancelling(false);
+      queryClient.invalidateQueries({ queryKey: [`/api/orders/${id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/orders/${id}/timeline`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/orders'], exact: true });
+      toast({
+        title: 'Order cancelled',
+        description: cancelledOrder.refunds.length > 0 ? 'Your refund is on its way' : undefined,
+        variant: 'success',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (!isAuthenticated) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12 text-center">
+        <div className="text-6xl mb-6">🔐</div>
+        <h1 className="font-display font-bold text-3xl text-gray-900 mb-4">
+          Login Required
+        </h1>
+        <p className="text-gray-600 mb-8">
+          Please login to track your order
+        </p>
+        <Link href="/login">
+          <Button size="lg">Login to Continue</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/3 mb-8"></div>
+          <div className="h-64 bg-gray-200 rounded-xl"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12 text-center">
+        <div className="text-6xl mb-6">📦</div>
+        <h1 className="font-display font-bold text-3xl text-gray-900 mb-4">
+          Order not found
+        </h1>
+        <Link href="/restaurants">
+          <Button size="lg">Browse Restaurants</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const isCancelled = order.status === 'cancelled';
+  const isDelivered = order.status === 'delivered';
+  // Pre-orders wait as scheduled between payment and the kitchen
+  const steps = order.scheduledFor ? ['pending', 'scheduled', ...TRACKING_STEPS.slice(1)] as OrderStatus[] : TRACKING_STEPS;
+  const currentStep = steps.indexOf(order.status);
+  // Orders from before breakdowns were stored only have food, delivery and discount
+  const breakdown = order.priceBreakdown ?? {
+    subtotal: order.items.reduce((total, item) => total + item.price * item.quantity, 0),
+    discount: order.discount,
+    packagingCharge: 0,
+    deliveryFee: order.deliveryFee,
+    platformFee: 0,
+    taxes: [],
+    totalAmount: order.totalAmount,
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+      <div>
+        <Link href="/orders">
+          <button className="flex items-center text-sm text-gray-600 hover:text-gray-900 mb-2">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            All orders
+          </button>
+        </Link>
+        <div className="flex items-center justify-between">
+          <h1 className="font-display font-bold text-3xl text-gray-900">
+            Order #{order.id.slice(0, 8)}
+          </h1>
+          <OrderStatusBadge status={order.status} />
+        </div>
+        <div className="flex items-center justify-between">
+          <p className="text-gray-600">
+            {restaurant?.name} · {new Date(order.createdAt).toLocaleString()}
+          </p>
+          <div className="flex items-center space-x-2">
+            {canCustomerCancel(order.status) && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setCancelReason('');
+                  setIsCancelling(true);
+                }}
+              >
+                Cancel Order
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => reorderMutation.mutate()}
+              disabled={reorderMutation.isPending}
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              {reorderMutation.isPending ? 'Adding...' : 'Reorder'}
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {reorderResult && (
+        <div className="bg-white rounded-xl shadow-sm border border-primary-200 p-6">
+          <h2 className="font-display font-semibold text-xl text-gray-900 mb-4">
+            {reorderResult.added.length > 0 ? 'Added to your cart' : 'Nothing could be added'}
+          </h2>
+
+          {reorderResult.added.length > 0 && (
+            <ul className="text-sm text-gray-700 space-y-1 mb-4">
+              {reorderResult.added.map((item) => (
+                <li key={item.foodItemId}>{item.quantity} × {item.name}</li>
+              ))}
+            </ul>
+          )}
+
+          {reorderResult.priceChanges.length > 0 && (
+            <div className="mb-4">
+              <h3 className="font-medium text-gray-900 mb-1">Price changes</h3>
+              <ul className="text-sm text-gray-700 space-y-1">
+                {reorderResult.priceChanges.map((change) => (
+                  <li key={change.foodItemId}>
+                    {change.name}: <span className="line-through text-gray-400">₹{change.previousPrice}</span> ₹{change.price}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {reorderResult.skipped.length > 0 && (
+            <div className="mb-4">
+              <h3 className="font-medium text-gray-900 mb-1">Not added</h3>
+              <ul className="text-sm text-red-700 space-y-1">
+                {reorderResult.skipped.map((item) => (
+                  <li key={item.foodItemId}>{item.name || 'Unknown item'}: {item.reason}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {reorderResult.added.length > 0 && (
+            <Link href="/cart">
+              <Button size="sm">Go to Cart</Button>
+            </Link>
+          )}
+        </div>
+      )}
+
+      {/* Live progress */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        {isCancelled ? (
+          <div>
+            <div className="flex items-center space-x-3 text-red-700">
+              <XCircle className="h-6 w-6" />
+              <span className="font-semibold text-lg">This order was cancelled</span>
+            </div>
+            {order.cancellationReason && (
+              <p className="text-sm text-gray-600 mt-2 ml-9">{order.cancellationReason}</p>
+            )}
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between mb-6">
+              <span className="font-display font-semibold text-xl text-gray-900">
+                {ORDER_STATUS_LABELS[order.status]}
+              </span>
+              {!isDelivered && (
+                <span className="flex items-center text-sm text-gray-600">
+                  <Clock className="h-4 w-4 mr-1" />
+                  {deliveryEstimateLabel(order)}
+                </span>
+              )}
+            </div>
+
+            <ol className="space-y-4">
+              {steps.map((step, index) => {
+                const isDone = index < currentStep || isDelivered;
+                const isCurrent = index === currentStep && !isDelivered;
+
+                return (
+                  <li key={step} className="flex items-center space-x-3">
+                    <span
+                      className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-semibold ${
+                        isDone
+                          ? 'bg-green-500 text-white'
+                          : isCurrent
+                            ? 'bg-primary-600 text-white animate-pulse'
+                            : 'bg-gray-200 text-gray-500'
+                      }`}
+                    >
+                      {isDone ? <Check className="h-4 w-4" /> : index + 1}
+                    </span>
+                    <span className={isDone || isCurrent ? 'text-gray-900 font-medium' : 'text-gray-500'}>
+                      {ORDER_STATUS_LABELS[step]}
+                    </span>
+                  </li>
+                );
+              })}
+            </ol>
+          </>
+        )}
+      </div>
+
+      {/* Items and totals */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <h2 className="font-display font-semibold text-xl text-gray-900 mb-4">Items</h2>
+        <div className="space-y-4">
+          {order.items.map((item, index) => (
+            <div key={index} className="flex items-center space-x-4">
+              {item.foodItem && (
+                <img
+                  src={item.foodItem.image}
+                  alt={item.foodItem.name}
+                  className="w-14 h-14 object-cover rounded-lg flex-shrink-0"
+                />
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-gray-900">{item.foodItem?.name || 'Item no longer available'}</p>
+                {item.options.length > 0 && (
+                  <p className="text-sm text-gray-600">{formatOptions(item.options)}</p>
+                )}
+                <p className="text-sm text-gray-500">₹{item.price} × {item.quantity}</p>
+              </div>
+              <span className="font-medium text-gray-900">₹{item.price * item.quantity}</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="border-t border-gray-200 mt-6 pt-4 space-y-2 text-sm">
+          <PriceBreakdownRows breakdown={breakdown} couponCode={order.couponCode} />
+          <div className="flex justify-between font-semibold text-gray-900 text-base">
+            <span>Total</span>
+            <span>{formatAmount(order.totalAmount)}</span>
+          </div>
+          <div className="flex justify-between text-gray-600">
+            <span>Payment</span>
+            <span className={order.paymentStatus === 'paid' ? 'text-green-700' : order.paymentStatus === 'failed' ? 'text-red-700' : ''}>
+              {order.paymentMethod === 'cash_on_delivery' && order.paymentStatus === 'pending'
+                ? 'Cash on delivery'
+                : PAYMENT_STATUS_LABELS[order.paymentStatus]}
+            </span>
+          </div>
+          {order.refunds.map((refund, index) => (
+            <div key={index} className="flex justify-between text-green-700">
+              <span>
+                Refunded {new Date(refund.createdAt).toLocaleDateString()}
+                {refund.reason && <span className="text-gray-500"> · {refund.reason}</span>}
+              </span>
+              <span>−{formatAmount(refund.amount)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Delivery */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <h2 className="font-display font-semibold text-xl text-gray-900 mb-4">Delivery</h2>
+        <div className="flex items-start text-gray-700">
+          <MapPin className="h-4 w-4 mr-2 mt-1 flex-shrink-0" />
+          <span>{order.deliveryAddress}</span>
+        </div>
+        {order.specialInstructions && (
+          <p className="text-sm text-gray-600 mt-3">Instructions: {order.specialInstructions}</p>
+        )}
+      </div>
+
+      {/* Status history */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <h2 className="font-display font-semibold text-xl text-gray-900 mb-4">Timeline</h2>
+        <ul className="space-y-3">
+          {timeline.map((event) => (
+            <li key={event.id} className="flex items-center justify-between text-sm">
+              <span className="text-gray-900">{ORDER_STATUS_LABELS[event.toStatus]}</span>
+              <span className="text-gray-500">{new Date(event.createdAt).toLocaleString()}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <Dialog
+        open={isCancelling}
+        onClose={() => setIsCancelling(false)}
+        title="Cancel this order?"
+        description={order.paymentStatus === 'paid' ? `${formatAmount(order.totalAmount)} will be refunded to your original payment method` : undefined}
+        footer={
+          <Button
+            variant="destructive"
+            className="w-full"
+            onClick={() => cancelMutation.mutate(cancelReason.trim())}
+            disabled={cancelMutation.isPending}
+          >
+            {cancelMutation.isPending ? 'Cancelling...' : 'Cancel Order'}
+          </Button>
+        }
+      >
+        <textarea
+          value={cancelReason}
+          onChange={(event) => setCancelReason(event.target.value)}
+          placeholder="Reason (optional)"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          rows={3}
+          maxLength={500}
+        />
+      </Dialog>
+    </div>
+  );
+}
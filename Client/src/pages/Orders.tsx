@@ -0,0 +1,177 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { ChevronLeft, ChevronRight, Clock } from 'lucide-react';
+import { Restaurant, Order } from '@shared/schema';
+import { isFinalStatus } from '@shared/orderStatus';
+import { formatAmount } from '@shared/pricing';
+import { Button } from '@/components/ui/button';
+import { OrderStatusBadge } from '@/components/OrderStatusBadge';
+import { useAuth } from '@/contexts/AuthContext';
+import { useEventStream } from '@/hooks/use-event-stream';
+
+const PAGE_SIZE = 10;
+
+type OrderFilter = 'active' | 'past';
+
+export function Orders() {
+  const { isAuthenticated } = useAuth();
+  const queryClient = useQueryClient();
+  const [filter, setFilter] = useState<OrderFilter>('active');
+  const [page, setPage] = useState(1);
+
+  const { data: orders = [], isLoading } = useQuery<Order[]>({
+    queryKey: ['/api/orders'],
+    enabled: isAuthenticated,
+  });
+
+  const { data: restaurants = [] } = useQuery<Restaurant[]>({
+    queryKey: ['/api/restaurants'],
+  });
+
+  // Keep active orders' statuses current while the list is open
+  useEventStream<Order>(isAuthenticated ? '/api/orders/stream' : null, (event) => {
+    if (event === 'order') {
+      queryClient.invalidateQueries({ queryKey: ['/api/orders'], exact: true });
+    }
+  });
+
+  if (!isAuthenticated) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12 text-center">
+        <div className="text-6xl mb-6">🔐</div>
+        <h1 className="font-display font-bold text-3xl text-gray-900 mb-4">
+          Login Required
+        </h1>
+        <p className="text-gray-600 mb-8">
+          Please login to view your orders
+        </p>
+        <Link href="/login">
+          <Button size="lg">Login to Continue</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const filteredOrders = orders.filter(order =>
+    filter === 'active' ? !isFinalStatus(order.status) : isFinalStatus(order.status)
+  );
+  const pageCount = Math.max(1, Math.ceil(filteredOrders.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount);
+  const pageOrders = filteredOrders.slice((currentPage - 1) * PAGE_SIZE, currentPage * PAGE_SIZE);
+
+  const changeFilter = (next: OrderFilter) => {
+    setFilter(next);
+    setPage(1);
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex items-center justify-between mb-8">
+        <h1 className="font-display font-bold text-3xl text-gray-900">
+          My Orders
+        </h1>
+        <div className="flex space-x-2">
+          <Button
+            variant={filter === 'active' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => changeFilter('active')}
+          >
+            Active
+          </Button>
+          <Button
+            variant={filter === 'past' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => changeFilter('past')}
+          >
+            Past
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4 animate-pulse">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="h-24 bg-gray-200 rounded-xl"></div>
+          ))}
+        </div>
+      ) : pageOrders.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-xl shadow-sm border border-gray-200">
+          <div className="text-6xl mb-4">🧾</div>
+          <h3 className="font-display font-semibold text-xl text-gray-900 mb-2">
+            {filter === 'active' ? 'No active orders' : 'No past orders'}
+          </h3>
+          <p className="text-gray-600 mb-6">
+            {filter === 'active' ? "Orders you place will show up here while they're on their way." : 'Delivered and cancelled orders will show up here.'}
+          </p>
+          <Link href="/restaurants">
+            <Button>Browse Restaurants</Button>
+          </Link>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {pageOrders.map((order) => {
+            const restaurant = restaurants.find(r => r.id === order.restaurantId);
+            const itemCount = order.items.reduce((total, item) => total + item.quantity, 0);
+
+            return (
+              <Link key={order.id} href={`/orders/${order.id}`}>
+                <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 hover:shadow-md transition-shadow cursor-pointer">
+                  <div className="flex items-center space-x-4">
+                    {restaurant && (
+                      <img
+                        src={restaurant.image}
+                        alt={restaurant.name}
+                        className="w-16 h-16 object-cover rounded-lg flex-shrink-0"
+                      />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center justify-between mb-1">
+                        <h3 className="font-semibold text-lg text-gray-900 truncate">
+                          {restaurant?.name || 'Restaurant'}
+                        </h3>
+                        <OrderStatusBadge status={order.status} />
+                      </div>
+                      <div className="flex items-center space-x-4 text-sm text-gray-500">
+                        <span className="flex items-center">
+                          <Clock className="h-3 w-3 mr-1" />
+                          {new Date(order.createdAt).toLocaleString()}
+                        </span>
+                        <span>{itemCount} {itemCount === 1 ? 'item' : 'items'}</span>
+                        <span className="font-semibold text-gray-900">{formatAmount(order.totalAmount)}</span>
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              </Link>
+            );
+          })}
+
+          {pageCount > 1 && (
+            <div className="flex items-center justify-center space-x-4 pt-4">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(currentPage - 1)}
+                disabled={currentPage === 1}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="text-sm text-gray-600">
+                Page {currentPage} of {pageCount}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(currentPage + 1)}
+                disabled={currentPage === pageCount}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
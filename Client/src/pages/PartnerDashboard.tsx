@@ -0,0 +1,129 @@
+import { Link } from 'wouter';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Store, Star, Settings, ChefHat } from 'lucide-react';
+import { Restaurant } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { PartnerGuard } from '@/components/PartnerGuard';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+
+export function PartnerDashboard() {
+  return (
+    <PartnerGuard>
+      <PartnerRestaurantList />
+    </PartnerGuard>
+  );
+}
+
+function PartnerRestaurantList() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: restaurants = [], isLoading } = useQuery<Restaurant[]>({
+    queryKey: ['/api/partner/restaurants'],
+  });
+
+  const toggleOpenMutation = useMutation({
+    mutationFn: async ({ restaurantId, isOpen }: { restaurantId: string; isOpen: boolean }) => {
+      const response = await apiRequest('PATCH', `/api/partner/restaurants/${restaurantId}`, { isOpen });
+      if (!response.ok) throw new Error('Failed to update restaurant');
+      return response.json();
+    },
+    onSuccess: (restaurant: Restaurant) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/partner/restaurants'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/restaurants'] });
+      toast({
+        title: restaurant.isOpen ? 'Restaurant opened' : 'Restaurant closed',
+        description: `${restaurant.name} is now ${restaurant.isOpen ? 'accepting' : 'not accepting'} orders`,
+        variant: 'success',
+      });
+    },
+    onError: () => {
+      toast({
+        title: 'Error',
+        description: 'Failed to update restaurant',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <h1 className="font-display font-bold text-3xl text-gray-900 mb-2">
+          Partner Dashboard
+        </h1>
+        <p className="text-gray-600">Manage your restaurants, menus and availability</p>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4 animate-pulse">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="h-28 bg-gray-200 rounded-xl"></div>
+          ))}
+        </div>
+      ) : restaurants.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-xl shadow-sm border border-gray-200">
+          <div className="text-6xl mb-4">🏪</div>
+          <h3 className="font-display font-semibold text-xl text-gray-900 mb-2">
+            No restaurants yet
+          </h3>
+          <p className="text-gray-600">
+            Restaurants linked to your partner account will appear here.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {restaurants.map((restaurant) => (
+            <div key={restaurant.id} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <div className="flex items-center space-x-4">
+                <img
+                  src={restaurant.image}
+                  alt={restaurant.name}
+                  className="w-20 h-20 object-cover rounded-lg flex-shrink-0"
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center space-x-2 mb-1">
+                    <Store className="h-4 w-4 text-primary-600" />
+                    <h3 className="font-semibold text-lg text-gray-900">{restaurant.name}</h3>
+                  </div>
+                  <div className="flex items-center space-x-4 text-sm text-gray-500">
+                    <span>{restaurant.cuisine}</span>
+                    <span className="flex items-center space-x-1">
+                      <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+                      <span>{restaurant.rating}</span>
+                    </span>
+                    <span>Min order: ₹{restaurant.minOrder}</span>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => toggleOpenMutation.mutate({ restaurantId: restaurant.id, isOpen: !restaurant.isOpen })}
+                    disabled={toggleOpenMutation.isPending}
+                    className={restaurant.isOpen ? 'text-green-700 border-green-300' : 'text-red-700 border-red-300'}
+                  >
+                    {restaurant.isOpen ? 'Open' : 'Closed'}
+                  </Button>
+                  <Link href={`/partner/restaurants/${restaurant.id}/kitchen`}>
+                    <Button variant="outline" size="sm">
+                      <ChefHat className="h-4 w-4 mr-2" />
+                      Kitchen
+                    </Button>
+                  </Link>
+                  <Link href={`/partner/restaurants/${restaurant.id}`}>
+                    <Button size="sm">
+                      <Settings className="h-4 w-4 mr-2" />
+                      Manage
+                    </Button>
+                  </Link>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,286 @@
+import { useState } from 'react';
+import { Link, useParams } from 'wouter';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { ArrowLeft, Clock, MapPin } from 'lucide-react';
+import { Restaurant, FoodItem, Order } from '@shared/schema';
+import { OrderStatus, ORDER_STATUS_LABELS } from '@shared/orderStatus';
+import { Button } from '@/components/ui/button';
+import { Dialog } from '@/components/ui/dialog';
+import { PartnerGuard } from '@/components/PartnerGuard';
+import { OrderStatusBadge } from '@/components/OrderStatusBadge';
+import { useToast } from '@/hooks/use-toast';
+import { useEventStream } from '@/hooks/use-event-stream';
+import { apiRequest } from '@/lib/queryClient';
+
+interface KitchenAction {
+  label: string;
+  status: OrderStatus;
+}
+
+// Next steps the kitchen can take from each open status. Any of these orders can
+// also be cancelled, with a reason, which refunds the customer.
+const KITCHEN_ACTIONS: Partial<Record<OrderStatus, KitchenAction[]>> = {
+  confirmed: [{ label: 'Start preparing', status: 'preparing' }],
+  preparing: [{ label: 'Ready for pickup', status: 'ready_for_pickup' }],
+  ready_for_pickup: [{ label: 'Handed to rider', status: 'out_for_delivery' }],
+};
+
+const KITCHEN_COLUMNS: { title: string; statuses: OrderStatus[] }[] = [
+  { title: 'New', statuses: ['confirmed'] },
+  { title: 'Preparing', statuses: ['preparing'] },
+  { title: 'Ready for Pickup', statuses: ['ready_for_pickup'] },
+];
+
+export function PartnerKitchen() {
+  return (
+    <PartnerGuard>
+      <KitchenQueue />
+    </PartnerGuard>
+  );
+}
+
+function KitchenQueue() {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const ordersKey = `/api/partner/restaurants/${id}/orders`;
+  const [cancellingOrder, setCancellingOrder] = useState<Order | null>(null);
+  const [cancelReason, setCancelReason] = useState('');
+  const [refundAmount, setRefundAmount] = useState('');
+
+  const { data: restaurants = [], isLoading } = useQuery<Restaurant[]>({
+    queryKey: ['/api/partner/restaurants'],
+  });
+  const restaurant = restaurants.find(r => r.id === id);
+
+  const { data: menuItems = [] } = useQuery<FoodItem[]>({
+    queryKey: [`/api/partner/restaurants/${id}/menu`],
+    enabled: !!restaurant,
+  });
+
+  const { data: orders = [] } = useQuery<Order[]>({
+    queryKey: [ordersKey],
+    enabled: !!restaurant,
+    staleTime: 0,
+  });
+
+  // New orders and status changes arrive over the stream; refetch the queue on each one
+  useEventStream<Order>(restaurant ? `${ordersKey}/stream` : null, (event) => {
+    if (event === 'order') {
+      queryClient.invalidateQueries({ queryKey: [ordersKey] });
+    }
+  });
+
+  const updateStatusMutation = useMutation({
+    mutationFn: async ({ orderId, status }: { orderId: string; status: OrderStatus }) => {
+      const response = await apiRequest('PATCH', `${ordersKey}/${orderId}/status`, { status });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to update order');
+      }
+      return response.json();
+    },
+    onSuccess: (order: Order) => {
+      queryClient.invalidateQueries({ queryKey: [ordersKey] });
+      toast({
+        title: 'Order updated',
+        description: `Order #${order.id.slice(0, 8)} is now ${ORDER_STATUS_LABELS[order.status].toLowerCase()}`,
+        variant: 'success',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async ({ orderId, reason, refundAmount }: { orderId: string; reason: string; refundAmount?: number }) => {
+      const response = await apiRequest('POST', `/api/orders/${orderId}/cancel`, { reason, refundAmount });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to cancel order');
+      }
+      return response.json();
+    },
+    onSuccess: (order: Order) => {
+      queryClient.invalidateQueries({ queryKey: [ordersKey] });
+      setCancellingOrder(null);
+      toast({
+        title: 'Order cancelled',
+        description: order.refunds.length > 0
+          ? `Order #${order.id.slice(0, 8)} was cancelled and the customer refunded`
+          : `Order #${order.id.slice(0, 8)} was cancelled`,
+        variant: 'success',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const openCancelDialog = (order: Order) => {
+    setCancelReason('');
+    setRefundAmount('');
+    setCancellingOrder(order);
+  };
+
+  const itemName = (foodItemId: string) =>
+    menuItems.find(item => item.id === foodItemId)?.name || 'Unknown item';
+
+  if (isLoading) {
+    return (
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="h-64 bg-gray-200 rounded-xl animate-pulse"></div>
+      </div>
+    );
+  }
+
+  if (!restaurant) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12 text-center">
+        <h1 className="font-display font-bold text-3xl text-gray-900 mb-4">Restaurant not found</h1>
+        <Link href="/partner">
+          <Button size="lg">Back to Dashboard</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <Link href={`/partner/restaurants/${id}`}>
+          <button className="flex items-center text-sm text-gray-600 hover:text-gray-900 mb-2">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            {restaurant.name}
+          </button>
+        </Link>
+        <h1 className="font-display font-bold text-3xl text-gray-900">Kitchen</h1>
+        <p className="text-gray-600">Orders update live as customers place them</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {KITCHEN_COLUMNS.map((column) => {
+          const columnOrders = orders.filter(order => column.statuses.includes(order.status));
+
+          return (
+            <div key={column.title} className="bg-gray-50 rounded-xl border border-gray-200 p-4">
+              <h2 className="font-display font-semibold text-lg text-gray-900 mb-4">
+                {column.title} ({columnOrders.length})
+              </h2>
+
+              {columnOrders.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-8">No orders</p>
+              ) : (
+                <div className="space-y-4">
+                  {columnOrders.map((order) => (
+                    <div key={order.id} className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="font-semibold text-gray-900">#{order.id.slice(0, 8)}</span>
+                        <OrderStatusBadge status={order.status} />
+                      </div>
+
+                      <div className="flex items-center text-xs text-gray-500 mb-3">
+                        <Clock className="h-3 w-3 mr-1" />
+                        {new Date(order.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                        {order.scheduledFor && (
+                          <span className="ml-2 font-medium text-indigo-700">Pre-order for {order.estimatedDeliveryTime}</span>
+                        )}
+                      </div>
+
+                      <ul className="text-sm text-gray-700 space-y-1 mb-3">
+                        {order.items.map((item) => (
+                          <li key={item.foodItemId}>
+                            {item.quantity} × {itemName(item.foodItemId)}
+                          </li>
+                        ))}
+                      </ul>
+
+                      {order.specialInstructions && (
+                        <p className="text-sm text-gray-600 bg-yellow-50 rounded p-2 mb-3">
+                          {order.specialInstructions}
+                        </p>
+                      )}
+
+                      <div className="flex items-start text-xs text-gray-500 mb-4">
+                        <MapPin className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+                        {order.deliveryAddress}
+                      </div>
+
+                      <div className="flex flex-wrap gap-2">
+                        {(KITCHEN_ACTIONS[order.status] || []).map((action) => (
+                          <Button
+                            key={action.status}
+                            size="sm"
+                            onClick={() => updateStatusMutation.mutate({ orderId: order.id, status: action.status })}
+                            disabled={updateStatusMutation.isPending}
+                          >
+                            {action.label}
+                          </Button>
+                        ))}
+                        <Button size="sm" variant="ghost" onClick={() => openCancelDialog(order)}>
+                          Cancel
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <Dialog
+        open={!!cancellingOrder}
+        onClose={() => setCancellingOrder(null)}
+        title={`Cancel order #${cancellingOrder?.id.slice(0, 8)}`}
+        description="The customer sees this reason, and is refunded if they've paid"
+        footer={
+          <Button
+            variant="destructive"
+            className="w-full"
+            onClick={() => cancellingOrder && cancelMutation.mutate({
+              orderId: cancellingOrder.id,
+              reason: cancelReason.trim(),
+              refundAmount: refundAmount ? Number(refundAmount) : undefined,
+            })}
+            disabled={!cancelReason.trim() || cancelMutation.isPending}
+          >
+            {cancelMutation.isPending ? 'Cancelling...' : 'Cancel Order'}
+          </Button>
+        }
+      >
+        <textarea
+          value={cancelReason}
+          onChange={(event) => setCancelReason(event.target.value)}
+          placeholder="e.g. We've run out of an ingredient"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          rows={3}
+          maxLength={500}
+        />
+        {cancellingOrder?.paymentStatus === 'paid' && (
+          // Left empty, the whole payment is refunded
+          <input
+            type="number"
+            min="1"
+            max={cancellingOrder.totalAmount}
+            step="0.01"
+            value={refundAmount}
+            onChange={(event) => setRefundAmount(event.target.value)}
+            placeholder={`Refund amount (₹${cancellingOrder.totalAmount} in full)`}
+            className="mt-3 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          />
+        )}
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,387 @@
+import { useState, useEffect } from 'react';
+import { Link, useParams } from 'wouter';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { ArrowLeft, Plus, Pencil, Archive, ArchiveRestore, ChefHat } from 'lucide-react';
+import { Restaurant, FoodItem } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Form } from '@/components/ui/form';
+import { TextField, CheckboxField } from '@/components/FormFields';
+import { PartnerGuard } from '@/components/PartnerGuard';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+
+const restaurantDetailsSchema = z.object({
+  name: z.string().min(2, 'Name is required'),
+  description: z.string().min(10, 'Please add a short description'),
+  cuisine: z.string().min(2, 'Cuisine is required'),
+  image: z.string().url('Please enter an image URL'),
+  minDeliveryMinutes: z.coerce.number().int().min(0),
+  maxDeliveryMinutes: z.coerce.number().int().min(0),
+  pincode: z.string().regex(/^\d{6}$/, 'Pincode must be 6 digits'),
+  deliveryFee: z.coerce.number().min(0),
+  freeDeliveryThreshold: z.string().regex(/^(\d+(\.\d+)?)?$/, 'Enter an amount, or leave empty to always charge delivery'),
+  packagingCharge: z.coerce.number().min(0),
+  minOrder: z.coerce.number().min(0),
+  isVeg: z.boolean(),
+}).refine(data => data.maxDeliveryMinutes >= data.minDeliveryMinutes, {
+  message: 'Must be at least the minimum',
+  path: ['maxDeliveryMinutes'],
+});
+
+type RestaurantDetailsForm = z.infer<typeof restaurantDetailsSchema>;
+
+const foodItemFormSchema = z.object({
+  name: z.string().min(2, 'Name is required'),
+  description: z.string().min(5, 'Please add a short description'),
+  price: z.coerce.number().positive('Price must be greater than 0'),
+  image: z.string().url('Please enter an image URL'),
+  category: z.string().min(2, 'Category is required'),
+  minPrepMinutes: z.coerce.number().int().min(0),
+  maxPrepMinutes: z.coerce.number().int().min(0),
+  isVeg: z.boolean(),
+  isSpicy: z.boolean(),
+}).refine(data => data.maxPrepMinutes >= data.minPrepMinutes, {
+  message: 'Must be at least the minimum',
+  path: ['maxPrepMinutes'],
+});
+
+type FoodItemForm = z.infer<typeof foodItemFormSchema>;
+
+export function PartnerRestaurant() {
+  return (
+    <PartnerGuard>
+      <PartnerRestaurantManager />
+    </PartnerGuard>
+  );
+}
+
+function PartnerRestaurantManager() {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editingItem, setEditingItem] = useState<FoodItem | null>(null);
+  const [isAddingItem, setIsAddingItem] = useState(false);
+
+  const { data: restaurants = [], isLoading } = useQuery<Restaurant[]>({
+    queryKey: ['/api/partner/restaurants'],
+  });
+  const restaurant = restaurants.find(r => r.id === id);
+
+  const { data: menuItems = [] } = useQuery<FoodItem[]>({
+    queryKey: [`/api/partner/restaurants/${id}/menu`],
+    enabled: !!restaurant,
+  });
+
+  const invalidateRestaurant = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/partner/restaurants'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/restaurants'] });
+    queryClient.invalidateQueries({ queryKey: [`/api/restaurants/${id}`] });
+  };
+
+  const invalidateMenu = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/partner/restaurants/${id}/menu`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/restaurants/${id}/menu`] });
+  };
+
+  const updateRestaurantMutation = useMutation({
+    mutationFn: async (updates: Partial<Restaurant>) => {
+      const response = await apiRequest('PATCH', `/api/partner/restaurants/${id}`, updates);
+      if (!response.ok) throw new Error('Failed to update restaurant');
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateRestaurant();
+      toast({
+        title: 'Restaurant updated',
+        description: 'Your changes have been saved',
+        variant: 'success',
+      });
+    },
+    onError: () => {
+      toast({
+        title: 'Error',
+        description: 'Failed to update restaurant',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const saveItemMutation = useMutation({
+    mutationFn: async ({ itemId, data }: { itemId?: string; data: Partial<FoodItem> }) => {
+      const response = itemId
+        ? await apiRequest('PATCH', `/api/partner/restaurants/${id}/menu/${itemId}`, data)
+        : await apiRequest('POST', `/api/partner/restaurants/${id}/menu`, { ...data, isAvailable: true });
+      if (!response.ok) throw new Error('Failed to save item');
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateMenu();
+      setEditingItem(null);
+      setIsAddingItem(false);
+    },
+    onError: () => {
+      toast({
+        title: 'Error',
+        description: 'Failed to save menu item',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 animate-pulse">
+        <div className="h-8 bg-gray-200 rounded w-1/3 mb-8"></div>
+        <div className="h-64 bg-gray-200 rounded-xl"></div>
+      </div>
+    );
+  }
+
+  if (!restaurant) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12 text-center">
+        <div className="text-6xl mb-4">🏪</div>
+        <h1 className="font-display font-bold text-2xl text-gray-900 mb-2">
+          Restaurant not found
+        </h1>
+        <p className="text-gray-600">This restaurant is not linked to your partner account.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <Link href="/partner">
+            <button className="flex items-center text-sm text-gray-600 hover:text-gray-900 mb-2">
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              All restaurants
+            </button>
+          </Link>
+          <h1 className="font-display font-bold text-3xl text-gray-900">{restaurant.name}</h1>
+        </div>
+        <div className="flex items-center space-x-3">
+          <Link href={`/partner/restaurants/${id}/kitchen`}>
+            <Button>
+              <ChefHat className="h-4 w-4 mr-2" />
+              Kitchen
+            </Button>
+          </Link>
+          <Button
+            variant="outline"
+            onClick={() => updateRestaurantMutation.mutate({ isOpen: !restaurant.isOpen })}
+            disabled={updateRestaurantMutation.isPending}
+            className={restaurant.isOpen ? 'text-green-700 border-green-300' : 'text-red-700 border-red-300'}
+          >
+            {restaurant.isOpen ? 'Open — click to close' : 'Closed — click to open'}
+          </Button>
+        </div>
+      </div>
+
+      {/* Restaurant details */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <h2 className="font-display font-semibold text-xl text-gray-900 mb-6">
+          Restaurant Details
+        </h2>
+        <RestaurantDetails
+          restaurant={restaurant}
+          isSaving={updateRestaurantMutation.isPending}
+          onSave={(data) => updateRestaurantMutation.mutate(data)}
+        />
+      </div>
+
+      {/* Menu */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="font-display font-semibold text-xl text-gray-900">
+            Menu ({menuItems.filter(item => !item.isArchived).length} items)
+          </h2>
+          <Button size="sm" onClick={() => { setEditingItem(null); setIsAddingItem(true); }}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Item
+          </Button>
+        </div>
+
+        {(isAddingItem || editingItem) && (
+          <div className="mb-6 p-4 border border-primary-200 rounded-lg bg-primary-50">
+            <FoodItemEditor
+              key={editingItem?.id || 'new'}
+              item={editingItem}
+              isSaving={saveItemMutation.isPending}
+              onCancel={() => { setEditingItem(null); setIsAddingItem(false); }}
+              onSave={(data) => saveItemMutation.mutate({ itemId: editingItem?.id, data })}
+            />
+          </div>
+        )}
+
+        <div className="space-y-3">
+          {menuItems.map((item) => (
+            <div
+              key={item.id}
+              className={`flex items-center space-x-4 p-4 border border-gray-200 rounded-lg ${item.isArchived ? 'opacity-50' : ''}`}
+            >
+              <img src={item.image} alt={item.name} className="w-16 h-16 object-cover rounded-lg flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center space-x-2">
+                  <div className={item.isVeg ? 'veg-indicator' : 'non-veg-indicator'}></div>
+                  <h3 className="font-semibold text-gray-900">{item.name}</h3>
+                  {item.isArchived && (
+                    <span className="text-xs bg-gray-200 text-gray-700 px-2 py-0.5 rounded-full">Archived</span>
+                  )}
+                </div>
+                <p className="text-sm text-gray-500">{item.category} · ₹{item.price}</p>
+              </div>
+              <div className="flex items-center space-x-2">
+                {!item.isArchived && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => saveItemMutation.mutate({ itemId: item.id, data: { isAvailable: !item.isAvailable } })}
+                    disabled={saveItemMutation.isPending}
+                    className={item.isAvailable ? 'text-green-700 border-green-300' : 'text-red-700 border-red-300'}
+                  >
+                    {item.isAvailable ? 'Available' : 'Out of Stock'}
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => { setIsAddingItem(false); setEditingItem(item); }}
+                  title="Edit item"
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => saveItemMutation.mutate({ itemId: item.id, data: { isArchived: !item.isArchived } })}
+                  disabled={saveItemMutation.isPending}
+                  title={item.isArchived ? 'Restore item' : 'Archive item'}
+                >
+                  {item.isArchived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface RestaurantDetailsProps {
+  restaurant: Restaurant;
+  isSaving: boolean;
+  onSave: (data: Partial<Restaurant>) => void;
+}
+
+function toDetailsForm(restaurant: Restaurant): RestaurantDetailsForm {
+  return {
+    ...restaurant,
+    pincode: restaurant.pincode ?? '',
+    freeDeliveryThreshold: restaurant.freeDeliveryThreshold === null ? '' : String(restaurant.freeDeliveryThreshold),
+  };
+}
+
+function RestaurantDetails({ restaurant, isSaving, onSave }: RestaurantDetailsProps) {
+  const form = useForm<RestaurantDetailsForm>({
+    resolver: zodResolver(restaurantDetailsSchema),
+    defaultValues: toDetailsForm(restaurant),
+  });
+
+  // Keep the form in sync after saves and refetches
+  useEffect(() => {
+    form.reset(toDetailsForm(restaurant));
+  }, [restaurant]);
+
+  const save = ({ freeDeliveryThreshold, ...details }: RestaurantDetailsForm) => {
+    onSave({ ...details, freeDeliveryThreshold: freeDeliveryThreshold === '' ? null : Number(freeDeliveryThreshold) });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(save)} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <TextField form={form} name="name" label="Name" />
+        <TextField form={form} name="cuisine" label="Cuisine" />
+        <div className="md:col-span-2">
+          <TextField form={form} name="description" label="Description" />
+        </div>
+        <div className="md:col-span-2">
+          <TextField form={form} name="image" label="Image URL" />
+        </div>
+        <TextField form={form} name="minDeliveryMinutes" label="Min Delivery Time (mins)" type="number" />
+        <TextField form={form} name="maxDeliveryMinutes" label="Max Delivery Time (mins)" type="number" />
+        <TextField form={form} name="pincode" label="Kitchen Pincode" placeholder="110001" />
+        <TextField form={form} name="deliveryFee" label="Delivery Fee (₹)" type="number" />
+        <TextField form={form} name="freeDeliveryThreshold" label="Free Delivery From (₹)" type="number" placeholder="Always charge delivery" />
+        <TextField form={form} name="packagingCharge" label="Packaging Charge per Order (₹)" type="number" />
+        <TextField form={form} name="minOrder" label="Minimum Order (₹)" type="number" />
+        <CheckboxField form={form} name="isVeg" label="Pure veg restaurant" />
+        <div className="md:col-span-2">
+          <Button type="submit" disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save Details'}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+interface FoodItemEditorProps {
+  item: FoodItem | null;
+  isSaving: boolean;
+  onSave: (data: FoodItemForm) => void;
+  onCancel: () => void;
+}
+
+function FoodItemEditor({ item, isSaving, onSave, onCancel }: FoodItemEditorProps) {
+  const form = useForm<FoodItemForm>({
+    resolver: zodResolver(foodItemFormSchema),
+    defaultValues: item || {
+      name: '',
+      description: '',
+      price: 0,
+      image: '',
+      category: '',
+      minPrepMinutes: 15,
+      maxPrepMinutes: 20,
+      isVeg: true,
+      isSpicy: false,
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSave)} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <h3 className="md:col-span-2 font-semibold text-gray-900">
+          {item ? `Edit ${item.name}` : 'New Menu Item'}
+        </h3>
+        <TextField form={form} name="name" label="Name" />
+        <TextField form={form} name="category" label="Category" placeholder="Main Course" />
+        <div className="md:col-span-2">
+          <TextField form={form} name="description" label="Description" />
+        </div>
+        <TextField form={form} name="price" label="Price (₹)" type="number" />
+        <TextField form={form} name="minPrepMinutes" label="Min Prep Time (mins)" type="number" />
+        <TextField form={form} name="maxPrepMinutes" label="Max Prep Time (mins)" type="number" />
+        <div className="md:col-span-2">
+          <TextField form={form} name="image" label="Image URL" />
+        </div>
+        <CheckboxField form={form} name="isVeg" label="Vegetarian" />
+        <CheckboxField form={form} name="isSpicy" label="Spicy" />
+        <div className="md:col-span-2 flex space-x-2">
+          <Button type="submit" disabled={isSaving}>
+            {isSaving ? 'Saving...' : item ? 'Save Item' : 'Add Item'}
+          </Button>
+          <Button type="button" variant="ghost" onClick={onCancel}>
+            Cancel
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
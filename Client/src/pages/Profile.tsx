@@ -0,0 +1,513 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { MapPin, Pencil, Plus, Trash2 } from 'lucide-react';
+import { User, Address, addressSchema, otpRequestSchema, otpVerifySchema } from '@shared/schema';
+import { formatAddress } from '@shared/address';
+import { Button } from '@/components/ui/button';
+import { Form } from '@/components/ui/form';
+import { TextField, CheckboxField } from '@/components/FormFields';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+
+const profileFormSchema = z.object({
+  username: z.string().min(2, 'Name must be at least 2 characters'),
+});
+
+type ProfileForm = z.infer<typeof profileFormSchema>;
+
+type PhoneForm = z.infer<typeof otpRequestSchema>;
+
+const codeSchema = otpVerifySchema.pick({ code: true });
+
+type CodeForm = z.infer<typeof codeSchema>;
+
+const passwordFormSchema = z.object({
+  currentPassword: z.string().min(1, 'Please enter your current password'),
+  newPassword: z.string().min(6, 'Password must be at least 6 characters'),
+  confirmPassword: z.string(),
+}).refine(data => data.newPassword === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ['confirmPassword'],
+});
+
+type PasswordForm = z.infer<typeof passwordFormSchema>;
+
+// isDefault is always set by the form, so drop the schema default to keep input and output types equal
+const addressFormSchema = addressSchema
+  .pick({ label: true, address: true, landmark: true, pincode: true })
+  .extend({ isDefault: z.boolean() });
+
+type AddressForm = z.infer<typeof addressFormSchema>;
+
+// Sends a JSON request and throws the server's message on failure
+async function sendRequest(method: string, url: string, data?: unknown) {
+  const response = await apiRequest(method, url, data);
+  const result = await response.json();
+  if (!response.ok) throw new Error(result.message || 'Something went wrong');
+  return result;
+}
+
+export function Profile() {
+  const { isAuthenticated } = useAuth();
+
+  if (!isAuthenticated) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12 text-center">
+        <div className="text-6xl mb-6">🔐</div>
+        <h1 className="font-display font-bold text-3xl text-gray-900 mb-4">
+          Login Required
+        </h1>
+        <p className="text-gray-600 mb-8">
+          Please login to manage your profile
+        </p>
+        <Link href="/login">
+          <Button size="lg">Login to Continue</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+      <h1 className="font-display font-bold text-3xl text-gray-900">My Profile</h1>
+      <ProfileDetails />
+      <PhoneNumber />
+      <ChangePassword />
+      <AddressBook />
+    </div>
+  );
+}
+
+function ProfileDetails() {
+  const { updateUser } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: profile } = useQuery<User>({
+    queryKey: ['/api/me'],
+  });
+
+  const form = useForm<ProfileForm>({
+    resolver: zodResolver(profileFormSchema),
+    values: {
+      username: profile?.username || '',
+    },
+  });
+
+  const resendVerificationMutation = useMutation({
+    mutationFn: () => sendRequest('POST', '/api/auth/resend-verification'),
+    onSuccess: () => {
+      toast({
+        title: 'Verification email sent',
+        description: `Check ${profile?.email} for the link`,
+        variant: 'success',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const updateProfileMutation = useMutation({
+    mutationFn: (data: ProfileForm) =>
+      sendRequest('PATCH', '/api/me', { username: data.username }),
+    onSuccess: (user: User) => {
+      updateUser(user);
+      queryClient.setQueryData(['/api/me'], user);
+      toast({
+        title: 'Profile updated',
+        description: 'Your details have been saved',
+        variant: 'success',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <h2 className="font-display font-semibold text-xl text-gray-900 mb-2">Account Details</h2>
+      <div className="flex flex-wrap items-center gap-2 mb-6">
+        <p className="text-sm text-gray-500">{profile?.email || profile?.phone}</p>
+        {profile?.email && (profile.emailVerified ? (
+          <span className="text-xs font-medium text-green-700 bg-green-50 rounded-full px-2 py-0.5">
+            Verified
+          </span>
+        ) : (
+          <>
+            <span className="text-xs font-medium text-yellow-700 bg-yellow-50 rounded-full px-2 py-0.5">
+              Not verified
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => resendVerificationMutation.mutate()}
+              disabled={resendVerificationMutation.isPending}
+            >
+              {resendVerificationMutation.isPending ? 'Sending...' : 'Resend verification email'}
+            </Button>
+          </>
+        ))}
+      </div>
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit((data) => updateProfileMutation.mutate(data))} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <TextField form={form} name="username" label="Full Name" />
+          <div className="md:col-span-2">
+            <Button type="submit" disabled={updateProfileMutation.isPending}>
+              {updateProfileMutation.isPending ? 'Saving...' : 'Save Details'}
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </div>
+  );
+}
+
+// A number is saved only once the code texted to it is entered, since it can be used to log in
+function PhoneNumber() {
+  const { updateUser } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [pendingPhone, setPendingPhone] = useState<string | null>(null);
+
+  const { data: profile } = useQuery<User>({
+    queryKey: ['/api/me'],
+  });
+
+  const phoneForm = useForm<PhoneForm>({
+    resolver: zodResolver(otpRequestSchema),
+    defaultValues: {
+      phone: '',
+    },
+  });
+
+  const codeForm = useForm<CodeForm>({
+    resolver: zodResolver(codeSchema),
+    defaultValues: {
+      code: '',
+    },
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: 'Error',
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const requestCodeMutation = useMutation({
+    mutationFn: (data: PhoneForm) => sendRequest('POST', '/api/auth/otp/request', data),
+    onSuccess: ({ phone }) => {
+      setPendingPhone(phone);
+      toast({
+        title: 'Code sent',
+        description: `We texted a 6-digit code to ${phone}`,
+        variant: 'success',
+      });
+    },
+    onError,
+  });
+
+  const verifyPhoneMutation = useMutation({
+    mutationFn: (data: CodeForm) => sendRequest('POST', '/api/me/phone', { phone: pendingPhone, code: data.code }),
+    onSuccess: (user: User) => {
+      updateUser(user);
+      queryClient.setQueryData(['/api/me'], user);
+      setPendingPhone(null);
+      phoneForm.reset();
+      codeForm.reset();
+      toast({
+        title: 'Phone number verified',
+        description: 'You can now login with a code sent to it',
+        variant: 'success',
+      });
+    },
+    onError: (error: Error) => {
+      codeForm.reset();
+      onError(error);
+    },
+  });
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <h2 className="font-display font-semibold text-xl text-gray-900 mb-2">Phone Number</h2>
+      <p className="text-sm text-gray-500 mb-6">
+        {profile?.phone ? `Verified: ${profile.phone}` : 'Add a number to login with a texted code'}
+      </p>
+      {pendingPhone ? (
+        <Form {...codeForm}>
+          <form onSubmit={codeForm.handleSubmit((data) => verifyPhoneMutation.mutate(data))} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <TextField form={codeForm} name="code" label={`Code sent to ${pendingPhone}`} placeholder="123456" />
+            <div className="md:col-span-2 flex gap-2">
+              <Button type="submit" disabled={verifyPhoneMutation.isPending}>
+                {verifyPhoneMutation.isPending ? 'Verifying...' : 'Verify'}
+              </Button>
+              <Button type="button" variant="ghost" onClick={() => { setPendingPhone(null); codeForm.reset(); }}>
+                Use a different number
+              </Button>
+            </div>
+          </form>
+        </Form>
+      ) : (
+        <Form {...phoneForm}>
+          <form onSubmit={phoneForm.handleSubmit((data) => requestCodeMutation.mutate(data))} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <TextField form={phoneForm} name="phone" label={profile?.phone ? 'New Phone Number' : 'Phone Number'} type="tel" placeholder="+91 98765 43210" />
+            <div className="md:col-span-2">
+              <Button type="submit" disabled={requestCodeMutation.isPending}>
+                {requestCodeMutation.isPending ? 'Sending...' : 'Send Code'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      )}
+    </div>
+  );
+}
+
+function ChangePassword() {
+  const { login } = useAuth();
+  const { toast } = useToast();
+
+  const form = useForm<PasswordForm>({
+    resolver: zodResolver(passwordFormSchema),
+    defaultValues: {
+      currentPassword: '',
+      newPassword: '',
+      confirmPassword: '',
+    },
+  });
+
+  const changePasswordMutation = useMutation({
+    mutationFn: (data: PasswordForm) =>
+      sendRequest('PATCH', '/api/me', { currentPassword: data.currentPassword, newPassword: data.newPassword }),
+    onSuccess: ({ token, refreshToken, user }) => {
+      // Changing the password signed out every session, this one included
+      login(token, refreshToken, user);
+      form.reset();
+      toast({
+        title: 'Password changed',
+        description: 'Use your new password next time you login',
+        variant: 'success',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <h2 className="font-display font-semibold text-xl text-gray-900 mb-6">Change Password</h2>
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit((data) => changePasswordMutation.mutate(data))} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="md:col-span-2">
+            <TextField form={form} name="currentPassword" label="Current Password" type="password" />
+          </div>
+          <TextField form={form} name="newPassword" label="New Password" type="password" />
+          <TextField form={form} name="confirmPassword" label="Confirm New Password" type="password" />
+          <div className="md:col-span-2">
+            <Button type="submit" disabled={changePasswordMutation.isPending}>
+              {changePasswordMutation.isPending ? 'Saving...' : 'Change Password'}
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </div>
+  );
+}
+
+function AddressBook() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editingAddress, setEditingAddress] = useState<Address | null>(null);
+  const [isAddingAddress, setIsAddingAddress] = useState(false);
+
+  const { data: addresses = [], isLoading } = useQuery<Address[]>({
+    queryKey: ['/api/me/addresses'],
+  });
+
+  const onSuccess = (message: string) => () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/me/addresses'] });
+    setEditingAddress(null);
+    setIsAddingAddress(false);
+    toast({
+      title: message,
+      variant: 'success',
+    });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: 'Error',
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const saveAddressMutation = useMutation({
+    mutationFn: ({ id, data }: { id?: string; data: Partial<AddressForm> }) =>
+      id ? sendRequest('PATCH', `/api/me/addresses/${id}`, data) : sendRequest('POST', '/api/me/addresses', data),
+    onSuccess: onSuccess('Address saved'),
+    onError,
+  });
+
+  const deleteAddressMutation = useMutation({
+    mutationFn: (id: string) => sendRequest('DELETE', `/api/me/addresses/${id}`),
+    onSuccess: onSuccess('Address deleted'),
+    onError,
+  });
+
+  const saveAddress = (data: AddressForm) => {
+    saveAddressMutation.mutate({
+      id: editingAddress?.id,
+      data: { ...data, landmark: data.landmark || undefined },
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="font-display font-semibold text-xl text-gray-900">Saved Addresses</h2>
+        {!isAddingAddress && !editingAddress && (
+          <Button size="sm" onClick={() => setIsAddingAddress(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Address
+          </Button>
+        )}
+      </div>
+
+      {(isAddingAddress || editingAddress) && (
+        <div className="border border-gray-200 rounded-lg p-4 mb-6">
+          <AddressEditor
+            address={editingAddress}
+            isSaving={saveAddressMutation.isPending}
+            onSave={saveAddress}
+            onCancel={() => { setEditingAddress(null); setIsAddingAddress(false); }}
+          />
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="h-24 bg-gray-200 rounded-lg animate-pulse"></div>
+      ) : addresses.length === 0 ? (
+        <p className="text-gray-500 text-center py-6">
+          No saved addresses yet. Add your home or work address for faster checkout.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {addresses.map((address) => (
+            <div key={address.id} className="flex items-start justify-between border border-gray-200 rounded-lg p-4">
+              <div className="flex items-start space-x-3">
+                <MapPin className="h-4 w-4 text-gray-400 mt-1 flex-shrink-0" />
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium text-gray-900">{address.label}</span>
+                    {address.isDefault && (
+                      <span className="text-xs font-medium text-primary-700 bg-primary-50 rounded-full px-2 py-0.5">
+                        Default
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-600">{formatAddress(address)}</p>
+                </div>
+              </div>
+              <div className="flex items-center space-x-1 flex-shrink-0">
+                {!address.isDefault && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => saveAddressMutation.mutate({ id: address.id, data: { isDefault: true } })}
+                    disabled={saveAddressMutation.isPending}
+                  >
+                    Make default
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => { setIsAddingAddress(false); setEditingAddress(address); }}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteAddressMutation.mutate(address.id)}
+                  disabled={deleteAddressMutation.isPending}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface AddressEditorProps {
+  address: Address | null;
+  isSaving: boolean;
+  onSave: (data: AddressForm) => void;
+  onCancel: () => void;
+}
+
+function AddressEditor({ address, isSaving, onSave, onCancel }: AddressEditorProps) {
+  const form = useForm<AddressForm>({
+    resolver: zodResolver(addressFormSchema),
+    defaultValues: {
+      label: address?.label || 'Home',
+      address: address?.address || '',
+      landmark: address?.landmark || '',
+      pincode: address?.pincode || '',
+      isDefault: address?.isDefault || false,
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSave)} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <h3 className="md:col-span-2 font-semibold text-gray-900">
+          {address ? `Edit ${address.label}` : 'New Address'}
+        </h3>
+        <TextField form={form} name="label" label="Label" placeholder="Home, Work..." />
+        <TextField form={form} name="pincode" label="Pincode" placeholder="560001" />
+        <div className="md:col-span-2">
+          <TextField form={form} name="address" label="Address" placeholder="Flat, building, street, area" />
+        </div>
+        <div className="md:col-span-2">
+          <TextField form={form} name="landmark" label="Landmark (Optional)" />
+        </div>
+        <CheckboxField form={form} name="isDefault" label="Use as my default address" />
+        <div className="md:col-span-2 flex space-x-2">
+          <Button type="submit" disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save Address'}
+          </Button>
+          <Button type="button" variant="ghost" onClick={onCancel}>
+            Cancel
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
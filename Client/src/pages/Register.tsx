@@ -2,16 +2,16 @@ import { useState } from 'react';
 import { Link, useLocation } from 'wouter';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { insertUserSchema } from '@shared/schema';
+import { registerUserSchema } from '@shared/schema';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from '@/components/ui/form';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
-import { Eye, EyeOff, Mail, Lock, User, Phone, MapPin } from 'lucide-react';
+import { Eye, EyeOff, Mail, Lock, User, MapPin } from 'lucide-react';
 
-type RegisterForm = typeof insertUserSchema._type;
+type RegisterForm = typeof registerUserSchema._type;
 
 export function Register() {
   const [, setLocation] = useLocation();
@@ -21,12 +21,11 @@ export function Register() {
   const { toast } = useToast();
 
   const form = useForm<RegisterForm>({
-    resolver: zodResolver(insertUserSchema),
+    resolver: zodResolver(registerUserSchema),
     defaultValues: {
       username: '',
       email: '',
       password: '',
-      phone: '',
       address: '',
     },
   });
@@ -38,7 +37,7 @@ export function Register() {
       const result = await response.json();
 
       if (response.ok) {
-        login(result.token, result.user);
+        login(result.token, result.refreshToken, result.user);
         toast({
           title: 'Welcome to FastFeast! 🎉',
           description: 'Your account has been created successfully',
@@ -161,27 +160,6 @@ export function Register() {
                 )}
               />
 
-              <FormField
-                control={form.control}
-                name="phone"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel className="text-gray-700 font-medium">Phone Number (Optional)</FormLabel>
-                    <FormControl>
-                      <div className="relative">
-                        <Phone className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
-                        <Input
-                          {...field}
-                          placeholder="Enter your phone number"
-                          className="pl-10 h-11 border-gray-300 focus:border-primary-500 focus:ring-primary-500"
-                        />
-                      </div>
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
               <FormField
                 control={form.control}
                 name="address"
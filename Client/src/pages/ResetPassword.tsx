@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { Link, useLocation, useSearch } from 'wouter';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from '@/components/ui/form';
+import { AuthLayout } from '@/components/AuthLayout';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+
+const resetPasswordSchema = z.object({
+  password: z.string().min(6, 'Password must be at least 6 characters'),
+  confirmPassword: z.string(),
+}).refine(data => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ['confirmPassword'],
+});
+
+type ResetPasswordForm = z.infer<typeof resetPasswordSchema>;
+
+export function ResetPassword() {
+  const [, setLocation] = useLocation();
+  const token = new URLSearchParams(useSearch()).get('token');
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const form = useForm<ResetPasswordForm>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: {
+      password: '',
+      confirmPassword: '',
+    },
+  });
+
+  const onSubmit = async (data: ResetPasswordForm) => {
+    setIsLoading(true);
+    try {
+      const response = await apiRequest('POST', '/api/auth/reset-password', { token, password: data.password });
+      const result = await response.json();
+
+      if (response.ok) {
+        toast({
+          title: 'Password reset',
+          description: 'You can now sign in with your new password',
+          variant: 'success',
+        });
+        setLocation('/login');
+      } else {
+        toast({
+          title: 'Reset Failed',
+          description: result.message || 'Something went wrong',
+          variant: 'destructive',
+        });
+      }
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Something went wrong. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!token) {
+    return (
+      <AuthLayout title="Invalid reset link" subtitle="This link is missing its reset token">
+        <Link href="/forgot-password">
+          <Button className="w-full h-12">Request a New Link</Button>
+        </Link>
+      </AuthLayout>
+    );
+  }
+
+  const passwordField = (name: keyof ResetPasswordForm, label: string, placeholder: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel className="text-gray-700 font-medium">{label}</FormLabel>
+          <FormControl>
+            <div className="relative">
+              <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+              <Input
+                {...field}
+                type="password"
+                placeholder={placeholder}
+                className="pl-10 h-12 border-gray-300 focus:border-primary-500 focus:ring-primary-500"
+              />
+            </div>
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <AuthLayout title="Choose a new password" subtitle="You'll be signed out of your other devices">
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          {passwordField('password', 'New Password', 'Enter a new password')}
+          {passwordField('confirmPassword', 'Confirm Password', 'Enter it again')}
+
+          <Button
+            type="submit"
+            disabled={isLoading}
+            className="w-full h-12 bg-gradient-saffron hover:from-yellow-500 hover:to-orange-500 text-white font-semibold text-lg rounded-xl shadow-lg"
+          >
+            {isLoading ? 'Saving...' : 'Reset Password'}
+          </Button>
+        </form>
+      </Form>
+    </AuthLayout>
+  );
+}
@@ -2,20 +2,21 @@ import { useState } from 'react';
 import { useParams } from 'wouter';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Star, Clock, Truck, Plus, Minus, ShoppingCart } from 'lucide-react';
-import { Restaurant, FoodItem } from '@shared/schema';
+import { FoodItem, FoodOptionGroup, CartItem, OptionSelection, MAX_CART_ITEM_QUANTITY } from '@shared/schema';
+import { ScheduledRestaurant, openingStatusLabel } from '@shared/openingHours';
+import { formatMinutesRange } from '@shared/deliverySchedule';
 import { Button } from '@/components/ui/button';
-import { useAuth } from '@/contexts/AuthContext';
+import { Dialog } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, GUEST_CART_KEY } from '@/lib/queryClient';
 
 export function RestaurantDetail() {
   const { id } = useParams<{ id: string }>();
-  const { isAuthenticated } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [selectedCategory, setSelectedCategory] = useState('');
 
-  const { data: restaurant, isLoading: restaurantLoading } = useQuery<Restaurant>({
+  const { data: restaurant, isLoading: restaurantLoading } = useQuery<ScheduledRestaurant>({
     queryKey: [`/api/restaurants/${id}`],
   });
 
@@ -24,12 +25,17 @@ export function RestaurantDetail() {
   });
 
   const addToCartMutation = useMutation({
-    mutationFn: async ({ foodItemId, quantity }: { foodItemId: string; quantity: number }) => {
-      const response = await apiRequest('POST', '/api/cart', { foodItemId, quantity });
-      if (!response.ok) throw new Error('Failed to add to cart');
-      return response.json();
+    mutationFn: async ({ foodItemId, quantity, options }: { foodItemId: string; quantity: number; options: OptionSelection[] }) => {
+      const response = await apiRequest('POST', '/api/cart', { foodItemId, quantity, options });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.message || 'Failed to add to cart');
+      return result;
     },
-    onSuccess: () => {
+    onSuccess: (cartItem: CartItem) => {
+      // A guest's first item starts their cart
+      if (cartItem.guestCartId) {
+        localStorage.setItem(GUEST_CART_KEY, cartItem.guestCartId);
+      }
       queryClient.invalidateQueries({ queryKey: ['/api/cart'] });
       toast({
         title: 'Added to cart!',
@@ -37,10 +43,10 @@ export function RestaurantDetail() {
         variant: 'success',
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: 'Error',
-        description: 'Please login to add items to cart',
+        description: error.message,
         variant: 'destructive',
       });
     },
@@ -108,7 +114,7 @@ export function RestaurantDetail() {
                   </div>
                   <div className="flex items-center space-x-1">
                     <Clock className="h-4 w-4" />
-                    <span>{restaurant.deliveryTime}</span>
+                    <span>{formatMinutesRange(restaurant.minDeliveryMinutes, restaurant.maxDeliveryMinutes)}</span>
                   </div>
                   <div className="flex items-center space-x-1">
                     <Truck className="h-4 w-4" />
@@ -122,7 +128,7 @@ export function RestaurantDetail() {
                     ? 'bg-green-100 text-green-800' 
                     : 'bg-red-100 text-red-800'
                 }`}>
-                  {restaurant.isOpen ? 'Open Now' : 'Closed'}
+                  {openingStatusLabel(restaurant, 'Open Now')}
                 </div>
                 <div className={`px-4 py-2 rounded-full text-sm font-medium ${
                   restaurant.isVeg 
@@ -209,17 +215,8 @@ export function RestaurantDetail() {
                   <FoodItemCard
                     key={item.id}
                     item={item}
-                    onAddToCart={(quantity) => {
-                      if (!isAuthenticated) {
-                        toast({
-                          title: 'Login Required',
-                          description: 'Please login to add items to cart',
-                          variant: 'destructive',
-                        });
-                        return;
-                      }
-                      addToCartMutation.mutate({ foodItemId: item.id, quantity });
-                    }}
+                    hasServingHours={item.availableHours.length > 0 || restaurant.categoryHours.some(entry => entry.category === item.category)}
+                    onAddToCart={(quantity, options) => addToCartMutation.mutate({ foodItemId: item.id, quantity, options })}
                     isAddingToCart={addToCartMutation.isPending}
                   />
                 ))}
@@ -234,12 +231,15 @@ export function RestaurantDetail() {
 
 interface FoodItemCardProps {
   item: FoodItem;
-  onAddToCart: (quantity: number) => void;
+  hasServingHours: boolean; // unavailable items with set hours are out of hours rather than out of stock
+  onAddToCart: (quantity: number, options: OptionSelection[]) => void;
   isAddingToCart: boolean;
 }
 
-function FoodItemCard({ item, onAddToCart, isAddingToCart }: FoodItemCardProps) {
+function FoodItemCard({ item, hasServingHours, onAddToCart, isAddingToCart }: FoodItemCardProps) {
   const [quantity, setQuantity] = useState(1);
+  const [isCustomizing, setIsCustomizing] = useState(false);
+  const isCustomizable = item.optionGroups.length > 0;
 
   return (
     <div className="flex items-start space-x-4 p-4 border border-gray-200 rounded-lg hover:border-primary-300 transition-colors">
@@ -265,13 +265,16 @@ function FoodItemCard({ item, onAddToCart, isAddingToCart }: FoodItemCardProps)
               {item.description}
             </p>
             <div className="flex items-center space-x-4 text-sm text-gray-500 mb-3">
-              <span>⏱️ {item.preparationTime}</span>
+              <span>⏱️ {formatMinutesRange(item.minPrepMinutes, item.maxPrepMinutes)}</span>
               {item.ingredients && (
                 <span>🥘 {item.ingredients.slice(0, 3).join(', ')}</span>
               )}
             </div>
             <div className="flex items-center justify-between">
-              <span className="font-bold text-xl text-primary-600">₹{item.price}</span>
+              <div>
+                <span className="font-bold text-xl text-primary-600">₹{item.price}</span>
+                {isCustomizable && <p className="text-xs text-gray-500">Customisable</p>}
+              </div>
               {item.isAvailable ? (
                 <div className="flex items-center space-x-3">
                   <div className="flex items-center space-x-2">
@@ -283,14 +286,15 @@ function FoodItemCard({ item, onAddToCart, isAddingToCart }: FoodItemCardProps)
                     </button>
                     <span className="w-8 text-center font-medium">{quantity}</span>
                     <button
-                      onClick={() => setQuantity(quantity + 1)}
-                      className="w-8 h-8 rounded-full border border-gray-300 flex items-center justify-center hover:bg-gray-100"
+                      onClick={() => setQuantity(Math.min(MAX_CART_ITEM_QUANTITY, quantity + 1))}
+                      disabled={quantity >= MAX_CART_ITEM_QUANTITY}
+                      className="w-8 h-8 rounded-full border border-gray-300 flex items-center justify-center hover:bg-gray-100 disabled:opacity-50"
                     >
                       <Plus className="h-4 w-4" />
                     </button>
                   </div>
                   <Button
-                    onClick={() => onAddToCart(quantity)}
+                    onClick={() => isCustomizable ? setIsCustomizing(true) : onAddToCart(quantity, [])}
                     disabled={isAddingToCart}
                     className="px-6"
                   >
@@ -305,12 +309,118 @@ function FoodItemCard({ item, onAddToCart, isAddingToCart }: FoodItemCardProps)
                   </Button>
                 </div>
               ) : (
-                <span className="text-red-500 font-medium">Out of Stock</span>
+                <span className="text-red-500 font-medium">{hasServingHours ? 'Not available right now' : 'Out of Stock'}</span>
               )}
             </div>
           </div>
         </div>
       </div>
+
+      {isCustomizable && (
+        <CustomizeDialog
+          item={item}
+          quantity={quantity}
+          open={isCustomizing}
+          onClose={() => setIsCustomizing(false)}
+          onConfirm={(options) => {
+            onAddToCart(quantity, options);
+            setIsCustomizing(false);
+          }}
+          isAddingToCart={isAddingToCart}
+        />
+      )}
     </div>
   );
+}
+
+interface CustomizeDialogProps {
+  item: FoodItem;
+  quantity: number;
+  open: boolean;
+  onClose: () => void;
+  onConfirm: (options: OptionSelection[]) => void;
+  isAddingToCart: boolean;
+}
+
+function CustomizeDialog({ item, quantity, open, onClose, onConfirm, isAddingToCart }: CustomizeDialogProps) {
+  const [selections, setSelections] = useState<OptionSelection[]>([]);
+
+  const pickedIn = (group: FoodOptionGroup) => selections.filter(selection => selection.groupId === group.id);
+  const isPicked = (group: FoodOptionGroup, optionId: string) =>
+    selections.some(selection => selection.groupId === group.id && selection.optionId === optionId);
+
+  const toggleOption = (group: FoodOptionGroup, optionId: string) => {
+    if (group.maxSelections === 1) {
+      // Single-choice groups behave like radio buttons
+      setSelections([...selections.filter(selection => selection.groupId !== group.id), { groupId: group.id, optionId }]);
+    } else if (isPicked(group, optionId)) {
+      setSelections(selections.filter(selection => !(selection.groupId === group.id && selection.optionId === optionId)));
+    } else if (pickedIn(group).length < group.maxSelections) {
+      setSelections([...selections, { groupId: group.id, optionId }]);
+    }
+  };
+
+  const isComplete = item.optionGroups.every(group => pickedIn(group).length >= group.minSelections);
+  const unitTotal = item.optionGroups.reduce(
+    (total, group) => total + group.options
+      .filter(option => isPicked(group, option.id))
+      .reduce((sum, option) => sum + option.priceDelta, 0),
+    item.price
+  );
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      title={`Customise ${item.name}`}
+      description={`₹${item.price} before options`}
+      footer={
+        <Button onClick={() => onConfirm(selections)} disabled={!isComplete || isAddingToCart} className="w-full">
+          Add {quantity} to Cart · ₹{unitTotal * quantity}
+        </Button>
+      }
+    >
+      <div className="space-y-6">
+        {item.optionGroups.map((group) => (
+          <div key={group.id}>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="font-medium text-gray-900">{group.name}</h3>
+              <span className="text-xs text-gray-500">
+                {group.minSelections > 0 ? 'Required' : 'Optional'}
+                {group.maxSelections > 1 && ` · up to ${group.maxSelections}`}
+              </span>
+            </div>
+            <div className="space-y-2">
+              {group.options.map((option) => {
+                const picked = isPicked(group, option.id);
+                const atLimit = !picked && group.maxSelections > 1 && pickedIn(group).length >= group.maxSelections;
+                return (
+                  <label
+                    key={option.id}
+                    className={`flex items-center justify-between p-3 border rounded-lg cursor-pointer ${picked ? 'border-primary-500 bg-primary-50' : 'border-gray-200'} ${atLimit ? 'opacity-50 cursor-not-allowed' : ''}`}
+                  >
+                    <span className="flex items-center space-x-3">
+                      <input
+                        type={group.maxSelections === 1 ? 'radio' : 'checkbox'}
+                        name={`${item.id}-${group.id}`}
+                        checked={picked}
+                        disabled={atLimit}
+                        onChange={() => toggleOption(group, option.id)}
+                      />
+                      <span className="text-sm text-gray-900">{option.name}</span>
+                    </span>
+                    {option.priceDelta !== 0 && (
+                      <span className="text-sm text-gray-600">
+                        {option.priceDelta > 0 ? '+' : '−'}₹{Math.abs(option.priceDelta)}
+                      </span>
+                    )}
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </Dialog>
+  );
 }
\ No newline at end of file
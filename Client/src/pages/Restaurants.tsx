@@ -2,7 +2,8 @@ import { useState } from 'react';
 import { Link } from 'wouter';
 import { useQuery } from '@tanstack/react-query';
 import { Star, Clock, Truck, Filter, Search } from 'lucide-react';
-import { Restaurant } from '@shared/schema';
+import { ScheduledRestaurant, openingStatusLabel } from '@shared/openingHours';
+import { formatMinutesRange } from '@shared/deliverySchedule';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 
@@ -11,7 +12,7 @@ export function Restaurants() {
   const [selectedCuisine, setSelectedCuisine] = useState('');
   const [sortBy, setSortBy] = useState('rating');
 
-  const { data: restaurants = [], isLoading } = useQuery<Restaurant[]>({
+  const { data: restaurants = [], isLoading } = useQuery<ScheduledRestaurant[]>({
     queryKey: ['/api/restaurants'],
   });
 
@@ -29,7 +30,7 @@ export function Restaurants() {
         case 'rating':
           return b.rating - a.rating;
         case 'delivery_time':
-          return parseInt(a.deliveryTime) - parseInt(b.deliveryTime);
+          return a.minDeliveryMinutes - b.minDeliveryMinutes;
         case 'delivery_fee':
           return a.deliveryFee - b.deliveryFee;
         default:
@@ -152,7 +153,7 @@ export function Restaurants() {
                         ? 'bg-green-100 text-green-800' 
                         : 'bg-red-100 text-red-800'
                     }`}>
-                      {restaurant.isOpen ? 'Open' : 'Closed'}
+                      {openingStatusLabel(restaurant)}
                     </span>
                   </div>
                 </div>
@@ -167,7 +168,7 @@ export function Restaurants() {
                   <div className="flex items-center justify-between text-sm text-gray-500 mb-4">
                     <div className="flex items-center space-x-1">
                       <Clock className="h-4 w-4" />
-                      <span>{restaurant.deliveryTime}</span>
+                      <span>{formatMinutesRange(restaurant.minDeliveryMinutes, restaurant.maxDeliveryMinutes)}</span>
                     </div>
                     <div className="flex items-center space-x-1">
                       <Truck className="h-4 w-4" />
@@ -0,0 +1,71 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useSearch } from 'wouter';
+import { Button } from '@/components/ui/button';
+import { AuthLayout } from '@/components/AuthLayout';
+import { useAuth } from '@/contexts/AuthContext';
+import { apiRequest } from '@/lib/queryClient';
+
+type VerificationState = 'verifying' | 'verified' | 'failed';
+
+export function VerifyEmail() {
+  const token = new URLSearchParams(useSearch()).get('token');
+  const { user, updateUser } = useAuth();
+  const [state, setState] = useState<VerificationState>(token ? 'verifying' : 'failed');
+  const [message, setMessage] = useState('This link is missing its verification token');
+  const hasSubmitted = useRef(false);
+
+  // Tokens are single-use, so only submit once even if the effect re-runs
+  useEffect(() => {
+    if (!token || hasSubmitted.current) return;
+    hasSubmitted.current = true;
+
+    (async () => {
+      try {
+        const response = await apiRequest('POST', '/api/auth/verify-email', { token });
+        const result = await response.json();
+
+        if (response.ok) {
+          setState('verified');
+          if (user?.id === result.user.id) updateUser(result.user);
+        } else {
+          setState('failed');
+          setMessage(result.message || 'Something went wrong');
+        }
+      } catch (error) {
+        setState('failed');
+        setMessage('Something went wrong. Please try again.');
+      }
+    })();
+  }, [token]);
+
+  if (state === 'verifying') {
+    return (
+      <AuthLayout title="Verifying your email..." subtitle="This will only take a moment">
+        <div className="flex justify-center">
+          <div className="animate-spin w-8 h-8 border-4 border-primary-500 border-t-transparent rounded-full"></div>
+        </div>
+      </AuthLayout>
+    );
+  }
+
+  if (state === 'verified') {
+    return (
+      <AuthLayout title="Email verified ✅" subtitle="Thanks for confirming your email address">
+        <Link href="/">
+          <Button className="w-full h-12">Start Ordering</Button>
+        </Link>
+      </AuthLayout>
+    );
+  }
+
+  return (
+    <AuthLayout title="Verification failed" subtitle={message}>
+      <p className="text-gray-600 text-center mb-6">
+        You can request a new verification email from your profile.
+      </p>
+      <Link href="/profile">
+        <Button variant="outline" className="w-full h-12">Go to Profile</Button>
+      </Link>
+    </AuthLayout>
+  );
+}
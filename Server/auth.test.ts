@@ -0,0 +1,59 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { startTestServer, type TestServer } from "./testServer";
+
+let server: TestServer;
+
+beforeAll(async () => {
+  server = await startTestServer();
+});
+
+afterAll(() => server.close());
+
+async function register(email: string) {
+  const response = await server.request("POST", "/api/register", { body: { username: email.split("@")[0], email, password: "secret123" } });
+  return response.body as { token: string; refreshToken: string };
+}
+
+const refresh = (refreshToken: string) => server.request("POST", "/api/auth/refresh", { body: { refreshToken } });
+
+describe("refresh tokens", () => {
+  it("work once, and reusing an old one signs out every session", async () => {
+    const { refreshToken } = await register("rotate@example.com");
+    const rotated = await refresh(refreshToken);
+    expect(rotated.status).toBe(200);
+
+    expect((await refresh(refreshToken)).status).toBe(401);
+    expect((await refresh(rotated.body.refreshToken)).status).toBe(401);
+  });
+
+  it("stop working after logout", async () => {
+    const { refreshToken } = await register("logout@example.com");
+    await server.request("POST", "/api/auth/logout", { body: { refreshToken } });
+    expect((await refresh(refreshToken)).status).toBe(401);
+  });
+});
+
+describe("changing the password", () => {
+  it("signs out other sessions and hands back a new token pair", async () => {
+    const stolen = await register("careful@example.com");
+    const current = (await server.request("POST", "/api/login", { body: { email: "careful@example.com", password: "secret123" } })).body;
+
+    const changed = await server.request("PATCH", "/api/me", {
+      token: current.token,
+      body: { currentPassword: "secret123", newPassword: "newsecret456" },
+    });
+    expect(changed.status).toBe(200);
+    expect(changed.body.user.email).toBe("careful@example.com");
+
+    expect((await refresh(stolen.refreshToken)).status).toBe(401);
+    expect((await refresh(current.refreshToken)).status).toBe(401);
+    expect((await refresh(changed.body.refreshToken)).status).toBe(200);
+  });
+
+  it("leaves sessions alone for other profile changes", async () => {
+    const { token, refreshToken } = await register("rename@example.com");
+    const renamed = await server.request("PATCH", "/api/me", { token, body: { username: "renamed" } });
+    expect(renamed.body.username).toBe("renamed");
+    expect((await refresh(refreshToken)).status).toBe(200);
+  });
+});
@@ -0,0 +1,239 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import bcrypt from "bcryptjs";
+import { User, UserToken } from "@shared/schema";
+import { storage } from "./storage";
+import { mailer } from "./mailer";
+import { smsSender } from "./sms";
+
+if (process.env.NODE_ENV === "production" && !process.env.JWT_SECRET) {
+  throw new Error("Missing required secret: JWT_SECRET");
+}
+const JWT_SECRET = process.env.JWT_SECRET || "dev-only-secret-key";
+
+// Access tokens are short-lived JWTs; clients renew them with a refresh token
+const ACCESS_TOKEN_TTL = "15m";
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+const OTP_TTL_MS = 10 * 60 * 1000; // 10 minutes
+const OTP_RESEND_COOLDOWN_MS = 60 * 1000; // 1 minute between codes for a number
+const OTP_WINDOW_MS = 60 * 60 * 1000;
+const OTP_MAX_PER_WINDOW = 5; // codes per number per hour
+const OTP_MAX_ATTEMPTS = 5; // wrong guesses before a code stops working
+
+// Base URL of the client, used for links in emails
+const APP_URL = process.env.APP_URL || "http://localhost:5173";
+
+export interface AccessTokenPayload {
+  id: string;
+  email?: string;
+  role: User["role"];
+}
+
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+}
+
+export function signAccessToken(user: User): string {
+  const payload: AccessTokenPayload = { id: user.id, email: user.email, role: user.role };
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL });
+}
+
+// Throws if the token is malformed, has a bad signature or has expired
+export function verifyAccessToken(token: string): AccessTokenPayload {
+  return jwt.verify(token, JWT_SECRET) as AccessTokenPayload;
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+// Refresh tokens are opaque random strings; only their hash is stored
+async function createRefreshToken(userId: string) {
+  const refreshToken = crypto.randomBytes(32).toString("hex");
+  const record = await storage.createRefreshToken({
+    userId,
+    tokenHash: hashToken(refreshToken),
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+  });
+  return { refreshToken, record };
+}
+
+export async function issueTokens(user: User): Promise<AuthTokens> {
+  const { refreshToken } = await createRefreshToken(user.id);
+  return { token: signAccessToken(user), refreshToken };
+}
+
+// Exchange a refresh token for a new token pair. A token that was already
+// rotated being presented again means it leaked, so all of the user's
+// sessions are revoked. Tokens revoked by logout or a password change just stop
+// working, so replaying one can't sign the user out of their new session.
+export async function rotateRefreshToken(refreshToken: string): Promise<AuthTokens & { user: User }> {
+  const stored = await storage.getRefreshTokenByHash(hashToken(refreshToken));
+  if (!stored) throw new Error("Invalid refresh token");
+
+  if (stored.revokedAt) {
+    if (stored.replacedById) await storage.revokeRefreshTokensByUser(stored.userId);
+    throw new Error("Refresh token has been revoked");
+  }
+  if (stored.expiresAt.getTime() <= Date.now()) throw new Error("Refresh token has expired");
+
+  const user = await storage.getUserById(stored.userId);
+  if (!user) throw new Error("User not found");
+
+  const { refreshToken: nextRefreshToken, record } = await createRefreshToken(user.id);
+  await storage.revokeRefreshToken(stored.id, record.id);
+
+  return { user, token: signAccessToken(user), refreshToken: nextRefreshToken };
+}
+
+export async function revokeRefreshToken(refreshToken: string): Promise<void> {
+  const stored = await storage.getRefreshTokenByHash(hashToken(refreshToken));
+  if (stored) await storage.revokeRefreshToken(stored.id);
+}
+
+// Emailed single-use tokens, stored hashed like refresh tokens
+async function createUserToken(userId: string, purpose: UserToken["purpose"], ttlMs: number): Promise<string> {
+  const token = crypto.randomBytes(32).toString("hex");
+  await storage.createUserToken({
+    userId,
+    purpose,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + ttlMs),
+  });
+  return token;
+}
+
+// Marks the token used and returns its user; throws if it is unknown, used or expired
+async function consumeUserToken(token: string, purpose: UserToken["purpose"]): Promise<User> {
+  const stored = await storage.getUserTokenByHash(hashToken(token));
+  const isValid = stored && stored.purpose === purpose && !stored.usedAt && stored.expiresAt.getTime() > Date.now();
+  if (!isValid || !(await storage.consumeUserToken(stored.id))) {
+    throw new Error("This link is invalid or has expired");
+  }
+
+  const user = await storage.getUserById(stored.userId);
+  if (!user) throw new Error("User not found");
+  return user;
+}
+
+export async function sendVerificationEmail(user: User): Promise<void> {
+  if (!user.email) throw new Error("There is no email address on this account");
+  const token = await createUserToken(user.id, "email_verification", EMAIL_VERIFICATION_TTL_MS);
+  await mailer.send({
+    to: user.email,
+    subject: "Verify your FastFeast email",
+    text: `Hi ${user.username},\n\nPlease confirm your email address by opening this link:\n${APP_URL}/verify-email?token=${token}\n\nThe link expires in 24 hours.`,
+  });
+}
+
+export async function verifyEmail(token: string): Promise<User> {
+  const user = await consumeUserToken(token, "email_verification");
+  return storage.updateUser(user.id, { emailVerified: true });
+}
+
+// Does nothing for unknown emails, so callers can't probe which accounts exist
+export async function sendPasswordResetEmail(email: string): Promise<void> {
+  const user = await storage.getUserByEmail(email);
+  if (!user) return;
+
+  const token = await createUserToken(user.id, "password_reset", PASSWORD_RESET_TTL_MS);
+  await mailer.send({
+    to: email,
+    subject: "Reset your FastFeast password",
+    text: `Hi ${user.username},\n\nWe received a request to reset your password. Choose a new one here:\n${APP_URL}/reset-password?token=${token}\n\nThe link expires in 1 hour. If you didn't ask for this, you can ignore this email.`,
+  });
+}
+
+// Sets a new password and signs the user out everywhere
+export async function resetPassword(token: string, password: string): Promise<void> {
+  const user = await consumeUserToken(token, "password_reset");
+  await storage.updateUser(user.id, { password: await bcrypt.hash(password, 10) });
+  await storage.revokeRefreshTokensByUser(user.id);
+}
+
+// Login codes are short, so they are keyed with the server secret rather than plainly hashed
+function hashOtp(phone: string, code: string): string {
+  return crypto.createHmac("sha256", JWT_SECRET).update(`${phone}:${code}`).digest("hex");
+}
+
+// Seconds until another code may be sent to this number, or 0 if one can be sent now
+export async function getOtpRetryAfter(phone: string): Promise<number> {
+  const now = Date.now();
+  const recent = await storage.getPhoneOtpsSince(phone, new Date(now - OTP_WINDOW_MS));
+
+  let availableAt = 0;
+  if (recent.length > 0) {
+    availableAt = recent[0].createdAt.getTime() + OTP_RESEND_COOLDOWN_MS;
+  }
+  if (recent.length >= OTP_MAX_PER_WINDOW) {
+    const oldestCounted = recent[OTP_MAX_PER_WINDOW - 1];
+    availableAt = Math.max(availableAt, oldestCounted.createdAt.getTime() + OTP_WINDOW_MS);
+  }
+  return Math.max(0, Math.ceil((availableAt - now) / 1000));
+}
+
+export async function sendPhoneOtp(phone: string): Promise<void> {
+  const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, "0");
+  await storage.createPhoneOtp({
+    phone,
+    codeHash: hashOtp(phone, code),
+    expiresAt: new Date(Date.now() + OTP_TTL_MS),
+  });
+  await smsSender.send({
+    to: phone,
+    body: `${code} is your FastFeast login code. It expires in 10 minutes. Don't share it with anyone.`,
+  });
+}
+
+// Checks the latest code sent to the number and spends it; throws if the code is wrong or spent
+async function consumeCorrectOtp(phone: string, code: string): Promise<void> {
+  const [latest] = await storage.getPhoneOtpsSince(phone, new Date(Date.now() - OTP_TTL_MS));
+  if (!latest || latest.consumedAt || latest.expiresAt.getTime() <= Date.now() || latest.attempts >= OTP_MAX_ATTEMPTS) {
+    throw new Error("This code is invalid or has expired. Request a new one");
+  }
+
+  const expected = Buffer.from(latest.codeHash, "hex");
+  const actual = Buffer.from(hashOtp(phone, code), "hex");
+  if (!crypto.timingSafeEqual(expected, actual)) {
+    const attempts = await storage.incrementPhoneOtpAttempts(latest.id);
+    const remaining = OTP_MAX_ATTEMPTS - attempts;
+    throw new Error(remaining > 0
+      ? `Incorrect code. ${remaining} ${remaining === 1 ? "attempt" : "attempts"} left`
+      : "Too many incorrect attempts. Request a new code");
+  }
+  if (!(await storage.consumePhoneOtp(latest.id))) {
+    throw new Error("This code is invalid or has expired. Request a new one");
+  }
+}
+
+// Returns the user a verified number belongs to, creating an account on first login.
+// Only numbers proven with a code are ever stored, so the code's owner is the account's owner.
+export async function verifyPhoneOtp(phone: string, code: string): Promise<{ user: User; isNewUser: boolean }> {
+  await consumeCorrectOtp(phone, code);
+
+  const existing = await storage.getUserByPhone(phone);
+  if (existing) return { user: existing, isNewUser: false };
+
+  const user = await storage.createUser({
+    username: `FastFeast user ${phone.slice(-4)}`,
+    role: "customer",
+    phone,
+  });
+  return { user, isNewUser: true };
+}
+
+// Adds or changes the number on an account once the user proves they hold it
+export async function verifyAccountPhone(userId: string, phone: string, code: string): Promise<User> {
+  await consumeCorrectOtp(phone, code);
+
+  const owner = await storage.getUserByPhone(phone);
+  if (owner && owner.id !== userId) {
+    throw new Error("Phone number is already in use");
+  }
+  return storage.updateUser(userId, { phone });
+}
@@ -0,0 +1,90 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { getPaymentProvider } from "./paymentProviders";
+import { storage } from "./storage";
+import { startTestServer, type TestServer } from "./testServer";
+
+let server: TestServer;
+let customer: string;
+let partner: string;
+let orderRequest: object;
+
+beforeAll(async () => {
+  server = await startTestServer();
+  customer = await server.signUp("changed-mind@example.com");
+  const { restaurant, foodItem } = await server.seededItem("Sharma Ji Ka Dhaba", "Dal Makhani");
+
+  await server.signUp("counter@example.com");
+  const owner = (await storage.getUserByEmail("counter@example.com"))!;
+  await storage.updateUser(owner.id, { role: "restaurant_owner" });
+  await storage.addRestaurantOwner(restaurant.id, owner.id);
+  partner = await server.login("counter@example.com", "secret123");
+  orderRequest = {
+    restaurantId: restaurant.id,
+    deliveryAddress: "1 Janpath, New Delhi 110001",
+    items: [{ foodItemId: foodItem.id, quantity: 1 }],
+  };
+});
+
+afterAll(() => server.close());
+
+async function paidOrder() {
+  const order = (await server.request("POST", "/api/orders", { token: customer, body: orderRequest })).body;
+  await server.request("POST", "/api/payments", { token: customer, body: { orderId: order.id, paymentMethod: "fake" } });
+  return (await storage.getOrderById(order.id))!;
+}
+
+const cancel = (orderId: string, token: string, body: object = {}) =>
+  server.request("POST", `/api/orders/${orderId}/cancel`, { token, body });
+
+describe("cancelling a paid order", () => {
+  it("refunds the customer in full", async () => {
+    const order = await paidOrder();
+    const response = await cancel(order.id, customer);
+
+    expect(response.status).toBe(200);
+    expect(response.body.status).toBe("cancelled");
+    expect(response.body.paymentStatus).toBe("refunded");
+    expect(response.body.refunds.map((refund: any) => refund.amount)).toEqual([order.totalAmount]);
+  });
+
+  it("leaves the order as it was when the refund fails, so it can be cancelled again", async () => {
+    const order = await paidOrder();
+    vi.spyOn(getPaymentProvider("fake")!, "refund").mockRejectedValueOnce(new Error("Refunds are down"));
+
+    const failed = await cancel(order.id, customer);
+    expect(failed.status).toBe(400);
+    expect(failed.body.message).toBe("Refunds are down");
+    expect(await storage.getOrderById(order.id)).toMatchObject({ status: "confirmed", paymentStatus: "paid", refunds: [] });
+
+    const retried = await cancel(order.id, customer);
+    expect(retried.body).toMatchObject({ status: "cancelled", paymentStatus: "refunded" });
+  });
+});
+
+describe("refund amounts", () => {
+  it("let the restaurant refund part of the payment", async () => {
+    const order = await paidOrder();
+    const response = await cancel(order.id, partner, { reason: "Delivered the drinks only", refundAmount: 50 });
+
+    expect(response.status).toBe(200);
+    expect(response.body.status).toBe("cancelled");
+    expect(response.body.paymentStatus).toBe("partially_refunded");
+    expect(response.body.refunds.map((refund: any) => refund.amount)).toEqual([50]);
+  });
+
+  it("can't be more than was paid", async () => {
+    const order = await paidOrder();
+    const response = await cancel(order.id, partner, { reason: "Out of stock", refundAmount: order.totalAmount + 1 });
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toBe(`At most ₹${order.totalAmount} is left to refund`);
+    expect((await storage.getOrderById(order.id))!.status).toBe("confirmed");
+  });
+
+  it("aren't for customers, who always get everything back", async () => {
+    const order = await paidOrder();
+    const response = await cancel(order.id, customer, { refundAmount: 10 });
+    expect(response.status).toBe(400);
+    expect(response.body.message).toBe("Cancelled orders are refunded in full");
+  });
+});
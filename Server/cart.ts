@@ -0,0 +1,44 @@
+import { CartItem, FoodItem, OptionSelection, SelectedOption, MAX_CART_ITEM_QUANTITY } from "@shared/schema";
+import { resolveOptions } from "@shared/menuOptions";
+
+// Whose cart a request acts on: a signed-in user or a guest
+export type CartOwner = { userId: string } | { guestCartId: string };
+
+// Cart errors carry a reason so routes can choose the status code
+export class CartError extends Error {
+  constructor(message: string, readonly reason: "not_found" | "forbidden" | "invalid_quantity" | "invalid_options") {
+    super(message);
+    this.name = "CartError";
+  }
+}
+
+export function isInCart(cartItem: CartItem, owner: CartOwner): boolean {
+  return "userId" in owner
+    ? cartItem.userId === owner.userId
+    : cartItem.guestCartId === owner.guestCartId;
+}
+
+// Throws unless the line exists and belongs to the owner's cart
+export function assertCartItemOwner(cartItem: CartItem | null, owner: CartOwner): asserts cartItem is CartItem {
+  if (!cartItem) {
+    throw new CartError("Cart item not found", "not_found");
+  }
+  if (!isInCart(cartItem, owner)) {
+    throw new CartError("This item is not in your cart", "forbidden");
+  }
+}
+
+export function assertCartQuantity(quantity: number): void {
+  if (quantity > MAX_CART_ITEM_QUANTITY) {
+    throw new CartError(`You can order at most ${MAX_CART_ITEM_QUANTITY} of an item`, "invalid_quantity");
+  }
+}
+
+// Snapshot the customer's picks for a cart line; throws a CartError if they don't fit the item
+export function resolveCartOptions(foodItem: FoodItem, selections: OptionSelection[]): SelectedOption[] {
+  try {
+    return resolveOptions(foodItem, selections);
+  } catch (error: any) {
+    throw new CartError(error.message, "invalid_options");
+  }
+}
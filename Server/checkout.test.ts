@@ -0,0 +1,49 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { storage } from "./storage";
+import { startTestServer, type TestServer } from "./testServer";
+
+let server: TestServer;
+let token: string;
+let dalMakhani: string;
+let pavBhaji: string;
+
+beforeAll(async () => {
+  server = await startTestServer();
+  token = await server.signUp("checkout@example.com");
+  dalMakhani = (await server.seededItem("Sharma Ji Ka Dhaba", "Dal Makhani")).foodItem.id;
+  pavBhaji = (await server.seededItem("Mumbai Street Kitchen", "Pav Bhaji")).foodItem.id;
+});
+
+afterAll(() => server.close());
+
+const addToCart = (foodItemId: string, quantity = 1) =>
+  server.request("POST", "/api/cart", { token, body: { foodItemId, quantity } });
+
+describe("checkout", () => {
+  it("places one order per restaurant under one checkout and empties the cart", async () => {
+    await addToCart(dalMakhani);
+    await addToCart(pavBhaji);
+
+    const response = await server.request("POST", "/api/checkout", { token, body: { deliveryAddress: "1 Janpath, New Delhi 110001" } });
+    expect(response.status).toBe(200);
+    expect(response.body.orders).toHaveLength(2);
+    expect(response.body.orders.every((order: any) => order.checkoutId === response.body.checkout.id)).toBe(true);
+    expect(response.body.checkout.totalAmount).toBe(response.body.orders[0].totalAmount + response.body.orders[1].totalAmount);
+    expect((await server.request("GET", "/api/cart", { token })).body).toHaveLength(0);
+  });
+});
+
+describe("removeCartItems", () => {
+  it("skips lines that are already gone and leaves other carts alone", async () => {
+    const [mine, theirs] = await Promise.all([
+      storage.createUser({ username: "mine", role: "customer" }),
+      storage.createUser({ username: "theirs", role: "customer" }),
+    ]);
+    const myLine = await storage.addToCart({ userId: mine.id, foodItemId: dalMakhani, quantity: 1, options: [] });
+    const theirLine = await storage.addToCart({ userId: theirs.id, foodItemId: dalMakhani, quantity: 1, options: [] });
+
+    await storage.removeCartItems(mine.id, [myLine.id, "already-removed", theirLine.id]);
+    expect(await storage.getCartByUser(mine.id)).toHaveLength(0);
+    expect(await storage.getCartByUser(theirs.id)).toHaveLength(1);
+  });
+});
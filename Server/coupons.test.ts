@@ -0,0 +1,199 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Coupon, InsertOrder, Restaurant } from "@shared/schema";
+import { applyCoupon, couponDiscount, CouponError } from "./coupons";
+import { initStorage, storage } from "./storage";
+
+let dhaba: Restaurant;
+let streetKitchen: Restaurant;
+
+beforeAll(async () => {
+  await initStorage();
+  const restaurants = await storage.getAllRestaurants();
+  dhaba = restaurants.find(restaurant => restaurant.name === "Sharma Ji Ka Dhaba")!;
+  streetKitchen = restaurants.find(restaurant => restaurant.name === "Mumbai Street Kitchen")!;
+});
+
+async function customer(username: string): Promise<string> {
+  return (await storage.createUser({ username, role: "customer" })).id;
+}
+
+async function coupon(code: string): Promise<Coupon> {
+  return (await storage.getCouponByCode(code))!;
+}
+
+// Just enough of an order for the coupon checks to count it
+function orderWith(userId: string, used?: Coupon): InsertOrder {
+  return {
+    userId,
+    restaurantId: dhaba.id,
+    items: [],
+    totalAmount: 500,
+    deliveryAddress: "1 Janpath, New Delhi 110001",
+    deliveryFee: 0,
+    discount: used ? 100 : 0,
+    couponId: used?.id,
+    couponCode: used?.code,
+    status: "pending",
+    paymentStatus: "pending",
+    estimatedDeliveryTime: "ASAP",
+  };
+}
+
+describe("couponDiscount", () => {
+  const percentage = { discountType: "percentage", discountValue: 50, maxDiscount: 100 } as Coupon;
+
+  it("rounds a percentage down and caps it", () => {
+    expect(couponDiscount(percentage, 151)).toBe(75);
+    expect(couponDiscount(percentage, 500)).toBe(100);
+  });
+
+  it("never takes off more than the food costs", () => {
+    expect(couponDiscount({ discountType: "flat", discountValue: 100 } as Coupon, 80)).toBe(80);
+  });
+});
+
+describe("applyCoupon", () => {
+  it("matches codes in any case", async () => {
+    const applied = await applyCoupon("welcome50", "new-customer", [{ restaurant: dhaba, subtotal: 220 }]);
+    expect(applied.coupon.code).toBe("WELCOME50");
+    expect(applied.discount).toBe(100);
+  });
+
+  it("rejects unknown, expired and not yet valid codes", async () => {
+    await expect(applyCoupon("NOPE", "someone", [{ restaurant: dhaba, subtotal: 600 }])).rejects.toThrow("NOPE isn't a valid coupon code");
+
+    const now = new Date("2026-06-15T12:00:00Z");
+    await storage.createCoupon({
+      code: "SUMMER", description: "Summer only", discountType: "flat", discountValue: 50, minOrderValue: 0,
+      firstOrderOnly: false, isActive: true, validFrom: new Date("2026-06-01"), validUntil: new Date("2026-06-30"),
+    });
+    await expect(applyCoupon("SUMMER", "someone", [{ restaurant: dhaba, subtotal: 600 }], now)).resolves.toMatchObject({ discount: 50 });
+    await expect(applyCoupon("SUMMER", "someone", [{ restaurant: dhaba, subtotal: 600 }], new Date("2026-05-31"))).rejects.toThrow("SUMMER can't be used yet");
+    await expect(applyCoupon("SUMMER", "someone", [{ restaurant: dhaba, subtotal: 600 }], new Date("2026-07-01"))).rejects.toThrow("SUMMER has expired");
+  });
+
+  it("says how much more food the minimum order needs", async () => {
+    await expect(applyCoupon("FEAST100", "someone", [{ restaurant: dhaba, subtotal: 440 }])).rejects.toThrow("Add ₹60 more to use FEAST100");
+  });
+
+  it("only discounts the restaurant a coupon belongs to", async () => {
+    await expect(applyCoupon("DHABA20", "someone", [{ restaurant: streetKitchen, subtotal: 400 }]))
+      .rejects.toThrow("DHABA20 only works on orders from Sharma Ji Ka Dhaba");
+
+    const applied = await applyCoupon("DHABA20", "someone", [
+      { restaurant: streetKitchen, subtotal: 400 },
+      { restaurant: dhaba, subtotal: 320 },
+    ]);
+    expect(applied.discount).toBe(64);
+    expect(applied.discounts).toEqual([0, 64]);
+  });
+
+  it("shares a discount across restaurants by subtotal", async () => {
+    const applied = await applyCoupon("FEAST100", "someone", [
+      { restaurant: streetKitchen, subtotal: 200 },
+      { restaurant: dhaba, subtotal: 401 },
+    ]);
+    expect(applied.discounts).toEqual([33, 67]);
+  });
+
+  it("keeps first order coupons for customers without orders", async () => {
+    const regular = await customer("regular");
+    await storage.createOrder(orderWith(regular));
+    await expect(applyCoupon("WELCOME50", regular, [{ restaurant: dhaba, subtotal: 220 }])).rejects.toThrow("WELCOME50 is only for your first order");
+  });
+
+  it("counts a customer's uses, leaving out cancelled orders", async () => {
+    const loyal = await customer("loyal");
+    const feast = await coupon("FEAST100");
+    const orders = [];
+    for (let i = 0; i < 3; i++) {
+      orders.push(await storage.createOrder(orderWith(loyal, feast)));
+    }
+    await expect(applyCoupon("FEAST100", loyal, [{ restaurant: dhaba, subtotal: 600 }])).rejects.toThrow("You've already used FEAST100 3 times");
+
+    await storage.updateOrderStatus(orders[0].id, "cancelled", { type: "customer", id: loyal });
+    await expect(applyCoupon("FEAST100", loyal, [{ restaurant: dhaba, subtotal: 600 }])).resolves.toMatchObject({ discount: 100 });
+  });
+});
+
+describe("per-customer coupon limit when saving orders", () => {
+  let once: Coupon;
+
+  beforeAll(async () => {
+    once = await storage.createCoupon({
+      code: "ONCE", description: "One use", discountType: "flat", discountValue: 100, minOrderValue: 0,
+      firstOrderOnly: false, usageLimitPerUser: 1, isActive: true,
+    });
+  });
+
+  it("counts a checkout once however many orders it has", async () => {
+    const splitter = await customer("splitter");
+    await storage.createCheckout({ userId: splitter, totalAmount: 1000, paymentStatus: "pending" }, [
+      orderWith(splitter, once),
+      orderWith(splitter, once),
+    ]);
+    expect(await storage.countCouponRedemptions(once.id, splitter)).toBe(1);
+  });
+
+  it("refuses orders once the customer has no uses left", async () => {
+    const repeat = await customer("repeat");
+    await storage.createOrder(orderWith(repeat, once));
+
+    const order = storage.createOrder(orderWith(repeat, once));
+    await expect(order).rejects.toBeInstanceOf(CouponError);
+    await expect(order).rejects.toThrow("You've already used ONCE");
+    const checkout = storage.createCheckout({ userId: repeat, totalAmount: 500, paymentStatus: "pending" }, [orderWith(repeat, once)]);
+    await expect(checkout).rejects.toThrow("You've already used ONCE");
+    expect(await storage.countCouponRedemptions(once.id, repeat)).toBe(1);
+  });
+
+  it("lets only one of two orders placed at once take the last use", async () => {
+    const racer = await customer("racer");
+    const results = await Promise.allSettled([
+      storage.createOrder(orderWith(racer, once)),
+      storage.createCheckout({ userId: racer, totalAmount: 500, paymentStatus: "pending" }, [orderWith(racer, once)]),
+    ]);
+
+    expect(results.filter(result => result.status === "fulfilled")).toHaveLength(1);
+    expect(await storage.countCouponRedemptions(once.id, racer)).toBe(1);
+  });
+});
+
+describe("first order coupons when saving orders", () => {
+  let welcome: Coupon;
+
+  beforeAll(async () => {
+    welcome = await coupon("WELCOME50");
+  });
+
+  it("covers every restaurant in a first checkout", async () => {
+    const newcomer = await customer("newcomer");
+    const { orders } = await storage.createCheckout({ userId: newcomer, totalAmount: 1000, paymentStatus: "pending" }, [
+      orderWith(newcomer, welcome),
+      orderWith(newcomer, welcome),
+    ]);
+    expect(orders).toHaveLength(2);
+  });
+
+  it("refuses them once the customer has an order", async () => {
+    const returning = await customer("returning");
+    await storage.createOrder(orderWith(returning));
+
+    const order = storage.createOrder(orderWith(returning, welcome));
+    await expect(order).rejects.toBeInstanceOf(CouponError);
+    await expect(order).rejects.toThrow("WELCOME50 is only for your first order");
+    const checkout = storage.createCheckout({ userId: returning, totalAmount: 500, paymentStatus: "pending" }, [orderWith(returning, welcome)]);
+    await expect(checkout).rejects.toThrow("WELCOME50 is only for your first order");
+  });
+
+  it("lets only one of two first orders placed at once use them", async () => {
+    const eager = await customer("eager");
+    const results = await Promise.allSettled([
+      storage.createOrder(orderWith(eager, welcome)),
+      storage.createCheckout({ userId: eager, totalAmount: 500, paymentStatus: "pending" }, [orderWith(eager, welcome)]),
+    ]);
+
+    expect(results.filter(result => result.status === "fulfilled")).toHaveLength(1);
+    expect(await storage.getOrdersByUser(eager)).toHaveLength(1);
+  });
+});
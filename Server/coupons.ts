@@ -0,0 +1,102 @@
+import { Coupon, Restaurant } from "@shared/schema";
+import { storage } from "./storage";
+
+// Why a coupon can't be used; routes answer these with a 400 and the message
+export class CouponError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CouponError";
+  }
+}
+
+// One of the orders a coupon would go on, one per restaurant in the cart
+export interface DiscountableOrder {
+  restaurant: Restaurant;
+  subtotal: number;
+}
+
+export interface AppliedCoupon {
+  coupon: Coupon;
+  discount: number;
+  discounts: number[]; // each order's share, in the order they were given
+}
+
+// Rupees off a subtotal: a percentage is rounded down and capped by maxDiscount,
+// and a coupon never takes off more than the food costs
+export function couponDiscount(coupon: Coupon, subtotal: number): number {
+  const discount = coupon.discountType === "flat"
+    ? coupon.discountValue
+    : Math.floor(subtotal * coupon.discountValue / 100);
+  return Math.min(discount, coupon.maxDiscount ?? Infinity, subtotal);
+}
+
+// Throws for a first order coupon when the customer already has an order that wasn't
+// cancelled. The stores check this and the uses left again inside the insert, so two
+// orders placed at once can't both get through.
+export function assertFirstOrder(coupon: Coupon, hasOrders: boolean): void {
+  if (coupon.firstOrderOnly && hasOrders) {
+    throw new CouponError(`${coupon.code} is only for your first order`);
+  }
+}
+
+// Throws once a customer has used the coupon as often as it allows
+export function assertCouponUsesLeft(coupon: Coupon, redemptions: number): void {
+  if (coupon.usageLimitPerUser !== undefined && redemptions >= coupon.usageLimitPerUser) {
+    throw new CouponError(coupon.usageLimitPerUser === 1
+      ? `You've already used ${coupon.code}`
+      : `You've already used ${coupon.code} ${coupon.usageLimitPerUser} times`);
+  }
+}
+
+// Shares a discount between orders in proportion to their subtotals, in whole rupees;
+// the last order with a share takes what's left over
+function splitDiscount(discount: number, subtotals: number[]): number[] {
+  const total = subtotals.reduce((sum, subtotal) => sum + subtotal, 0);
+  const lastIndex = subtotals.reduce((last, subtotal, index) => subtotal > 0 ? index : last, -1);
+  let remaining = discount;
+  return subtotals.map((subtotal, index) => {
+    if (index === lastIndex) return remaining;
+    const share = Math.floor(discount * subtotal / total);
+    remaining -= share;
+    return share;
+  });
+}
+
+// Checks a code against the customer and the orders it would go on, and works out
+// the discount on each. A restaurant's coupon only takes money off that restaurant's
+// order. Throws a CouponError saying why the coupon can't be used.
+export async function applyCoupon(code: string, userId: string, orders: DiscountableOrder[], now = new Date()): Promise<AppliedCoupon> {
+  const coupon = await storage.getCouponByCode(code);
+  if (!coupon || !coupon.isActive) {
+    throw new CouponError(`${code.toUpperCase()} isn't a valid coupon code`);
+  }
+  if (coupon.validFrom && now < coupon.validFrom) {
+    throw new CouponError(`${coupon.code} can't be used yet`);
+  }
+  if (coupon.validUntil && now > coupon.validUntil) {
+    throw new CouponError(`${coupon.code} has expired`);
+  }
+
+  if (coupon.firstOrderOnly) {
+    const previousOrders = await storage.getOrdersByUser(userId);
+    assertFirstOrder(coupon, previousOrders.some(order => order.status !== "cancelled"));
+  }
+  if (coupon.usageLimitPerUser !== undefined) {
+    assertCouponUsesLeft(coupon, await storage.countCouponRedemptions(coupon.id, userId));
+  }
+
+  const coveredSubtotals = orders.map(order =>
+    !coupon.restaurantId || order.restaurant.id === coupon.restaurantId ? order.subtotal : 0);
+  if (coupon.restaurantId && !orders.some(order => order.restaurant.id === coupon.restaurantId)) {
+    const restaurant = await storage.getRestaurantById(coupon.restaurantId);
+    throw new CouponError(`${coupon.code} only works on orders from ${restaurant?.name ?? "another restaurant"}`);
+  }
+
+  const subtotal = coveredSubtotals.reduce((sum, covered) => sum + covered, 0);
+  if (subtotal < coupon.minOrderValue) {
+    throw new CouponError(`Add ₹${coupon.minOrderValue - subtotal} more to use ${coupon.code}`);
+  }
+
+  const discount = couponDiscount(coupon, subtotal);
+  return { coupon, discount, discounts: splitDiscount(discount, coveredSubtotals) };
+}
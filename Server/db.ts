@@ -0,0 +1,18 @@
+import { createClient } from "@libsql/client";
+import { drizzle, type LibSQLDatabase } from "drizzle-orm/libsql";
+import { migrate } from "drizzle-orm/libsql/migrator";
+import * as schema from "./dbSchema";
+
+export type Database = LibSQLDatabase<typeof schema>;
+
+export const MIGRATIONS_FOLDER = "Server/migrations";
+
+export function createDatabase(url: string = process.env.DATABASE_URL || "file:fastfeast.db"): Database {
+  const client = createClient({ url });
+  return drizzle(client, { schema });
+}
+
+// Apply any pending versioned migrations from Server/migrations
+export async function runMigrations(db: Database): Promise<void> {
+  await migrate(db, { migrationsFolder: MIGRATIONS_FOLDER });
+}
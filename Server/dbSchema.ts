@@ -0,0 +1,223 @@
+import { sqliteTable, text, integer, real, primaryKey, index } from "drizzle-orm/sqlite-core";
+// Relative, as drizzle-kit loads this file without the @shared path alias
+import { userSchema, userTokenSchema, orderSchema, orderActorSchema, checkoutSchema, paymentMethodSchema, couponSchema, type Order, type OrderRefund, type PriceBreakdown, type Restaurant, type FoodItem, type CartItem, DEFAULT_TIMEZONE } from "../Shared/schema";
+
+// Table definitions mirroring the zod schemas in Shared/schema.ts.
+// Optional zod fields are nullable columns; dates are stored as unix timestamps.
+
+export const users = sqliteTable("users", {
+  id: text("id").primaryKey(),
+  username: text("username").notNull(),
+  email: text("email").unique(),
+  password: text("password"),
+  role: text("role", { enum: userSchema.shape.role.removeDefault().options }).notNull().default("customer"),
+  emailVerified: integer("email_verified", { mode: "boolean" }).notNull().default(false),
+  phone: text("phone").unique(),
+  address: text("address"),
+  stripeCustomerId: text("stripe_customer_id"),
+  stripeSubscriptionId: text("stripe_subscription_id"),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+});
+
+export const refreshTokens = sqliteTable("refresh_tokens", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+  revokedAt: integer("revoked_at", { mode: "timestamp" }),
+  replacedById: text("replaced_by_id"),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+});
+
+export const userTokens = sqliteTable("user_tokens", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id),
+  purpose: text("purpose", { enum: userTokenSchema.shape.purpose.options }).notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+  usedAt: integer("used_at", { mode: "timestamp" }),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+});
+
+export const phoneOtps = sqliteTable("phone_otps", {
+  id: text("id").primaryKey(),
+  phone: text("phone").notNull(),
+  codeHash: text("code_hash").notNull(),
+  expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+  attempts: integer("attempts").notNull().default(0),
+  consumedAt: integer("consumed_at", { mode: "timestamp" }),
+  // millisecond precision for the resend cooldown
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
+}, (table) => [
+  index("phone_otps_phone_idx").on(table.phone, table.createdAt),
+]);
+
+export const addresses = sqliteTable("addresses", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id),
+  label: text("label").notNull(),
+  address: text("address").notNull(),
+  landmark: text("landmark"),
+  pincode: text("pincode").notNull(),
+  isDefault: integer("is_default", { mode: "boolean" }).notNull().default(false),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+});
+
+export const restaurants = sqliteTable("restaurants", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description").notNull(),
+  cuisine: text("cuisine").notNull(),
+  image: text("image").notNull(),
+  rating: real("rating").notNull(),
+  minDeliveryMinutes: integer("min_delivery_minutes").notNull(),
+  maxDeliveryMinutes: integer("max_delivery_minutes").notNull(),
+  pincode: text("pincode"),
+  deliveryFee: real("delivery_fee").notNull(),
+  freeDeliveryThreshold: real("free_delivery_threshold"),
+  packagingCharge: real("packaging_charge").notNull().default(0),
+  minOrder: real("min_order").notNull(),
+  isVeg: integer("is_veg", { mode: "boolean" }).notNull(),
+  isOpen: integer("is_open", { mode: "boolean" }).notNull(),
+  timezone: text("timezone").notNull().default(DEFAULT_TIMEZONE),
+  openingHours: text("opening_hours", { mode: "json" }).$type<Restaurant["openingHours"]>().notNull().default([]),
+  holidays: text("holidays", { mode: "json" }).$type<Restaurant["holidays"]>().notNull().default([]),
+  categoryHours: text("category_hours", { mode: "json" }).$type<Restaurant["categoryHours"]>().notNull().default([]),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+});
+
+export const restaurantOwners = sqliteTable("restaurant_owners", {
+  restaurantId: text("restaurant_id").notNull().references(() => restaurants.id),
+  userId: text("user_id").notNull().references(() => users.id),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.restaurantId, table.userId] }),
+]);
+
+export const foodItems = sqliteTable("food_items", {
+  id: text("id").primaryKey(),
+  restaurantId: text("restaurant_id").notNull().references(() => restaurants.id),
+  name: text("name").notNull(),
+  description: text("description").notNull(),
+  price: real("price").notNull(),
+  image: text("image").notNull(),
+  category: text("category").notNull(),
+  isVeg: integer("is_veg", { mode: "boolean" }).notNull(),
+  isSpicy: integer("is_spicy", { mode: "boolean" }).notNull(),
+  isAvailable: integer("is_available", { mode: "boolean" }).notNull(),
+  isArchived: integer("is_archived", { mode: "boolean" }).notNull().default(false),
+  minPrepMinutes: integer("min_prep_minutes").notNull(),
+  maxPrepMinutes: integer("max_prep_minutes").notNull(),
+  ingredients: text("ingredients", { mode: "json" }).$type<string[]>(),
+  optionGroups: text("option_groups", { mode: "json" }).$type<FoodItem["optionGroups"]>().notNull().default([]),
+  availableHours: text("available_hours", { mode: "json" }).$type<FoodItem["availableHours"]>().notNull().default([]),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+});
+
+export const coupons = sqliteTable("coupons", {
+  id: text("id").primaryKey(),
+  code: text("code").notNull().unique(),
+  description: text("description").notNull(),
+  discountType: text("discount_type", { enum: couponSchema.shape.discountType.options }).notNull(),
+  discountValue: real("discount_value").notNull(),
+  maxDiscount: real("max_discount"),
+  minOrderValue: real("min_order_value").notNull().default(0),
+  restaurantId: text("restaurant_id").references(() => restaurants.id),
+  firstOrderOnly: integer("first_order_only", { mode: "boolean" }).notNull().default(false),
+  usageLimitPerUser: integer("usage_limit_per_user"),
+  validFrom: integer("valid_from", { mode: "timestamp" }),
+  validUntil: integer("valid_until", { mode: "timestamp" }),
+  isActive: integer("is_active", { mode: "boolean" }).notNull().default(true),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+});
+
+// JSON can't hold dates, so refund times are kept as ISO strings
+export type StoredRefund = Omit<OrderRefund, "createdAt"> & { createdAt: string };
+
+export const orders = sqliteTable("orders", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id),
+  restaurantId: text("restaurant_id").notNull().references(() => restaurants.id),
+  checkoutId: text("checkout_id").references(() => checkouts.id),
+  items: text("items", { mode: "json" }).$type<Order["items"]>().notNull(),
+  totalAmount: real("total_amount").notNull(),
+  deliveryAddress: text("delivery_address").notNull(),
+  deliveryFee: real("delivery_fee").notNull(),
+  discount: real("discount").notNull().default(0),
+  couponId: text("coupon_id").references(() => coupons.id),
+  couponCode: text("coupon_code"),
+  priceBreakdown: text("price_breakdown", { mode: "json" }).$type<PriceBreakdown>(),
+  status: text("status", { enum: orderSchema.shape.status.options }).notNull(),
+  paymentStatus: text("payment_status", { enum: orderSchema.shape.paymentStatus.options }).notNull(),
+  paymentMethod: text("payment_method", { enum: paymentMethodSchema.options }),
+  paymentId: text("payment_id"),
+  refunds: text("refunds", { mode: "json" }).$type<StoredRefund[]>().notNull().default([]),
+  cancellationReason: text("cancellation_reason"),
+  estimatedDeliveryTime: text("estimated_delivery_time").notNull(),
+  estimatedDeliveryAt: integer("estimated_delivery_at", { mode: "timestamp" }),
+  scheduledFor: integer("scheduled_for", { mode: "timestamp" }),
+  releaseAt: integer("release_at", { mode: "timestamp" }),
+  specialInstructions: text("special_instructions"),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).notNull(),
+}, (table) => [
+  index("orders_release_at_idx").on(table.status, table.releaseAt),
+  index("orders_payment_id_idx").on(table.paymentId),
+  index("orders_coupon_idx").on(table.couponId, table.userId),
+]);
+
+export const orderStatusEvents = sqliteTable("order_status_events", {
+  id: text("id").primaryKey(),
+  orderId: text("order_id").notNull().references(() => orders.id),
+  fromStatus: text("from_status", { enum: orderSchema.shape.status.options }),
+  toStatus: text("to_status", { enum: orderSchema.shape.status.options }).notNull(),
+  actorType: text("actor_type", { enum: orderActorSchema.shape.type.options }).notNull(),
+  actorId: text("actor_id"),
+  // millisecond precision so events created within the same second keep their order
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
+});
+
+// Checkout.orderIds is not stored; it is read back from orders.checkout_id
+export const checkouts = sqliteTable("checkouts", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id),
+  totalAmount: real("total_amount").notNull(),
+  paymentStatus: text("payment_status", { enum: checkoutSchema.shape.paymentStatus.options }).notNull(),
+  paymentMethod: text("payment_method", { enum: paymentMethodSchema.options }),
+  paymentId: text("payment_id"),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).notNull(),
+});
+
+// Each line has either user_id or guest_cart_id set
+export const cartItems = sqliteTable("cart_items", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").references(() => users.id),
+  guestCartId: text("guest_cart_id"),
+  foodItemId: text("food_item_id").notNull().references(() => foodItems.id),
+  quantity: integer("quantity").notNull(),
+  options: text("options", { mode: "json" }).$type<CartItem["options"]>().notNull().default([]),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+}, (table) => [
+  index("cart_items_guest_cart_idx").on(table.guestCartId),
+]);
+
+export const webhookEvents = sqliteTable("webhook_events", {
+  id: text("id").primaryKey(),
+  type: text("type").notNull(),
+  processedAt: integer("processed_at", { mode: "timestamp" }).notNull(),
+});
+
+export const idempotencyKeys = sqliteTable("idempotency_keys", {
+  userId: text("user_id").notNull().references(() => users.id),
+  endpoint: text("endpoint").notNull(),
+  key: text("key").notNull(),
+  requestHash: text("request_hash").notNull(),
+  statusCode: integer("status_code"),
+  responseBody: text("response_body", { mode: "json" }),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+  expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.userId, table.endpoint, table.key] }),
+  index("idempotency_keys_expires_at_idx").on(table.expiresAt),
+]);
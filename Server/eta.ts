@@ -0,0 +1,91 @@
+import { Order, OrderActor, Restaurant } from "@shared/schema";
+import { maxPrepMinutes, formatDeliverySlot } from "@shared/deliverySchedule";
+import { formatTimeOfDay } from "@shared/openingHours";
+import { storage, type OrderStatusUpdates } from "./storage";
+
+// Each order ahead in the kitchen holds this one up by about this long
+export const QUEUE_MINUTES_PER_ORDER = 4;
+// A rider through city traffic, plus a few minutes for pickup and handover
+export const RIDE_MINUTES_PER_KM = 3;
+export const HANDOVER_MINUTES = 5;
+
+const MINUTE_MS = 60 * 1000;
+
+// How far the food has to travel. The pincode heuristic below is the default;
+// a maps API can be plugged in with setDistanceEstimator.
+export interface DistanceEstimator {
+  // Road distance in km, or undefined when it can't be told
+  estimateKm(restaurant: Pick<Restaurant, "pincode">, deliveryAddress: string): Promise<number | undefined>;
+}
+
+// Guesses from how much of the pincodes match: the same pincode is a short ride, one
+// that only shares the first three digits is across town. Addresses in another
+// region, or without a pincode, are left to the restaurant's own delivery time.
+export class PincodeDistanceEstimator implements DistanceEstimator {
+  async estimateKm(restaurant: Pick<Restaurant, "pincode">, deliveryAddress: string): Promise<number | undefined> {
+    const pincode = deliveryAddress.match(/\b\d{6}\b/g)?.pop();
+    if (!restaurant.pincode || !pincode) return undefined;
+    if (pincode === restaurant.pincode) return 2;
+    if (pincode.slice(0, 4) === restaurant.pincode.slice(0, 4)) return 5;
+    if (pincode.slice(0, 3) === restaurant.pincode.slice(0, 3)) return 10;
+    return undefined;
+  }
+}
+
+let distanceEstimator: DistanceEstimator = new PincodeDistanceEstimator();
+
+export function setDistanceEstimator(estimator: DistanceEstimator) {
+  distanceEstimator = estimator;
+}
+
+export interface DeliveryEstimate {
+  estimatedDeliveryAt: Date;
+  estimatedDeliveryTime: string;
+}
+
+type EstimatedOrder = Pick<Order, "restaurantId" | "items" | "deliveryAddress" | "status" | "scheduledFor"> & { id?: string };
+
+async function rideMinutes(restaurant: Restaurant, deliveryAddress: string): Promise<number> {
+  const km = await distanceEstimator.estimateKm(restaurant, deliveryAddress);
+  return km === undefined ? restaurant.maxDeliveryMinutes : Math.ceil(km * RIDE_MINUTES_PER_KM) + HANDOVER_MINUTES;
+}
+
+// Orders the kitchen is already working on, not counting this one
+async function queueLength(order: EstimatedOrder): Promise<number> {
+  const queue = await storage.getOrdersByRestaurant(order.restaurantId, ["confirmed", "preparing"]);
+  return queue.filter(other => other.id !== order.id).length;
+}
+
+// When the order should arrive, counting only what's left from its current status:
+// the kitchen queue and cooking until it's being prepared, then cooking and the ride,
+// then just the ride. A pre-order never arrives before its slot.
+export async function estimateDelivery(order: EstimatedOrder, restaurant: Restaurant, now = new Date()): Promise<DeliveryEstimate> {
+  let minutes = await rideMinutes(restaurant, order.deliveryAddress);
+
+  if (order.status === "pending" || order.status === "scheduled" || order.status === "confirmed" || order.status === "preparing") {
+    const foodItems = await Promise.all(order.items.map(item => storage.getFoodItemById(item.foodItemId)));
+    minutes += maxPrepMinutes(foodItems.filter(foodItem => foodItem !== null));
+  }
+  if (order.status === "pending" || order.status === "scheduled" || order.status === "confirmed") {
+    minutes += (await queueLength(order)) * QUEUE_MINUTES_PER_ORDER;
+  }
+
+  const estimatedDeliveryAt = new Date(now.getTime() + minutes * MINUTE_MS);
+  if (order.scheduledFor && estimatedDeliveryAt <= order.scheduledFor) {
+    return { estimatedDeliveryAt: order.scheduledFor, estimatedDeliveryTime: formatDeliverySlot(order.scheduledFor, restaurant.timezone) };
+  }
+  return { estimatedDeliveryAt, estimatedDeliveryTime: formatTimeOfDay(estimatedDeliveryAt, restaurant.timezone) };
+}
+
+// Moves an order on and refreshes its estimate in the same update, along with any
+// other updates given. Delivered and cancelled orders keep their last estimate.
+export async function changeOrderStatus(orderId: string, status: Order["status"], actor: OrderActor, updates: OrderStatusUpdates = {}): Promise<Order> {
+  const order = await storage.getOrderById(orderId);
+  if (!order) throw new Error("Order not found");
+  const restaurant = await storage.getRestaurantById(order.restaurantId);
+
+  const estimate = restaurant && status !== "delivered" && status !== "cancelled"
+    ? await estimateDelivery({ ...order, status }, restaurant)
+    : undefined;
+  return storage.updateOrderStatus(orderId, status, actor, { ...updates, ...estimate });
+}
@@ -0,0 +1,65 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { startTestServer, type TestServer } from "./testServer";
+
+let server: TestServer;
+let token: string;
+let orderRequest: object;
+
+beforeAll(async () => {
+  server = await startTestServer();
+  token = await server.signUp("idempotent@example.com");
+  const { restaurant, foodItem } = await server.seededItem("Sharma Ji Ka Dhaba", "Dal Makhani");
+  orderRequest = {
+    restaurantId: restaurant.id,
+    deliveryAddress: "1 Janpath, New Delhi 110001",
+    items: [{ foodItemId: foodItem.id, quantity: 1 }],
+  };
+});
+
+afterAll(() => server.close());
+
+const placeOrder = (key: string, body: object = orderRequest) =>
+  server.request("POST", "/api/orders", { token, body, headers: { "Idempotency-Key": key } });
+
+describe("Idempotency-Key", () => {
+  it("replays the first response instead of ordering twice", async () => {
+    const first = await placeOrder("order-1");
+    const retry = await placeOrder("order-1");
+
+    expect(first.status).toBe(200);
+    expect(first.headers.get("Idempotent-Replayed")).toBeNull();
+    expect(retry.status).toBe(200);
+    expect(retry.headers.get("Idempotent-Replayed")).toBe("true");
+    expect(retry.body.id).toBe(first.body.id);
+
+    const orders = await server.request("GET", "/api/orders", { token });
+    expect(orders.body).toHaveLength(1);
+  });
+
+  it("runs requests with a different key, or none, as new ones", async () => {
+    const other = await placeOrder("order-2");
+    const unkeyed = await server.request("POST", "/api/orders", { token, body: orderRequest });
+    expect(other.headers.get("Idempotent-Replayed")).toBeNull();
+    expect(new Set([other.body.id, unkeyed.body.id]).size).toBe(2);
+  });
+
+  it("refuses a key reused for a different request", async () => {
+    const response = await placeOrder("order-1", { ...orderRequest, specialInstructions: "Extra spicy" });
+    expect(response.status).toBe(422);
+    expect(response.body.message).toBe("This Idempotency-Key was already used for a different request");
+  });
+
+  it("doesn't keep failed requests, so they can be retried with the same key", async () => {
+    const failed = await placeOrder("order-3", { ...orderRequest, items: [] });
+    expect(failed.status).toBe(400);
+
+    const retried = await placeOrder("order-3");
+    expect(retried.status).toBe(200);
+    expect(retried.headers.get("Idempotent-Replayed")).toBeNull();
+  });
+
+  it("rejects keys that aren't printable characters", async () => {
+    const response = await placeOrder("has space");
+    expect(response.status).toBe(400);
+  });
+});
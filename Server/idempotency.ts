@@ -0,0 +1,75 @@
+import crypto from "crypto";
+import type { Response, NextFunction } from "express";
+import { storage, type IdempotencyKeyId } from "./storage";
+
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+// How long a key's response is kept for replays
+export const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+function hashRequestBody(body: unknown): string {
+  return crypto.createHash("sha256").update(JSON.stringify(body ?? {})).digest("hex");
+}
+
+// Makes a request safe to send twice. The first request with a given Idempotency-Key
+// header runs as usual; sending it again with that key, until the key expires, gets
+// the first response back instead of running again. Only successful responses are
+// kept, so a request that failed can be retried with the same key. Requests without
+// the header aren't affected. Goes after authenticateToken, as keys belong to a user.
+export function idempotent() {
+  return async (req: any, res: Response, next: NextFunction) => {
+    const key = req.get(IDEMPOTENCY_KEY_HEADER);
+    if (key === undefined) return next();
+    if (!IDEMPOTENCY_KEY_PATTERN.test(key)) {
+      return res.status(400).json({ message: `${IDEMPOTENCY_KEY_HEADER} must be 1 to 255 printable characters` });
+    }
+
+    const id: IdempotencyKeyId = { userId: req.user.id, endpoint: `${req.method} ${req.baseUrl}${req.path}`, key };
+    const requestHash = hashRequestBody(req.body);
+    try {
+      const existing = await storage.claimIdempotencyKey({ ...id, requestHash, expiresAt: new Date(Date.now() + IDEMPOTENCY_KEY_TTL_MS) });
+      if (existing) {
+        if (existing.requestHash !== requestHash) {
+          return res.status(422).json({ message: `This ${IDEMPOTENCY_KEY_HEADER} was already used for a different request` });
+        }
+        if (existing.statusCode === undefined) {
+          return res.status(409).json({ message: "A request with this key is still in progress" });
+        }
+        res.setHeader("Idempotent-Replayed", "true");
+        return res.status(existing.statusCode).json(existing.responseBody);
+      }
+    } catch (error: any) {
+      return res.status(500).json({ message: error.message });
+    }
+
+    // Hold the response back until it's stored, so a retry right after it gets the replay
+    let settled = false;
+    const sendJson = res.json.bind(res);
+    res.json = (body: unknown) => {
+      settled = true;
+      const saved = res.statusCode < 300
+        ? storage.saveIdempotentResponse(id, res.statusCode, body)
+        : storage.releaseIdempotencyKey(id);
+      saved
+        .catch((error) => console.error(`Could not store the response for ${IDEMPOTENCY_KEY_HEADER} ${key}: ${error.message}`))
+        .finally(() => sendJson(body));
+      return res;
+    };
+    // Responses that aren't JSON, e.g. from Express's error handler, free the key
+    res.on("finish", () => {
+      if (!settled) storage.releaseIdempotencyKey(id).catch(() => {});
+    });
+    next();
+  };
+}
+
+// Clears out expired keys straight away, then every intervalMs
+export function startIdempotencyKeySweep(intervalMs = 60 * 60 * 1000) {
+  const sweep = () => {
+    storage.deleteExpiredIdempotencyKeys(new Date())
+      .catch((error) => console.error(`Idempotency key sweep failed: ${error.message}`));
+  };
+  sweep();
+  return setInterval(sweep, intervalMs).unref();
+}
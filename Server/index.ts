@@ -1,17 +1,31 @@
 import express from "express";
 import cors from "cors";
 import { registerRoutes } from "./routes";
+import { initStorage } from "./storage";
+import { startOrderScheduler } from "./scheduler";
+import { startIdempotencyKeySweep } from "./idempotency";
 
 const app = express();
 const PORT = process.env.PORT || 3000;
 
+// Behind a reverse proxy, set TRUST_PROXY to the number of proxy hops so rate limits see client IPs
+if (process.env.TRUST_PROXY) {
+  app.set("trust proxy", Number(process.env.TRUST_PROXY));
+}
+
 // Middleware
 app.use(cors());
+// Stripe signs the raw request body, so the webhook skips JSON parsing
+app.use("/api/webhooks/stripe", express.raw({ type: "application/json" }));
 app.use(express.json());
 
-// Routes
-registerRoutes(app).then((server) => {
+// Storage (migrations + seed), then routes
+initStorage().then(() => registerRoutes(app)).then((server) => {
   server.listen(PORT, "0.0.0.0", () => {
     console.log(`🚀 FastFeast server running on port ${PORT}`);
   });
+  // Releases pre-orders to the kitchen when it's time to start cooking
+  startOrderScheduler();
+  // Drops stored Idempotency-Key responses once they've expired
+  startIdempotencyKeySweep();
 });
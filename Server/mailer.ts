@@ -0,0 +1,62 @@
+import { promises as fs } from "fs";
+import path from "path";
+import nodemailer from "nodemailer";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Outgoing email. Pick an implementation with MAIL_DRIVER (smtp, file or console).
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || "FastFeast <no-reply@fastfeast.com>";
+
+// Delivers through an SMTP server configured with SMTP_HOST, SMTP_PORT, SMTP_USER and SMTP_PASS
+export class SmtpMailer implements Mailer {
+  private transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT || 587),
+    secure: Number(process.env.SMTP_PORT) === 465,
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+  });
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: MAIL_FROM, ...message });
+  }
+}
+
+// Writes each message as a JSON file, for local development and tests
+export class FileMailer implements Mailer {
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${Math.random().toString(36).substring(2, 8)}-${message.to.replace(/[^a-z0-9@.]/gi, "_")}.json`;
+    await fs.writeFile(path.join(this.directory, fileName), JSON.stringify({ from: MAIL_FROM, ...message }, null, 2));
+  }
+}
+
+// Prints messages to the server log
+export class ConsoleMailer implements Mailer {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+function createMailer(): Mailer {
+  switch (process.env.MAIL_DRIVER) {
+    case "smtp":
+      if (!process.env.SMTP_HOST) throw new Error("Missing required mail setting: SMTP_HOST");
+      return new SmtpMailer();
+    case "file":
+      return new FileMailer(process.env.MAIL_DIR || "mail");
+    default:
+      return new ConsoleMailer();
+  }
+}
+
+export const mailer: Mailer = createMailer();
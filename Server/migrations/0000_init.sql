@@ -0,0 +1,74 @@
+CREATE TABLE `cart_items` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`food_item_id` text NOT NULL,
+	`quantity` integer NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`food_item_id`) REFERENCES `food_items`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE `food_items` (
+	`id` text PRIMARY KEY NOT NULL,
+	`restaurant_id` text NOT NULL,
+	`name` text NOT NULL,
+	`description` text NOT NULL,
+	`price` real NOT NULL,
+	`image` text NOT NULL,
+	`category` text NOT NULL,
+	`is_veg` integer NOT NULL,
+	`is_spicy` integer NOT NULL,
+	`is_available` integer NOT NULL,
+	`preparation_time` text NOT NULL,
+	`ingredients` text,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`restaurant_id`) REFERENCES `restaurants`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE `orders` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`restaurant_id` text NOT NULL,
+	`items` text NOT NULL,
+	`total_amount` real NOT NULL,
+	`delivery_address` text NOT NULL,
+	`delivery_fee` real NOT NULL,
+	`status` text NOT NULL,
+	`payment_status` text NOT NULL,
+	`stripe_payment_intent_id` text,
+	`estimated_delivery_time` text NOT NULL,
+	`special_instructions` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`restaurant_id`) REFERENCES `restaurants`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE `restaurants` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`description` text NOT NULL,
+	`cuisine` text NOT NULL,
+	`image` text NOT NULL,
+	`rating` real NOT NULL,
+	`delivery_time` text NOT NULL,
+	`delivery_fee` real NOT NULL,
+	`min_order` real NOT NULL,
+	`is_veg` integer NOT NULL,
+	`is_open` integer NOT NULL,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `users` (
+	`id` text PRIMARY KEY NOT NULL,
+	`username` text NOT NULL,
+	`email` text NOT NULL,
+	`password` text NOT NULL,
+	`phone` text,
+	`address` text,
+	`stripe_customer_id` text,
+	`stripe_subscription_id` text,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `users_email_unique` ON `users` (`email`);
\ No newline at end of file
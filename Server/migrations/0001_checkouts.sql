@@ -0,0 +1,12 @@
+CREATE TABLE `checkouts` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`total_amount` real NOT NULL,
+	`payment_status` text NOT NULL,
+	`stripe_payment_intent_id` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+ALTER TABLE `orders` ADD `checkout_id` text REFERENCES checkouts(id);
\ No newline at end of file
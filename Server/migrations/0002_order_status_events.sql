@@ -0,0 +1,10 @@
+CREATE TABLE `order_status_events` (
+	`id` text PRIMARY KEY NOT NULL,
+	`order_id` text NOT NULL,
+	`from_status` text,
+	`to_status` text NOT NULL,
+	`actor_type` text NOT NULL,
+	`actor_id` text,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`order_id`) REFERENCES `orders`(`id`) ON UPDATE no action ON DELETE no action
+);
@@ -0,0 +1,11 @@
+CREATE TABLE `restaurant_owners` (
+	`restaurant_id` text NOT NULL,
+	`user_id` text NOT NULL,
+	`created_at` integer NOT NULL,
+	PRIMARY KEY(`restaurant_id`, `user_id`),
+	FOREIGN KEY (`restaurant_id`) REFERENCES `restaurants`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+ALTER TABLE `food_items` ADD `is_archived` integer DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE `users` ADD `role` text DEFAULT 'customer' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,32 @@
+CREATE TABLE `phone_otps` (
+	`id` text PRIMARY KEY NOT NULL,
+	`phone` text NOT NULL,
+	`code_hash` text NOT NULL,
+	`expires_at` integer NOT NULL,
+	`attempts` integer DEFAULT 0 NOT NULL,
+	`consumed_at` integer,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `phone_otps_phone_idx` ON `phone_otps` (`phone`,`created_at`);--> statement-breakpoint
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_users` (
+	`id` text PRIMARY KEY NOT NULL,
+	`username` text NOT NULL,
+	`email` text,
+	`password` text,
+	`role` text DEFAULT 'customer' NOT NULL,
+	`email_verified` integer DEFAULT false NOT NULL,
+	`phone` text,
+	`address` text,
+	`stripe_customer_id` text,
+	`stripe_subscription_id` text,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+INSERT INTO `__new_users`("id", "username", "email", "password", "role", "email_verified", "phone", "address", "stripe_customer_id", "stripe_subscription_id", "created_at") SELECT "id", "username", "email", "password", "role", "email_verified", "phone", "address", "stripe_customer_id", "stripe_subscription_id", "created_at" FROM `users`;--> statement-breakpoint
+DROP TABLE `users`;--> statement-breakpoint
+ALTER TABLE `__new_users` RENAME TO `users`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;--> statement-breakpoint
+CREATE UNIQUE INDEX `users_email_unique` ON `users` (`email`);--> statement-breakpoint
+CREATE UNIQUE INDEX `users_phone_unique` ON `users` (`phone`);
\ No newline at end of file
@@ -0,0 +1,17 @@
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_cart_items` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text,
+	`guest_cart_id` text,
+	`food_item_id` text NOT NULL,
+	`quantity` integer NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`food_item_id`) REFERENCES `food_items`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+INSERT INTO `__new_cart_items`("id", "user_id", "guest_cart_id", "food_item_id", "quantity", "created_at") SELECT "id", "user_id", NULL, "food_item_id", "quantity", "created_at" FROM `cart_items`;--> statement-breakpoint
+DROP TABLE `cart_items`;--> statement-breakpoint
+ALTER TABLE `__new_cart_items` RENAME TO `cart_items`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;--> statement-breakpoint
+CREATE INDEX `cart_items_guest_cart_idx` ON `cart_items` (`guest_cart_id`);
\ No newline at end of file
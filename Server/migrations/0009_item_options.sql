@@ -0,0 +1,2 @@
+ALTER TABLE `cart_items` ADD `options` text DEFAULT '[]' NOT NULL;--> statement-breakpoint
+ALTER TABLE `food_items` ADD `option_groups` text DEFAULT '[]' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE `food_items` ADD `available_hours` text DEFAULT '[]' NOT NULL;--> statement-breakpoint
+ALTER TABLE `restaurants` ADD `timezone` text DEFAULT 'Asia/Kolkata' NOT NULL;--> statement-breakpoint
+ALTER TABLE `restaurants` ADD `opening_hours` text DEFAULT '[]' NOT NULL;--> statement-breakpoint
+ALTER TABLE `restaurants` ADD `holidays` text DEFAULT '[]' NOT NULL;--> statement-breakpoint
+ALTER TABLE `restaurants` ADD `category_hours` text DEFAULT '[]' NOT NULL;
\ No newline at end of file
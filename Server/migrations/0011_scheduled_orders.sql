@@ -0,0 +1,3 @@
+ALTER TABLE `orders` ADD `scheduled_for` integer;--> statement-breakpoint
+ALTER TABLE `orders` ADD `release_at` integer;--> statement-breakpoint
+CREATE INDEX `orders_release_at_idx` ON `orders` (`status`,`release_at`);
\ No newline at end of file
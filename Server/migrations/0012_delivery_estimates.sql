@@ -0,0 +1,18 @@
+ALTER TABLE `food_items` ADD `min_prep_minutes` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `food_items` ADD `max_prep_minutes` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+UPDATE `food_items` SET
+  `min_prep_minutes` = CAST(`preparation_time` AS integer),
+  `max_prep_minutes` = CASE WHEN instr(`preparation_time`, '-') > 0
+    THEN CAST(substr(`preparation_time`, instr(`preparation_time`, '-') + 1) AS integer)
+    ELSE CAST(`preparation_time` AS integer) END;--> statement-breakpoint
+ALTER TABLE `food_items` DROP COLUMN `preparation_time`;--> statement-breakpoint
+ALTER TABLE `orders` ADD `estimated_delivery_at` integer;--> statement-breakpoint
+ALTER TABLE `restaurants` ADD `min_delivery_minutes` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `restaurants` ADD `max_delivery_minutes` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+UPDATE `restaurants` SET
+  `min_delivery_minutes` = CAST(`delivery_time` AS integer),
+  `max_delivery_minutes` = CASE WHEN instr(`delivery_time`, '-') > 0
+    THEN CAST(substr(`delivery_time`, instr(`delivery_time`, '-') + 1) AS integer)
+    ELSE CAST(`delivery_time` AS integer) END;--> statement-breakpoint
+ALTER TABLE `restaurants` DROP COLUMN `delivery_time`;--> statement-breakpoint
+ALTER TABLE `restaurants` ADD `pincode` text;
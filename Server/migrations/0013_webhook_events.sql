@@ -0,0 +1,7 @@
+CREATE TABLE `webhook_events` (
+	`id` text PRIMARY KEY NOT NULL,
+	`type` text NOT NULL,
+	`processed_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `orders_payment_intent_idx` ON `orders` (`stripe_payment_intent_id`);
\ No newline at end of file
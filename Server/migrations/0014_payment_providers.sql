@@ -0,0 +1,10 @@
+ALTER TABLE `checkouts` ADD `payment_method` text;--> statement-breakpoint
+ALTER TABLE `checkouts` ADD `payment_id` text;--> statement-breakpoint
+ALTER TABLE `orders` ADD `payment_method` text;--> statement-breakpoint
+ALTER TABLE `orders` ADD `payment_id` text;--> statement-breakpoint
+UPDATE `checkouts` SET `payment_id` = `stripe_payment_intent_id`, `payment_method` = 'stripe' WHERE `stripe_payment_intent_id` IS NOT NULL;--> statement-breakpoint
+UPDATE `orders` SET `payment_id` = `stripe_payment_intent_id`, `payment_method` = 'stripe' WHERE `stripe_payment_intent_id` IS NOT NULL;--> statement-breakpoint
+CREATE INDEX `orders_payment_id_idx` ON `orders` (`payment_id`);--> statement-breakpoint
+DROP INDEX `orders_payment_intent_idx`;--> statement-breakpoint
+ALTER TABLE `orders` DROP COLUMN `stripe_payment_intent_id`;--> statement-breakpoint
+ALTER TABLE `checkouts` DROP COLUMN `stripe_payment_intent_id`;
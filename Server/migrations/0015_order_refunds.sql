@@ -0,0 +1,2 @@
+ALTER TABLE `orders` ADD `refunds` text DEFAULT '[]' NOT NULL;--> statement-breakpoint
+ALTER TABLE `orders` ADD `cancellation_reason` text;
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE `coupons` (
+	`id` text PRIMARY KEY NOT NULL,
+	`code` text NOT NULL,
+	`description` text NOT NULL,
+	`discount_type` text NOT NULL,
+	`discount_value` real NOT NULL,
+	`max_discount` real,
+	`min_order_value` real DEFAULT 0 NOT NULL,
+	`restaurant_id` text,
+	`first_order_only` integer DEFAULT false NOT NULL,
+	`usage_limit_per_user` integer,
+	`valid_from` integer,
+	`valid_until` integer,
+	`is_active` integer DEFAULT true NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`restaurant_id`) REFERENCES `restaurants`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `coupons_code_unique` ON `coupons` (`code`);--> statement-breakpoint
+ALTER TABLE `orders` ADD `discount` real DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `orders` ADD `coupon_id` text REFERENCES coupons(id);--> statement-breakpoint
+ALTER TABLE `orders` ADD `coupon_code` text;--> statement-breakpoint
+CREATE INDEX `orders_coupon_idx` ON `orders` (`coupon_id`,`user_id`);
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `orders` ADD `price_breakdown` text;--> statement-breakpoint
+ALTER TABLE `restaurants` ADD `free_delivery_threshold` real;--> statement-breakpoint
+ALTER TABLE `restaurants` ADD `packaging_charge` real DEFAULT 0 NOT NULL;--> statement-breakpoint
+UPDATE `restaurants` SET `free_delivery_threshold` = 150;
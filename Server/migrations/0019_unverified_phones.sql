@@ -0,0 +1,3 @@
+-- Numbers typed in at sign-up or on the profile were never checked with a code, so they can't be trusted
+-- for phone login. Accounts made by phone login have no password and keep theirs.
+UPDATE `users` SET `phone` = NULL WHERE `password` IS NOT NULL;
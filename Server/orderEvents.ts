@@ -0,0 +1,43 @@
+import { EventEmitter } from "events";
+import type { Request, Response } from "express";
+import { Order } from "@shared/schema";
+
+// In-process pub/sub for order changes. Storage publishes every order it
+// creates or updates; Server-Sent Event streams subscribe.
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+export function publishOrderUpdate(order: Order): void {
+  emitter.emit("order", order);
+}
+
+export function subscribeToOrderUpdates(listener: (order: Order) => void): () => void {
+  emitter.on("order", listener);
+  return () => {
+    emitter.off("order", listener);
+  };
+}
+
+// Hold the response open as an SSE stream of `order` events matching the filter
+export function streamOrderUpdates(req: Request, res: Response, filter: (order: Order) => boolean): void {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  res.write(": connected\n\n");
+
+  const unsubscribe = subscribeToOrderUpdates((order) => {
+    if (filter(order)) {
+      res.write(`event: order\ndata: ${JSON.stringify(order)}\n\n`);
+    }
+  });
+
+  // Comment lines keep proxies from closing an idle connection
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), 25000);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+}
@@ -0,0 +1,78 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { storage } from "./storage";
+import { startTestServer, type TestServer } from "./testServer";
+
+let server: TestServer;
+let customer: string;
+let partner: string;
+let restaurantId: string;
+let orderRequest: object;
+
+beforeAll(async () => {
+  server = await startTestServer();
+  customer = await server.signUp("hungry@example.com");
+  const { restaurant, foodItem } = await server.seededItem("Sharma Ji Ka Dhaba", "Dal Makhani");
+  restaurantId = restaurant.id;
+
+  // An owner made the way npm run partner:grant does it, rather than the demo account
+  await server.signUp("kitchen@example.com");
+  const owner = (await storage.getUserByEmail("kitchen@example.com"))!;
+  await storage.updateUser(owner.id, { role: "restaurant_owner" });
+  await storage.addRestaurantOwner(restaurantId, owner.id);
+  partner = await server.login("kitchen@example.com", "secret123");
+  orderRequest = {
+    restaurantId,
+    deliveryAddress: "1 Janpath, New Delhi 110001",
+    items: [{ foodItemId: foodItem.id, quantity: 1 }],
+  };
+});
+
+afterAll(() => server.close());
+
+const placeOrder = async () => (await server.request("POST", "/api/orders", { token: customer, body: orderRequest })).body;
+
+const setStatus = (orderId: string, status: string) =>
+  server.request("PATCH", `/api/partner/restaurants/${restaurantId}/orders/${orderId}/status`, { token: partner, body: { status } });
+
+const kitchenQueue = async () =>
+  (await server.request("GET", `/api/partner/restaurants/${restaurantId}/orders`, { token: partner })).body;
+
+describe("restaurant order status updates", () => {
+  it("keep unpaid orders out of the kitchen", async () => {
+    const order = await placeOrder();
+
+    expect((await kitchenQueue()).map((queued: any) => queued.id)).not.toContain(order.id);
+    for (const status of ["confirmed", "scheduled", "preparing"]) {
+      expect((await setStatus(order.id, status)).status).toBe(400);
+    }
+    expect((await setStatus(order.id, "preparing")).body.message).toBe("This order is still awaiting payment");
+  });
+
+  it("take a paid order through the kitchen to the door", async () => {
+    const order = await placeOrder();
+    const payment = await server.request("POST", "/api/payments", { token: customer, body: { orderId: order.id, paymentMethod: "fake" } });
+    expect(payment.status).toBe(200);
+    expect((await kitchenQueue()).map((queued: any) => queued.id)).toContain(order.id);
+
+    expect((await setStatus(order.id, "scheduled")).body.message).toBe("Restaurants can't set an order to scheduled");
+    for (const status of ["preparing", "ready_for_pickup", "out_for_delivery", "delivered"]) {
+      const response = await setStatus(order.id, status);
+      expect(response.status).toBe(200);
+      expect(response.body.status).toBe(status);
+    }
+  });
+
+  it("don't skip steps", async () => {
+    const order = await placeOrder();
+    await server.request("POST", "/api/payments", { token: customer, body: { orderId: order.id, paymentMethod: "fake" } });
+
+    const response = await setStatus(order.id, "out_for_delivery");
+    expect(response.status).toBe(400);
+    expect(response.body.message).toBe("Cannot change order status from confirmed to out_for_delivery");
+  });
+
+  it("send cancellations to the cancel endpoint", async () => {
+    const order = await placeOrder();
+    expect((await setStatus(order.id, "cancelled")).body.message).toBe("Cancel orders with POST /api/orders/:id/cancel");
+  });
+});
@@ -0,0 +1,188 @@
+import Stripe from "stripe";
+import { PaymentMethod } from "@shared/schema";
+
+export interface PaymentRequest {
+  amount: number; // in rupees
+  metadata: Record<string, string>; // orderId or checkoutId, and userId
+}
+
+// What the customer does next: nothing when the money has been taken, finish
+// paying in the browser with clientSecret, or pay the rider on delivery
+export interface StartedPayment {
+  status: "paid" | "requires_action" | "on_delivery";
+  paymentId?: string;
+  clientSecret?: string;
+}
+
+// An earlier payment for the order went through or still might, so another can't start
+export class PaymentInProgressError extends Error {
+  constructor() {
+    super("The last payment for this order is still going through");
+    this.name = "PaymentInProgressError";
+  }
+}
+
+export interface StartedRefund {
+  refundId?: string;
+}
+
+// Takes payment for orders. Choose the methods offered at checkout with
+// PAYMENT_PROVIDERS, a comma-separated list of stripe, cash_on_delivery and fake.
+export interface PaymentProvider {
+  readonly method: PaymentMethod;
+  readonly label: string;
+  startPayment(request: PaymentRequest): Promise<StartedPayment>;
+  // Whether a payment the customer finished in the browser went through
+  isPaymentComplete(paymentId: string): Promise<boolean>;
+  // Stops a payment the customer didn't finish, before a new attempt replaces it;
+  // throws if it went through or still might
+  cancelPayment(paymentId: string): Promise<void>;
+  // Returns part or all of a payment to the customer; amount in rupees
+  refund(paymentId: string, amount: number, reason?: string): Promise<StartedRefund>;
+}
+
+// Card payments through Stripe using STRIPE_SECRET_KEY; STRIPE_WEBHOOK_SECRET
+// verifies the events Stripe posts back
+export class StripePaymentProvider implements PaymentProvider {
+  readonly method = "stripe";
+  readonly label = "Card";
+  private stripe: Stripe;
+
+  constructor(secretKey: string, private webhookSecret?: string) {
+    this.stripe = new Stripe(secretKey, { apiVersion: "2023-10-16" });
+  }
+
+  async startPayment({ amount, metadata }: PaymentRequest): Promise<StartedPayment> {
+    const paymentIntent = await this.stripe.paymentIntents.create({
+      amount: Math.round(amount * 100), // Convert to paise
+      currency: "inr",
+      metadata,
+    });
+    return { status: "requires_action", paymentId: paymentIntent.id, clientSecret: paymentIntent.client_secret ?? undefined };
+  }
+
+  async isPaymentComplete(paymentId: string): Promise<boolean> {
+    const paymentIntent = await this.stripe.paymentIntents.retrieve(paymentId);
+    return paymentIntent.status === "succeeded";
+  }
+
+  async cancelPayment(paymentId: string): Promise<void> {
+    const paymentIntent = await this.stripe.paymentIntents.retrieve(paymentId);
+    if (paymentIntent.status === "canceled") return;
+    if (paymentIntent.status === "succeeded" || paymentIntent.status === "processing") {
+      throw new PaymentInProgressError();
+    }
+    await this.stripe.paymentIntents.cancel(paymentId);
+  }
+
+  async refund(paymentId: string, amount: number, reason?: string): Promise<StartedRefund> {
+    const refund = await this.stripe.refunds.create({
+      payment_intent: paymentId,
+      amount: Math.round(amount * 100), // Convert to paise
+      metadata: reason ? { reason } : undefined,
+    });
+    return { refundId: refund.id };
+  }
+
+  get acceptsWebhooks(): boolean {
+    return !!this.webhookSecret;
+  }
+
+  // Throws unless the signature matches the exact body Stripe sent
+  parseWebhookEvent(rawBody: Buffer, signature: string): Stripe.Event {
+    if (!this.webhookSecret) throw new Error("Missing STRIPE_WEBHOOK_SECRET");
+    return this.stripe.webhooks.constructEvent(rawBody, signature, this.webhookSecret);
+  }
+}
+
+// Nothing is charged up front; the rider collects the cash and the order is
+// marked paid when it's delivered
+export class CashOnDeliveryProvider implements PaymentProvider {
+  readonly method = "cash_on_delivery";
+  readonly label = "Cash on delivery";
+
+  async startPayment(): Promise<StartedPayment> {
+    return { status: "on_delivery" };
+  }
+
+  async isPaymentComplete(): Promise<boolean> {
+    return false;
+  }
+
+  // Nothing was taken, so there's nothing to stop
+  async cancelPayment(): Promise<void> {}
+
+  // Orders are only paid once delivered, and delivered orders can't be cancelled
+  async refund(): Promise<StartedRefund> {
+    throw new Error("Cash on delivery payments can't be refunded online");
+  }
+}
+
+// Approves every payment and refund straight away with predictable ids (fake_pay_1,
+// fake_refund_1, ...), for development and tests. Not allowed in production.
+export class FakePaymentProvider implements PaymentProvider {
+  readonly method = "fake";
+  readonly label = "Test payment";
+  payments: (PaymentRequest & { paymentId: string })[] = [];
+  refunds: { refundId: string; paymentId: string; amount: number; reason?: string }[] = [];
+
+  async startPayment(request: PaymentRequest): Promise<StartedPayment> {
+    const paymentId = `fake_pay_${this.payments.length + 1}`;
+    this.payments.push({ ...request, paymentId });
+    return { status: "paid", paymentId };
+  }
+
+  async isPaymentComplete(paymentId: string): Promise<boolean> {
+    return this.payments.some(payment => payment.paymentId === paymentId);
+  }
+
+  // Fake payments are approved as soon as they start, so they're never left open
+  async cancelPayment(paymentId: string): Promise<void> {
+    if (await this.isPaymentComplete(paymentId)) {
+      throw new PaymentInProgressError();
+    }
+  }
+
+  async refund(paymentId: string, amount: number, reason?: string): Promise<StartedRefund> {
+    const refundId = `fake_refund_${this.refunds.length + 1}`;
+    this.refunds.push({ refundId, paymentId, amount, reason });
+    return { refundId };
+  }
+}
+
+// Card and cash when Stripe is configured; otherwise cash, plus the fake gateway outside production
+function defaultProviders(): string {
+  if (process.env.STRIPE_SECRET_KEY) return "stripe,cash_on_delivery";
+  return process.env.NODE_ENV === "production" ? "cash_on_delivery" : "cash_on_delivery,fake";
+}
+
+function createPaymentProvider(name: string): PaymentProvider {
+  switch (name) {
+    case "stripe":
+      if (!process.env.STRIPE_SECRET_KEY) {
+        throw new Error("Missing required Stripe secret: STRIPE_SECRET_KEY");
+      }
+      return new StripePaymentProvider(process.env.STRIPE_SECRET_KEY, process.env.STRIPE_WEBHOOK_SECRET);
+    case "cash_on_delivery":
+      return new CashOnDeliveryProvider();
+    case "fake":
+      if (process.env.NODE_ENV === "production") {
+        throw new Error("The fake payment provider can't be used in production");
+      }
+      return new FakePaymentProvider();
+    default:
+      throw new Error(`Unknown payment provider: ${name}`);
+  }
+}
+
+export const paymentProviders: PaymentProvider[] = (process.env.PAYMENT_PROVIDERS || defaultProviders())
+  .split(",")
+  .map(name => name.trim())
+  .filter(Boolean)
+  .map(createPaymentProvider);
+
+export function getPaymentProvider(method: PaymentMethod): PaymentProvider | undefined {
+  return paymentProviders.find(provider => provider.method === method);
+}
+
+export const stripeProvider = paymentProviders.find((provider): provider is StripePaymentProvider => provider instanceof StripePaymentProvider);
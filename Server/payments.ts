@@ -0,0 +1,218 @@
+import Stripe from "stripe";
+import { Order, Checkout, OrderActor } from "@shared/schema";
+import { assertTransition, canCustomerCancel } from "@shared/orderStatus";
+import { roundAmount } from "@shared/pricing";
+import { storage } from "./storage";
+import { changeOrderStatus } from "./eta";
+import { getPaymentProvider, type PaymentProvider, type StartedPayment } from "./paymentProviders";
+
+// Payment outcomes, reported by the provider when payment starts, by the customer's
+// browser (confirm-payment) or by Stripe's webhook. These may arrive in any order
+// and more than once, so each update only moves orders along when they're still
+// waiting on it.
+
+// Orders paid for with this payment. None for payments made outside the app,
+// which are left alone rather than failed, or Stripe would keep retrying them.
+async function ordersForPayment(paymentId: string): Promise<Order[]> {
+  const orders = await storage.getOrdersByPaymentId(paymentId);
+  if (orders.length === 0) console.warn(`No orders for payment ${paymentId}`);
+  return orders;
+}
+
+function checkoutIdsOf(orders: Order[]): Set<string> {
+  return new Set(orders.flatMap(order => order.checkoutId ? [order.checkoutId] : []));
+}
+
+async function updateCheckouts(orders: Order[], paymentStatus: Order["paymentStatus"]) {
+  for (const checkoutId of checkoutIdsOf(orders)) {
+    await storage.updateCheckoutPaymentStatus(checkoutId, paymentStatus);
+  }
+}
+
+function refundedAmount(order: Order): number {
+  return roundAmount(order.refunds.reduce((sum, refund) => sum + refund.amount, 0));
+}
+
+function remainingAmount(order: Order): number {
+  return roundAmount(order.totalAmount - refundedAmount(order));
+}
+
+// A checkout is refunded once every order in it is, and partially refunded until then
+async function updateCheckoutRefunds(orders: Order[]) {
+  for (const checkoutId of checkoutIdsOf(orders)) {
+    const checkout = await storage.getCheckoutById(checkoutId);
+    if (!checkout) continue;
+    const checkoutOrders = await Promise.all(checkout.orderIds.map(id => storage.getOrderById(id)));
+    const paymentStatus = checkoutOrders.every(order => order?.paymentStatus === "refunded") ? "refunded" : "partially_refunded";
+    await storage.updateCheckoutPaymentStatus(checkoutId, paymentStatus);
+  }
+}
+
+async function recordRefund(order: Order, amount: number, reason: string, refundId?: string): Promise<Order> {
+  const paymentStatus = refundedAmount(order) + amount >= order.totalAmount ? "refunded" : "partially_refunded";
+  const refundedOrder = await storage.addRefund(order.id, { amount, reason, refundId, createdAt: new Date() }, paymentStatus);
+  await updateCheckoutRefunds([refundedOrder]);
+  return refundedOrder;
+}
+
+// Pre-orders wait for the scheduler to send them to the kitchen
+async function sendToKitchen(order: Order) {
+  if (order.status === "pending") {
+    await changeOrderStatus(order.id, order.releaseAt ? "scheduled" : "confirmed", { type: "system" });
+  }
+}
+
+// Stops the payments earlier attempts started, so one of them can't still take the
+// money after a new attempt has replaced its paymentId on the orders
+async function cancelEarlierPayments(records: (Order | Checkout)[]) {
+  const earlier = new Map<string, PaymentProvider>();
+  for (const { paymentMethod, paymentId } of records) {
+    const provider = paymentMethod && getPaymentProvider(paymentMethod);
+    if (paymentId && provider) earlier.set(paymentId, provider);
+  }
+  for (const [paymentId, provider] of earlier) {
+    await provider.cancelPayment(paymentId);
+  }
+}
+
+// Pays for a single order, or every order in a checkout, and records the method
+// and the provider's reference on each of them. Any earlier attempt is cancelled first.
+export async function startPayment(
+  provider: PaymentProvider,
+  { orders, checkout, userId }: { orders: Order[]; checkout?: Checkout; userId: string },
+): Promise<StartedPayment> {
+  await cancelEarlierPayments(checkout ? [checkout, ...orders] : orders);
+  const started = await provider.startPayment({
+    amount: checkout ? checkout.totalAmount : orders[0].totalAmount,
+    metadata: checkout ? { checkoutId: checkout.id, userId } : { orderId: orders[0].id, userId },
+  });
+
+  const payment = { paymentMethod: provider.method, paymentId: started.paymentId };
+  if (checkout) {
+    await storage.updateCheckoutPaymentStatus(checkout.id, "pending", payment);
+  }
+  for (const order of orders) {
+    await storage.updatePaymentStatus(order.id, "pending", payment);
+  }
+
+  if (started.status === "paid") {
+    await markPaymentSucceeded(started.paymentId!);
+  } else if (started.status === "on_delivery") {
+    for (const order of orders) await sendToKitchen(order);
+  }
+  return started;
+}
+
+// An order cancelled while its payment was still going through gets the money back
+export async function markPaymentSucceeded(paymentId: string): Promise<void> {
+  const orders = await ordersForPayment(paymentId);
+  await updateCheckouts(orders, "paid");
+  for (const order of orders) {
+    if (order.paymentStatus === "refunded" || order.paymentStatus === "partially_refunded") continue;
+    const paidOrder = order.paymentStatus === "paid" ? order : await storage.updatePaymentStatus(order.id, "paid");
+    if (order.status === "cancelled") {
+      await refundOrder(paidOrder, "Paid after the order was cancelled");
+    } else {
+      await sendToKitchen(order);
+    }
+  }
+}
+
+// A failed attempt leaves the order pending, so the customer can pay again
+export async function markPaymentFailed(paymentId: string): Promise<void> {
+  const orders = await ordersForPayment(paymentId);
+  await updateCheckouts(orders.filter(order => order.paymentStatus === "pending"), "failed");
+  for (const order of orders) {
+    if (order.paymentStatus === "pending") {
+      await storage.updatePaymentStatus(order.id, "failed");
+    }
+  }
+}
+
+// Refunds made outside the app, e.g. from the Stripe dashboard. amountRefunded is the
+// payment's running total, so refunds the app made itself are already accounted for.
+// A full refund cancels the orders the kitchen hasn't started on; a partial one can
+// only be put against an order when the payment was for just that order.
+export async function markPaymentRefunded(paymentId: string, amountRefunded: number, fullyRefunded: boolean): Promise<void> {
+  const orders = await ordersForPayment(paymentId);
+  const unrecorded = roundAmount(amountRefunded - orders.reduce((sum, order) => sum + refundedAmount(order), 0));
+  if (unrecorded <= 0) return;
+
+  if (fullyRefunded) {
+    for (const order of orders) {
+      if (remainingAmount(order) > 0) {
+        await recordRefund(order, remainingAmount(order), "Refunded by the payment provider");
+      }
+      if (canCustomerCancel(order.status)) {
+        await changeOrderStatus(order.id, "cancelled", { type: "system" }, { cancellationReason: "Payment refunded" });
+      }
+    }
+  } else if (orders.length === 1) {
+    await recordRefund(orders[0], unrecorded, "Refunded by the payment provider");
+  } else if (orders.length > 1) {
+    console.warn(`Partial refund of payment ${paymentId} covers several orders; not recorded`);
+  }
+}
+
+// Refunds part of an order's payment, or by default whatever is left of it, through
+// the provider that took it
+export async function refundOrder(order: Order, reason: string, amount = remainingAmount(order)): Promise<Order> {
+  amount = roundAmount(amount);
+  if (amount > remainingAmount(order)) throw new Error(`At most ₹${remainingAmount(order)} is left to refund`);
+  if (amount <= 0) return order;
+  if (!order.paymentMethod || !order.paymentId) throw new Error("This order has no payment to refund");
+
+  const provider = getPaymentProvider(order.paymentMethod);
+  if (!provider) throw new Error(`Payment method ${order.paymentMethod} is not available for refunds`);
+  const { refundId } = await provider.refund(order.paymentId, amount, reason);
+  return recordRefund(order, amount, reason, refundId);
+}
+
+// Refunds what was paid for the order, or refundAmount of it, and then cancels it.
+// The refund goes first so that if the provider fails the order stays as it was and
+// cancelling can be tried again. Unpaid orders, including cash on delivery, are just
+// cancelled; a payment that lands afterwards is refunded then.
+export async function cancelOrder(order: Order, actor: OrderActor, reason?: string, refundAmount?: number): Promise<Order> {
+  assertTransition(order.status, "cancelled");
+  if (order.paymentStatus === "paid" || order.paymentStatus === "partially_refunded") {
+    await refundOrder(order, reason || "Cancelled by the customer", refundAmount);
+  } else if (refundAmount !== undefined) {
+    throw new Error("This order has no payment to refund");
+  }
+  return changeOrderStatus(order.id, "cancelled", actor, { cancellationReason: reason });
+}
+
+// The rider hands over the cash on delivery. A checkout is paid once all of its orders are.
+export async function markCashCollected(order: Order): Promise<Order> {
+  if (order.paymentMethod !== "cash_on_delivery" || order.paymentStatus === "paid") return order;
+  const paidOrder = await storage.updatePaymentStatus(order.id, "paid");
+
+  const checkout = order.checkoutId ? await storage.getCheckoutById(order.checkoutId) : null;
+  if (checkout) {
+    const orders = await Promise.all(checkout.orderIds.map(id => storage.getOrderById(id)));
+    if (orders.every(other => other?.paymentStatus === "paid" || other?.status === "cancelled")) {
+      await storage.updateCheckoutPaymentStatus(checkout.id, "paid");
+    }
+  }
+  return paidOrder;
+}
+
+// Other event types are acknowledged and ignored
+export async function handleStripeEvent(event: Stripe.Event): Promise<void> {
+  switch (event.type) {
+    case "payment_intent.succeeded":
+      await markPaymentSucceeded(event.data.object.id);
+      break;
+    case "payment_intent.payment_failed":
+      await markPaymentFailed(event.data.object.id);
+      break;
+    case "charge.refunded": {
+      const charge = event.data.object;
+      if (charge.payment_intent) {
+        const paymentIntentId = typeof charge.payment_intent === "string" ? charge.payment_intent : charge.payment_intent.id;
+        await markPaymentRefunded(paymentIntentId, charge.amount_refunded / 100, charge.refunded);
+      }
+      break;
+    }
+  }
+}
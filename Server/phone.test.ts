@@ -0,0 +1,58 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { FakeSmsSender, smsSender } from "./sms";
+import { storage } from "./storage";
+import { startTestServer, type TestServer } from "./testServer";
+
+let server: TestServer;
+
+beforeAll(async () => {
+  server = await startTestServer();
+});
+
+afterAll(() => server.close());
+
+// Has a code texted to the number and reads it back from the fake sender
+async function textedCode(phone: string): Promise<string> {
+  expect((await server.request("POST", "/api/auth/otp/request", { body: { phone } })).status).toBe(200);
+  const message = (smsSender as FakeSmsSender).lastMessageTo(phone)!;
+  return message.body.slice(0, 6);
+}
+
+const otpLogin = async (phone: string) =>
+  (await server.request("POST", "/api/auth/otp/verify", { body: { phone, code: await textedCode(phone) } })).body;
+
+describe("phone numbers on accounts", () => {
+  it("aren't taken at sign-up or from the profile", async () => {
+    const response = await server.request("POST", "/api/register", {
+      body: { username: "squatter", email: "squatter@example.com", password: "secret123", phone: "+919800000001" },
+    });
+    expect(response.body.user.phone).toBeUndefined();
+
+    const updated = await server.request("PATCH", "/api/me", { token: response.body.token, body: { phone: "+919800000001" } });
+    expect(updated.body.phone).toBeUndefined();
+
+    const login = await otpLogin("+919800000001");
+    expect(login.isNewUser).toBe(true);
+    expect(login.user.email).toBeUndefined();
+  });
+
+  it("are added once the code sent to them is entered", async () => {
+    const token = await server.signUp("texter@example.com");
+    const wrong = await server.request("POST", "/api/me/phone", { token, body: { phone: "+919800000002", code: "000000" } });
+    expect(wrong.status).toBe(400);
+
+    const verified = await server.request("POST", "/api/me/phone", { token, body: { phone: "+919800000002", code: await textedCode("+919800000002") } });
+    expect(verified.status).toBe(200);
+    expect(verified.body.phone).toBe("+919800000002");
+    expect((await storage.getUserByPhone("+919800000002"))?.email).toBe("texter@example.com");
+  });
+
+  it("stay with the account that already has them", async () => {
+    await storage.createUser({ username: "first", role: "customer", phone: "+919800000003" });
+    const token = await server.signUp("latecomer@example.com");
+
+    const response = await server.request("POST", "/api/me/phone", { token, body: { phone: "+919800000003", code: await textedCode("+919800000003") } });
+    expect(response.status).toBe(400);
+    expect(response.body.message).toBe("Phone number is already in use");
+  });
+});
@@ -0,0 +1,122 @@
+import { CartItem, FoodItem, Order, OptionSelection, PriceBreakdown, Restaurant } from "@shared/schema";
+import { resolveOptions, unitPrice } from "@shared/menuOptions";
+import { priceBreakdown } from "@shared/pricing";
+import { isRestaurantOpen, nextOpening, describeOpening, isFoodItemAvailable } from "@shared/openingHours";
+import { leadTimeMinutes, checkDeliverySlot, kitchenReleaseTime } from "@shared/deliverySchedule";
+import { storage } from "./storage";
+
+export interface OrderLine {
+  foodItemId: string;
+  quantity: number;
+  options?: OptionSelection[];
+}
+
+export interface PricedOrder {
+  restaurant: Restaurant;
+  items: Order["items"];
+  subtotal: number;
+  breakdown: PriceBreakdown;
+  scheduledFor?: Date;
+  releaseAt?: Date;
+}
+
+// Price an order for one restaurant from stored menu data. Any client-sent
+// prices are ignored; throws if the restaurant or an item can't be ordered.
+// A pre-order is checked against the restaurant's hours for its delivery slot.
+export async function priceOrder(restaurantId: string, lines: OrderLine[], scheduledFor?: Date): Promise<PricedOrder> {
+  const restaurant = await storage.getRestaurantById(restaurantId);
+  if (!restaurant) throw new Error("Restaurant not found");
+  if (lines.length === 0) throw new Error("Order has no items");
+
+  const foodItems: FoodItem[] = [];
+  for (const line of lines) {
+    const foodItem = await storage.getFoodItemById(line.foodItemId);
+    if (!foodItem || foodItem.restaurantId !== restaurantId) {
+      throw new Error(`Item ${line.foodItemId} is not on the menu of ${restaurant.name}`);
+    }
+    foodItems.push(foodItem);
+  }
+
+  const now = new Date();
+  let releaseAt: Date | undefined;
+  if (scheduledFor) {
+    const leadMinutes = leadTimeMinutes(restaurant, foodItems);
+    const problem = checkDeliverySlot(restaurant, scheduledFor, leadMinutes, now);
+    if (problem) throw new Error(problem);
+    releaseAt = kitchenReleaseTime(scheduledFor, leadMinutes);
+  } else if (!isRestaurantOpen(restaurant, now)) {
+    const opensAt = nextOpening(restaurant, now);
+    throw new Error(`${restaurant.name} is currently closed${opensAt ? `. ${describeOpening(opensAt, restaurant.timezone, now)}` : ""}`);
+  }
+
+  // Dishes have to be on the menu when the kitchen starts cooking
+  const cookingAt = releaseAt ?? now;
+  const items: Order["items"] = [];
+  lines.forEach((line, index) => {
+    const foodItem = foodItems[index];
+    if (!isFoodItemAvailable(foodItem, restaurant, cookingAt) || foodItem.isArchived) {
+      throw new Error(`${foodItem.name} is ${scheduledFor ? "not available at that time" : "currently unavailable"}`);
+    }
+
+    // Options are re-checked and re-priced against the current menu
+    const options = resolveOptions(foodItem, line.options ?? []);
+    items.push({ foodItemId: foodItem.id, quantity: line.quantity, price: unitPrice(foodItem.price, options), options });
+  });
+
+  const subtotal = items.reduce((total, item) => total + item.price * item.quantity, 0);
+  if (subtotal < restaurant.minOrder) {
+    throw new Error(`Minimum order for ${restaurant.name} is ₹${restaurant.minOrder}`);
+  }
+
+  return {
+    restaurant,
+    items,
+    subtotal,
+    breakdown: priceBreakdown(restaurant, subtotal),
+    scheduledFor,
+    releaseAt,
+  };
+}
+
+// The same order with a coupon's discount taken off, and its taxes worked out again
+export function withDiscount<T extends PricedOrder>(priced: T, discount: number): T {
+  return { ...priced, breakdown: priceBreakdown(priced.restaurant, priced.subtotal, discount) };
+}
+
+export interface PricedCartOrder extends PricedOrder {
+  cartItemIds: string[];
+}
+
+export interface SkippedRestaurant {
+  restaurantId: string;
+  restaurantName?: string;
+  reason: string;
+}
+
+// Price a cart as one order per restaurant. Restaurants that can't take the order,
+// e.g. because they're closed, are skipped with the reason and their lines left out.
+export async function priceCart(cartItems: CartItem[], scheduledFor?: Date): Promise<{ orders: PricedCartOrder[]; skipped: SkippedRestaurant[] }> {
+  // Group cart lines by restaurant
+  const restaurantGroups = new Map<string, { cartItemIds: string[]; lines: OrderLine[] }>();
+  for (const cartItem of cartItems) {
+    const foodItem = await storage.getFoodItemById(cartItem.foodItemId);
+    if (!foodItem) continue;
+
+    const group = restaurantGroups.get(foodItem.restaurantId) || { cartItemIds: [], lines: [] };
+    group.cartItemIds.push(cartItem.id);
+    group.lines.push({ foodItemId: foodItem.id, quantity: cartItem.quantity, options: cartItem.options });
+    restaurantGroups.set(foodItem.restaurantId, group);
+  }
+
+  const orders: PricedCartOrder[] = [];
+  const skipped: SkippedRestaurant[] = [];
+  for (const [restaurantId, group] of restaurantGroups) {
+    try {
+      orders.push({ ...await priceOrder(restaurantId, group.lines, scheduledFor), cartItemIds: group.cartItemIds });
+    } catch (error: any) {
+      const restaurant = await storage.getRestaurantById(restaurantId);
+      skipped.push({ restaurantId, restaurantName: restaurant?.name, reason: error.message });
+    }
+  }
+  return { orders, skipped };
+}
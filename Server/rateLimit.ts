@@ -0,0 +1,122 @@
+import type { Request, Response, NextFunction } from "express";
+
+export interface RateLimitCounter {
+  count: number;
+  resetAt: number; // epoch ms when the window ends
+}
+
+// Where hit counters live. The in-memory store suits a single server;
+// run several instances behind a shared store instead.
+export interface RateLimitStore {
+  // Counts a hit; a key's window starts at its first hit
+  increment(key: string, windowMs: number): Promise<RateLimitCounter>;
+  get(key: string): Promise<RateLimitCounter | null>;
+  reset(key: string): Promise<void>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters: Map<string, RateLimitCounter> = new Map();
+
+  constructor(sweepIntervalMs = 60 * 1000) {
+    // Drop expired windows so idle keys don't pile up
+    setInterval(() => {
+      const now = Date.now();
+      for (const [key, counter] of this.counters) {
+        if (counter.resetAt <= now) this.counters.delete(key);
+      }
+    }, sweepIntervalMs).unref();
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const now = Date.now();
+    const current = this.counters.get(key);
+    const counter = current && current.resetAt > now
+      ? { ...current, count: current.count + 1 }
+      : { count: 1, resetAt: now + windowMs };
+    this.counters.set(key, counter);
+    return counter;
+  }
+
+  async get(key: string): Promise<RateLimitCounter | null> {
+    const counter = this.counters.get(key);
+    return counter && counter.resetAt > Date.now() ? counter : null;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.counters.delete(key);
+  }
+}
+
+export const rateLimitStore: RateLimitStore = new MemoryRateLimitStore();
+
+function secondsUntil(resetAt: number): number {
+  return Math.max(1, Math.ceil((resetAt - Date.now()) / 1000));
+}
+
+// 429 response shared by every limit, so clients can read retryAfter or the header
+export function sendTooManyRequests(res: Response, retryAfter: number, message: string) {
+  res.setHeader("Retry-After", String(retryAfter));
+  return res.status(429).json({ message, retryAfter });
+}
+
+export interface RateLimitOptions {
+  name: string; // keeps each limiter's counters apart
+  windowMs: number;
+  max: number; // requests allowed per key in a window
+  // Defaults to the client IP; return undefined to let a request through uncounted
+  key?: (req: Request) => string | undefined;
+  message?: string;
+  store?: RateLimitStore;
+}
+
+export function rateLimit({
+  name,
+  windowMs,
+  max,
+  key = (req) => req.ip,
+  message = "Too many requests. Please try again later",
+  store = rateLimitStore,
+}: RateLimitOptions) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const id = key(req);
+    if (!id) return next();
+
+    try {
+      const counter = await store.increment(`${name}:${id}`, windowMs);
+      if (counter.count > max) {
+        return sendTooManyRequests(res, secondsUntil(counter.resetAt), message);
+      }
+      next();
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  };
+}
+
+// Locks an account for a while after repeated failed logins, wherever they come from
+export class LoginLockout {
+  constructor(
+    private maxFailures: number,
+    private failureWindowMs: number,
+    private lockoutMs: number,
+    private store: RateLimitStore = rateLimitStore,
+  ) {}
+
+  // Seconds until the account unlocks, or 0 if it isn't locked
+  async retryAfter(account: string): Promise<number> {
+    const lock = await this.store.get(`login-lock:${account}`);
+    return lock ? secondsUntil(lock.resetAt) : 0;
+  }
+
+  async recordFailure(account: string): Promise<void> {
+    const failures = await this.store.increment(`login-failures:${account}`, this.failureWindowMs);
+    if (failures.count >= this.maxFailures) {
+      await this.store.reset(`login-failures:${account}`);
+      await this.store.increment(`login-lock:${account}`, this.lockoutMs);
+    }
+  }
+
+  async reset(account: string): Promise<void> {
+    await this.store.reset(`login-failures:${account}`);
+  }
+}
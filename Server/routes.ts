@@ -1,19 +1,25 @@
 import type { Express } from "express";
+import crypto from "crypto";
 import { createServer, type Server } from "http";
-import jwt from "jsonwebtoken";
 import bcrypt from "bcryptjs";
-import Stripe from "stripe";
+import { z } from "zod";
+import type Stripe from "stripe";
 import { storage } from "./storage";
-import { insertUserSchema, insertOrderSchema, insertCartItemSchema } from "@shared/schema";
-
-const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key";
-
-if (!process.env.STRIPE_SECRET_KEY) {
-  throw new Error('Missing required Stripe secret: STRIPE_SECRET_KEY');
-}
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
-  apiVersion: "2023-10-16",
-});
+import { verifyAccessToken, issueTokens, rotateRefreshToken, revokeRefreshToken, sendVerificationEmail, verifyEmail, sendPasswordResetEmail, resetPassword, getOtpRetryAfter, sendPhoneOtp, verifyPhoneOtp, verifyAccountPhone } from "./auth";
+import { orderSchema, normalizeEmail, registerUserSchema, otpRequestSchema, otpVerifySchema, updateProfileRequestSchema, insertAddressSchema, updateAddressSchema, type UpdateUser, insertRestaurantSchema, updateRestaurantSchema, insertFoodItemSchema, updateFoodItemSchema, insertOrderSchema, insertCartItemSchema, addToCartRequestSchema, updateCartItemRequestSchema, guestCartIdSchema, createOrderRequestSchema, checkoutRequestSchema, startPaymentRequestSchema, cancelOrderRequestSchema, applyCouponRequestSchema, type InsertOrder, type Order, type Checkout, type User, type Restaurant, type FoodItem } from "@shared/schema";
+import { OPEN_ORDER_STATUSES, RESTAURANT_STATUS_UPDATES, canCustomerCancel } from "@shared/orderStatus";
+import { unitPrice } from "@shared/menuOptions";
+import { withOpeningStatus, isFoodItemAvailable } from "@shared/openingHours";
+import { combineBreakdowns, roundAmount } from "@shared/pricing";
+import { priceOrder, priceCart, withDiscount } from "./pricing";
+import { applyCoupon, CouponError } from "./coupons";
+import { estimateDelivery, changeOrderStatus } from "./eta";
+import { startPayment, markPaymentSucceeded, markCashCollected, cancelOrder, handleStripeEvent } from "./payments";
+import { paymentProviders, getPaymentProvider, stripeProvider, PaymentInProgressError } from "./paymentProviders";
+import { streamOrderUpdates } from "./orderEvents";
+import { rateLimit, sendTooManyRequests, LoginLockout } from "./rateLimit";
+import { CartError, resolveCartOptions, type CartOwner } from "./cart";
+import { idempotent } from "./idempotency";
 
 // Authentication middleware
 const authenticateToken = (req: any, res: any, next: any) => {
@@ -24,19 +30,121 @@ const authenticateToken = (req: any, res: any, next: any) => {
     return res.sendStatus(401);
   }
 
-  jwt.verify(token, JWT_SECRET, (err: any, user: any) => {
-    if (err) return res.sendStatus(403);
-    req.user = user;
+  // Expired tokens get a 401 too, so clients know to refresh
+  try {
+    req.user = verifyAccessToken(token);
+  } catch {
+    return res.sendStatus(401);
+  }
+  next();
+};
+
+// Cart routes also serve guests, who send the id of their anonymous cart in this header
+const GUEST_CART_HEADER = "x-guest-cart-id";
+
+// Signed-in users are authenticated as usual; otherwise a valid guest cart id is
+// picked up as req.guestCartId (absent until the guest's first add)
+const identifyCartOwner = (req: any, res: any, next: any) => {
+  if (req.headers['authorization']) {
+    return authenticateToken(req, res, next);
+  }
+  const guestCartId = guestCartIdSchema.safeParse(req.headers[GUEST_CART_HEADER]);
+  if (guestCartId.success) {
+    req.guestCartId = guestCartId.data;
+  }
+  next();
+};
+
+// Role check; use after authenticateToken
+const requireRole = (role: User["role"]) => (req: any, res: any, next: any) => {
+  if (req.user?.role !== role) {
+    return res.status(403).json({ message: "Forbidden" });
+  }
+  next();
+};
+
+// Only owners linked to :restaurantId may manage it; use after requireRole("restaurant_owner")
+const requireRestaurantOwner = async (req: any, res: any, next: any) => {
+  try {
+    const isOwner = await storage.isRestaurantOwner(req.user.id, req.params.restaurantId);
+    if (!isOwner) {
+      return res.status(403).json({ message: "You do not manage this restaurant" });
+    }
     next();
-  });
+  } catch (error: any) {
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// Rate limits - per client IP unless keyed by account
+const MINUTE = 60 * 1000;
+const emailKey = (req: any) => typeof req.body?.email === "string" ? normalizeEmail(req.body.email) : undefined;
+
+const loginLimiter = rateLimit({ name: "login", windowMs: 15 * MINUTE, max: 20, message: "Too many login attempts. Please try again later" });
+const registerLimiter = rateLimit({ name: "register", windowMs: 60 * MINUTE, max: 10, message: "Too many sign-ups from this network. Please try again later" });
+const authLimiter = rateLimit({ name: "auth", windowMs: 15 * MINUTE, max: 30 });
+const passwordResetAccountLimiter = rateLimit({ name: "password-reset", windowMs: 60 * MINUTE, max: 3, key: emailKey, message: "Too many reset requests for this account. Please try again later" });
+const searchLimiter = rateLimit({ name: "search", windowMs: MINUTE, max: 60 });
+
+// 5 wrong passwords within 15 minutes lock the account for 15 minutes
+const loginLockout = new LoginLockout(5, 15 * MINUTE, 15 * MINUTE);
+
+// Moves a guest's cart into the account they just signed in to
+const mergeGuestCart = async (req: any, userId: string) => {
+  const guestCartId = guestCartIdSchema.safeParse(req.headers[GUEST_CART_HEADER]);
+  if (guestCartId.success) {
+    await storage.mergeGuestCart(guestCartId.data, userId);
+  }
+};
+
+// Use after identifyCartOwner; null for a guest who has no cart yet
+const cartOwnerOf = (req: any): CartOwner | null =>
+  req.user ? { userId: req.user.id } : req.guestCartId ? { guestCartId: req.guestCartId } : null;
+
+// Cart errors share one mapping: bad input 422, someone else's line 403, missing line 404
+const CART_ERROR_STATUS = { not_found: 404, forbidden: 403, invalid_quantity: 422, invalid_options: 422 } as const;
+const sendCartError = (res: any, error: any) => {
+  if (error instanceof z.ZodError) {
+    return res.status(422).json({ message: error.issues[0].message, errors: error.issues });
+  }
+  if (error instanceof CartError) {
+    return res.status(CART_ERROR_STATUS[error.reason]).json({ message: error.message });
+  }
+  res.status(500).json({ message: error.message });
+};
+
+// User fields that are safe to send to the client
+const toPublicUser = (user: User) => ({
+  id: user.id,
+  username: user.username,
+  email: user.email,
+  role: user.role,
+  emailVerified: user.emailVerified,
+  phone: user.phone,
+  address: user.address,
+});
+
+// Menu items as customers see them: isAvailable also follows item and category hours
+const withAvailability = async (foodItems: FoodItem[]) => {
+  const now = new Date();
+  const restaurants = new Map<string, Restaurant | null>();
+  const result: FoodItem[] = [];
+  for (const foodItem of foodItems) {
+    if (!restaurants.has(foodItem.restaurantId)) {
+      restaurants.set(foodItem.restaurantId, await storage.getRestaurantById(foodItem.restaurantId));
+    }
+    const restaurant = restaurants.get(foodItem.restaurantId);
+    result.push({ ...foodItem, isAvailable: !!restaurant && isFoodItemAvailable(foodItem, restaurant, now) });
+  }
+  return result;
 };
 
 export async function registerRoutes(app: Express): Promise<Server> {
   
   // Auth routes
-  app.post("/api/register", async (req, res) => {
+  app.post("/api/register", registerLimiter, async (req, res) => {
     try {
-      const userData = insertUserSchema.parse(req.body);
+      const userData = registerUserSchema.parse(req.body);
       
       // Check if user already exists
       const existingUser = await storage.getUserByEmail(userData.email);
@@ -50,57 +158,276 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const user = await storage.createUser({
         ...userData,
         password: hashedPassword,
+        role: "customer",
+      });
+
+      // A mail failure shouldn't block sign-up; the user can ask for another link
+      await sendVerificationEmail(user).catch((error) => {
+        console.error("Failed to send verification email:", error);
       });
 
-      // Generate JWT token
-      const token = jwt.sign({ id: user.id, email: user.email }, JWT_SECRET);
+      await mergeGuestCart(req, user.id);
+
+      // Generate access and refresh tokens
+      const tokens = await issueTokens(user);
       
       res.json({ 
-        token, 
-        user: { 
-          id: user.id, 
-          username: user.username, 
-          email: user.email,
-          phone: user.phone,
-          address: user.address
-        } 
+        ...tokens, 
+        user: toPublicUser(user),
       });
     } catch (error: any) {
       res.status(400).json({ message: error.message });
     }
   });
 
-  app.post("/api/login", async (req, res) => {
+  app.post("/api/login", loginLimiter, async (req, res) => {
     try {
-      const { email, password } = req.body;
-      
-      const user = await storage.getUserByEmail(email);
-      if (!user) {
-        return res.status(400).json({ message: "Invalid credentials" });
-      }
+      const { password } = req.body;
+      const account = emailKey(req);
 
-      const isValidPassword = await bcrypt.compare(password, user.password);
-      if (!isValidPassword) {
+      const lockedFor = account ? await loginLockout.retryAfter(account) : 0;
+      if (lockedFor > 0) {
+        return sendTooManyRequests(res, lockedFor, "Too many failed login attempts. This account is temporarily locked");
+      }
+      
+      // Unknown emails count as failures too, so lockouts don't reveal which accounts exist
+      const user = account ? await storage.getUserByEmail(account) : null;
+      const isValidPassword = !!user?.password && await bcrypt.compare(password, user.password);
+      if (!user || !isValidPassword) {
+        if (account) await loginLockout.recordFailure(account);
         return res.status(400).json({ message: "Invalid credentials" });
       }
+      if (account) await loginLockout.reset(account);
 
-      const token = jwt.sign({ id: user.id, email: user.email }, JWT_SECRET);
+      await mergeGuestCart(req, user.id);
+      const tokens = await issueTokens(user);
       
       res.json({ 
-        token, 
-        user: { 
-          id: user.id, 
-          username: user.username, 
-          email: user.email,
-          phone: user.phone,
-          address: user.address
-        } 
+        ...tokens, 
+        user: toPublicUser(user),
+      });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Swap a refresh token for a new access token; the refresh token is rotated
+  app.post("/api/auth/refresh", async (req, res) => {
+    try {
+      const { refreshToken } = z.object({ refreshToken: z.string() }).parse(req.body);
+      const { user, ...tokens } = await rotateRefreshToken(refreshToken);
+      res.json({ ...tokens, user: toPublicUser(user) });
+    } catch (error: any) {
+      res.status(401).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/auth/verify-email", authLimiter, async (req, res) => {
+    try {
+      const { token } = z.object({ token: z.string() }).parse(req.body);
+      const user = await verifyEmail(token);
+      res.json({ message: "Email verified", user: toPublicUser(user) });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/auth/resend-verification", authenticateToken, async (req, res) => {
+    try {
+      const user = await storage.getUserById(req.user.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!user.email) {
+        return res.status(400).json({ message: "There is no email address on this account" });
+      }
+      if (user.emailVerified) {
+        return res.status(400).json({ message: "Email is already verified" });
+      }
+      await sendVerificationEmail(user);
+      res.json({ message: "Verification email sent" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Always succeeds so the response doesn't reveal whether the email is registered
+  app.post("/api/auth/forgot-password", authLimiter, passwordResetAccountLimiter, async (req, res) => {
+    try {
+      const { email } = z.object({ email: z.string().email() }).parse(req.body);
+      await sendPasswordResetEmail(email);
+      res.json({ message: "If that email is registered, a reset link is on its way" });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/auth/reset-password", authLimiter, async (req, res) => {
+    try {
+      const { token, password } = z.object({
+        token: z.string(),
+        password: z.string().min(6, "Password must be at least 6 characters"),
+      }).parse(req.body);
+      await resetPassword(token, password);
+      res.json({ message: "Password has been reset" });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Text a one-time login code to a mobile number
+  app.post("/api/auth/otp/request", authLimiter, async (req, res) => {
+    try {
+      const { phone } = otpRequestSchema.parse(req.body);
+
+      const retryAfter = await getOtpRetryAfter(phone);
+      if (retryAfter > 0) {
+        return sendTooManyRequests(res, retryAfter, `Please wait ${retryAfter} seconds before requesting another code`);
+      }
+
+      await sendPhoneOtp(phone);
+      res.json({ message: "Code sent", phone });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Log in with a texted code; the first login for a number creates the account
+  app.post("/api/auth/otp/verify", authLimiter, async (req, res) => {
+    try {
+      const { phone, code } = otpVerifySchema.parse(req.body);
+      const { user, isNewUser } = await verifyPhoneOtp(phone, code);
+      await mergeGuestCart(req, user.id);
+      const tokens = await issueTokens(user);
+
+      res.json({
+        ...tokens,
+        user: toPublicUser(user),
+        isNewUser,
       });
     } catch (error: any) {
       res.status(400).json({ message: error.message });
     }
   });
 
+  app.post("/api/auth/logout", async (req, res) => {
+    try {
+      const { refreshToken } = z.object({ refreshToken: z.string() }).parse(req.body);
+      await revokeRefreshToken(refreshToken);
+      res.json({ message: "Logged out" });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Profile routes
+  app.get("/api/me", authenticateToken, async (req, res) => {
+    try {
+      const user = await storage.getUserById(req.user.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(toPublicUser(user));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/me", authenticateToken, async (req, res) => {
+    try {
+      const { currentPassword, newPassword, ...profile } = updateProfileRequestSchema.parse(req.body);
+      const user = await storage.getUserById(req.user.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const updates: UpdateUser = profile;
+      if (newPassword) {
+        if (!user.password) {
+          return res.status(400).json({ message: "This account signs in with a phone number and has no password" });
+        }
+        const isValidPassword = await bcrypt.compare(currentPassword!, user.password);
+        if (!isValidPassword) {
+          return res.status(400).json({ message: "Current password is incorrect" });
+        }
+        updates.password = await bcrypt.hash(newPassword, 10);
+      }
+
+      const updatedUser = await storage.updateUser(user.id, updates);
+      if (newPassword) {
+        // Sign out every session, in case the password was changed over a stolen one,
+        // and give this client a fresh pair as login does
+        await storage.revokeRefreshTokensByUser(user.id);
+        const tokens = await issueTokens(updatedUser);
+        return res.json({ ...tokens, user: toPublicUser(updatedUser) });
+      }
+      res.json(toPublicUser(updatedUser));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Add or change the account's phone number with a code sent by POST /api/auth/otp/request
+  app.post("/api/me/phone", authLimiter, authenticateToken, async (req, res) => {
+    try {
+      const { phone, code } = otpVerifySchema.parse(req.body);
+      const user = await verifyAccountPhone(req.user.id, phone, code);
+      res.json(toPublicUser(user));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Address book routes
+  app.get("/api/me/addresses", authenticateToken, async (req, res) => {
+    try {
+      const addresses = await storage.getAddressesByUser(req.user.id);
+      res.json(addresses);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/me/addresses", authenticateToken, async (req, res) => {
+    try {
+      const addressData = insertAddressSchema.parse({
+        ...req.body,
+        userId: req.user.id,
+      });
+      const address = await storage.createAddress(addressData);
+      res.json(address);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/me/addresses/:id", authenticateToken, async (req, res) => {
+    try {
+      const address = await storage.getAddressById(req.params.id);
+      if (!address || address.userId !== req.user.id) {
+        return res.status(404).json({ message: "Address not found" });
+      }
+      const updates = updateAddressSchema.parse(req.body);
+      const updatedAddress = await storage.updateAddress(address.id, updates);
+      res.json(updatedAddress);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/me/addresses/:id", authenticateToken, async (req, res) => {
+    try {
+      const address = await storage.getAddressById(req.params.id);
+      if (!address || address.userId !== req.user.id) {
+        return res.status(404).json({ message: "Address not found" });
+      }
+      await storage.deleteAddress(address.id);
+      res.json({ message: "Address deleted" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // Restaurant routes
   app.get("/api/restaurants", async (req, res) => {
     try {
@@ -113,7 +440,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         restaurants = await storage.getAllRestaurants();
       }
       
-      res.json(restaurants);
+      const now = new Date();
+      res.json(restaurants.map(restaurant => withOpeningStatus(restaurant, now)));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
@@ -125,7 +453,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!restaurant) {
         return res.status(404).json({ message: "Restaurant not found" });
       }
-      res.json(restaurant);
+      res.json(withOpeningStatus(restaurant));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
@@ -135,13 +463,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/restaurants/:id/menu", async (req, res) => {
     try {
       const foodItems = await storage.getFoodItemsByRestaurant(req.params.id);
-      res.json(foodItems);
+      res.json(await withAvailability(foodItems));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.get("/api/food-items/search", async (req, res) => {
+  app.get("/api/food-items/search", searchLimiter, async (req, res) => {
     try {
       const { q } = req.query;
       if (!q) {
@@ -149,7 +477,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const foodItems = await storage.searchFoodItems(q as string);
-      res.json(foodItems);
+      res.json(await withAvailability(foodItems));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
@@ -158,30 +486,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/food-items/category/:category", async (req, res) => {
     try {
       const foodItems = await storage.getFoodItemsByCategory(req.params.category);
-      res.json(foodItems);
+      res.json(await withAvailability(foodItems));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Cart routes
-  app.post("/api/cart", authenticateToken, async (req, res) => {
+  // Cart routes - open to guests; a guest's first add creates their cart and
+  // the response's guestCartId is what they send from then on
+  app.post("/api/cart", identifyCartOwner, async (req: any, res) => {
     try {
+      const { options, ...lineData } = addToCartRequestSchema.parse(req.body);
+
+      const foodItem = await storage.getFoodItemById(lineData.foodItemId);
+      if (!foodItem || foodItem.isArchived) {
+        return res.status(404).json({ message: "Food item not found" });
+      }
+
       const cartItemData = insertCartItemSchema.parse({
-        ...req.body,
-        userId: req.user.id,
+        ...lineData,
+        options: resolveCartOptions(foodItem, options),
+        ...(req.user
+          ? { userId: req.user.id }
+          : { guestCartId: req.guestCartId || crypto.randomUUID() }),
       });
-      
+
       const cartItem = await storage.addToCart(cartItemData);
       res.json(cartItem);
     } catch (error: any) {
-      res.status(400).json({ message: error.message });
+      sendCartError(res, error);
     }
   });
 
-  app.get("/api/cart", authenticateToken, async (req, res) => {
+  app.get("/api/cart", identifyCartOwner, async (req: any, res) => {
     try {
-      const cartItems = await storage.getCartByUser(req.user.id);
+      const cartItems = req.user
+        ? await storage.getCartByUser(req.user.id)
+        : req.guestCartId ? await storage.getGuestCart(req.guestCartId) : [];
       
       // Get food item details for each cart item
       const cartWithDetails = await Promise.all(
@@ -200,42 +541,118 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/cart/:id", authenticateToken, async (req, res) => {
+  app.put("/api/cart/:id", identifyCartOwner, async (req: any, res) => {
     try {
-      const { quantity } = req.body;
-      const cartItem = await storage.updateCartItemQuantity(req.params.id, quantity);
+      const { quantity } = updateCartItemRequestSchema.parse(req.body);
+      const owner = cartOwnerOf(req);
+      if (!owner) {
+        return res.status(404).json({ message: "Cart item not found" });
+      }
+
+      if (quantity === 0) {
+        await storage.removeFromCart(req.params.id, owner);
+        return res.json({ message: "Item removed from cart" });
+      }
+      const cartItem = await storage.updateCartItemQuantity(req.params.id, quantity, owner);
       res.json(cartItem);
     } catch (error: any) {
-      res.status(400).json({ message: error.message });
+      sendCartError(res, error);
     }
   });
 
-  app.delete("/api/cart/:id", authenticateToken, async (req, res) => {
+  app.delete("/api/cart/:id", identifyCartOwner, async (req: any, res) => {
     try {
-      await storage.removeFromCart(req.params.id);
+      const owner = cartOwnerOf(req);
+      if (!owner) {
+        return res.status(404).json({ message: "Cart item not found" });
+      }
+
+      await storage.removeFromCart(req.params.id, owner);
       res.json({ message: "Item removed from cart" });
     } catch (error: any) {
-      res.status(400).json({ message: error.message });
+      sendCartError(res, error);
     }
   });
 
-  app.delete("/api/cart", authenticateToken, async (req, res) => {
+  app.delete("/api/cart", identifyCartOwner, async (req: any, res) => {
     try {
-      await storage.clearCart(req.user.id);
+      if (req.user) {
+        await storage.clearCart(req.user.id);
+      } else if (req.guestCartId) {
+        await storage.clearGuestCart(req.guestCartId);
+      }
       res.json({ message: "Cart cleared" });
     } catch (error: any) {
       res.status(400).json({ message: error.message });
     }
   });
 
-  // Order routes
-  app.post("/api/orders", authenticateToken, async (req, res) => {
+  // Prices the cart with a coupon for the cart and checkout summaries. Nothing is
+  // saved: the code is sent again, and checked again, when the order is placed.
+  app.post("/api/cart/apply-coupon", authenticateToken, async (req, res) => {
+    try {
+      const parsed = applyCouponRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0].message });
+      }
+      const { code, scheduledFor } = parsed.data;
+
+      const cartItems = await storage.getCartByUser(req.user.id);
+      if (cartItems.length === 0) {
+        return res.status(400).json({ message: "Cart is empty" });
+      }
+      const { orders, skipped } = await priceCart(cartItems, scheduledFor);
+      if (orders.length === 0) {
+        return res.status(400).json({ message: "No restaurant in your cart can take this order", skipped });
+      }
+
+      const { coupon, discounts } = await applyCoupon(code, req.user.id, orders);
+      const discounted = orders.map((order, index) => withDiscount(order, discounts[index]));
+      res.json({
+        coupon: { code: coupon.code, description: coupon.description },
+        orders: discounted.map((order) => ({
+          restaurantId: order.restaurant.id,
+          restaurantName: order.restaurant.name,
+          ...order.breakdown,
+        })),
+        skipped,
+        ...combineBreakdowns(discounted.map((order) => order.breakdown)),
+      });
+    } catch (error: any) {
+      if (error instanceof CouponError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Order routes. Placing an order and paying accept an Idempotency-Key header, so a
+  // double-click or a retried request doesn't order or charge twice.
+  app.post("/api/orders", authenticateToken, idempotent(), async (req, res) => {
     try {
+      const { restaurantId, items, deliveryAddress, specialInstructions, scheduledFor, couponCode } = createOrderRequestSchema.parse(req.body);
+      const undiscounted = await priceOrder(restaurantId, items, scheduledFor);
+      const applied = couponCode ? await applyCoupon(couponCode, req.user.id, [undiscounted]) : undefined;
+      const priced = withDiscount(undiscounted, applied?.discount ?? 0);
+      const estimate = await estimateDelivery({ ...priced, restaurantId, deliveryAddress, status: "pending" }, priced.restaurant);
+
       const orderData = insertOrderSchema.parse({
-        ...req.body,
         userId: req.user.id,
+        restaurantId,
+        items: priced.items,
+        totalAmount: priced.breakdown.totalAmount,
+        deliveryAddress,
+        deliveryFee: priced.breakdown.deliveryFee,
+        discount: priced.breakdown.discount,
+        couponId: applied?.coupon.id,
+        couponCode: applied?.coupon.code,
+        priceBreakdown: priced.breakdown,
         status: "pending",
         paymentStatus: "pending",
+        ...estimate,
+        scheduledFor: priced.scheduledFor,
+        releaseAt: priced.releaseAt,
+        specialInstructions,
       });
       
       const order = await storage.createOrder(orderData);
@@ -249,6 +666,62 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Checkout the whole cart: one order per restaurant under a single checkout/payment
+  app.post("/api/checkout", authenticateToken, idempotent(), async (req, res) => {
+    try {
+      const { deliveryAddress, specialInstructions, scheduledFor, couponCode } = checkoutRequestSchema.parse(req.body);
+
+      const cartItems = await storage.getCartByUser(req.user.id);
+      if (cartItems.length === 0) {
+        return res.status(400).json({ message: "Cart is empty" });
+      }
+
+      const { orders: pricedOrders, skipped } = await priceCart(cartItems, scheduledFor);
+      if (pricedOrders.length === 0) {
+        return res.status(400).json({ message: "No restaurant in your cart can take this order", skipped });
+      }
+      const applied = couponCode ? await applyCoupon(couponCode, req.user.id, pricedOrders) : undefined;
+
+      const orders: InsertOrder[] = [];
+      for (const [index, undiscounted] of pricedOrders.entries()) {
+        const discount = applied?.discounts[index] ?? 0;
+        const priced = withDiscount(undiscounted, discount);
+        const estimate = await estimateDelivery({ ...priced, restaurantId: priced.restaurant.id, deliveryAddress, status: "pending" }, priced.restaurant);
+        orders.push({
+          userId: req.user.id,
+          restaurantId: priced.restaurant.id,
+          items: priced.items,
+          totalAmount: priced.breakdown.totalAmount,
+          deliveryAddress,
+          deliveryFee: priced.breakdown.deliveryFee,
+          discount,
+          ...(discount > 0 && { couponId: applied!.coupon.id, couponCode: applied!.coupon.code }),
+          priceBreakdown: priced.breakdown,
+          status: "pending",
+          paymentStatus: "pending",
+          ...estimate,
+          scheduledFor: priced.scheduledFor,
+          releaseAt: priced.releaseAt,
+          specialInstructions,
+        });
+      }
+
+      const { checkout, orders: createdOrders } = await storage.createCheckout({
+        userId: req.user.id,
+        totalAmount: roundAmount(orders.reduce((total, order) => total + order.totalAmount, 0)),
+        paymentStatus: "pending",
+      }, orders);
+
+      // Only clear the cart lines that made it into an order. The orders exist by now, so
+      // a line another tab already removed mustn't fail the request.
+      await storage.removeCartItems(req.user.id, pricedOrders.flatMap((priced) => priced.cartItemIds));
+
+      res.json({ checkout, orders: createdOrders, skipped });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
   app.get("/api/orders", authenticateToken, async (req, res) => {
     try {
       const orders = await storage.getOrdersByUser(req.user.id);
@@ -258,55 +731,326 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Live status and ETA updates for all of the customer's orders (Server-Sent Events)
+  app.get("/api/orders/stream", authenticateToken, (req, res) => {
+    streamOrderUpdates(req, res, (order) => order.userId === req.user.id);
+  });
+
   app.get("/api/orders/:id", authenticateToken, async (req, res) => {
     try {
       const order = await storage.getOrderById(req.params.id);
       if (!order || order.userId !== req.user.id) {
         return res.status(404).json({ message: "Order not found" });
       }
-      res.json(order);
+
+      // Get food item details for each line, including items since archived
+      const items = await Promise.all(
+        order.items.map(async (item) => {
+          const foodItem = await storage.getFoodItemById(item.foodItemId);
+          return {
+            ...item,
+            foodItem,
+          };
+        })
+      );
+
+      res.json({ ...order, items });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Stripe payment routes
-  app.post("/api/create-payment-intent", authenticateToken, async (req, res) => {
+  // Copy a previous order's items back into the cart at current menu prices
+  app.post("/api/orders/:id/reorder", authenticateToken, async (req, res) => {
     try {
-      const { amount, orderId } = req.body;
-      
-      const paymentIntent = await stripe.paymentIntents.create({
-        amount: Math.round(amount * 100), // Convert to paise
-        currency: "inr",
-        metadata: {
-          orderId,
-          userId: req.user.id,
-        },
+      const order = await storage.getOrderById(req.params.id);
+      if (!order || order.userId !== req.user.id) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      const added = [];
+      const priceChanges = [];
+      const skipped = [];
+
+      const restaurant = await storage.getRestaurantById(order.restaurantId);
+      for (const item of order.items) {
+        const foodItem = await storage.getFoodItemById(item.foodItemId);
+        if (!foodItem || foodItem.isArchived || !restaurant) {
+          skipped.push({ foodItemId: item.foodItemId, name: foodItem?.name, reason: "No longer on the menu" });
+          continue;
+        }
+        if (!isFoodItemAvailable(foodItem, restaurant)) {
+          skipped.push({ foodItemId: foodItem.id, name: foodItem.name, reason: "Currently unavailable" });
+          continue;
+        }
+
+        let options;
+        try {
+          options = resolveCartOptions(foodItem, item.options);
+          await storage.addToCart({ userId: req.user.id, foodItemId: foodItem.id, quantity: item.quantity, options });
+        } catch (error) {
+          // e.g. a chosen option was removed, or the cart already holds the most allowed of this item
+          if (!(error instanceof CartError)) throw error;
+          skipped.push({ foodItemId: foodItem.id, name: foodItem.name, reason: error.message });
+          continue;
+        }
+        const price = unitPrice(foodItem.price, options);
+        added.push({ foodItemId: foodItem.id, name: foodItem.name, quantity: item.quantity, options, price });
+        if (price !== item.price) {
+          priceChanges.push({ foodItemId: foodItem.id, name: foodItem.name, previousPrice: item.price, price });
+        }
+      }
+
+      res.json({ added, priceChanges, skipped });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Customers can cancel until the kitchen starts preparing; the restaurant can cancel
+  // until the order is out for delivery, giving a reason. Paid orders are refunded in
+  // full, or by the refundAmount the restaurant chooses.
+  app.post("/api/orders/:id/cancel", authenticateToken, async (req, res) => {
+    try {
+      const parsed = cancelOrderRequestSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0].message });
+      }
+      const { reason, refundAmount } = parsed.data;
+
+      const order = await storage.getOrderById(req.params.id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      if (order.userId === req.user.id) {
+        if (!canCustomerCancel(order.status)) {
+          return res.status(400).json({ message: "This order can no longer be cancelled" });
+        }
+        if (refundAmount !== undefined) {
+          return res.status(400).json({ message: "Cancelled orders are refunded in full" });
+        }
+        return res.json(await cancelOrder(order, { type: "customer", id: req.user.id }, reason));
+      }
+
+      if (await storage.isRestaurantOwner(req.user.id, order.restaurantId)) {
+        if (!reason) {
+          return res.status(400).json({ message: "Please give a reason for cancelling" });
+        }
+        return res.json(await cancelOrder(order, { type: "restaurant", id: req.user.id }, reason, refundAmount));
+      }
+
+      res.status(404).json({ message: "Order not found" });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Live updates for a single order
+  app.get("/api/orders/:id/stream", authenticateToken, async (req, res) => {
+    try {
+      const order = await storage.getOrderById(req.params.id);
+      if (!order || order.userId !== req.user.id) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      streamOrderUpdates(req, res, (update) => update.id === order.id);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/orders/:id/timeline", authenticateToken, async (req, res) => {
+    try {
+      const order = await storage.getOrderById(req.params.id);
+      if (!order || order.userId !== req.user.id) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      const events = await storage.getOrderStatusEvents(order.id);
+      res.json(events);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Partner (restaurant owner) routes
+  const requireOwner = [authenticateToken, requireRole("restaurant_owner")];
+  const requireOwnerOf = [...requireOwner, requireRestaurantOwner];
+
+  app.get("/api/partner/restaurants", ...requireOwner, async (req, res) => {
+    try {
+      const restaurants = await storage.getRestaurantsByOwner(req.user.id);
+      res.json(restaurants);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/partner/restaurants", ...requireOwner, async (req, res) => {
+    try {
+      // New restaurants start unrated
+      const restaurantData = insertRestaurantSchema.parse({ ...req.body, rating: 0 });
+      const restaurant = await storage.createRestaurant(restaurantData);
+      await storage.addRestaurantOwner(restaurant.id, req.user.id);
+      res.json(restaurant);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/partner/restaurants/:restaurantId", ...requireOwnerOf, async (req, res) => {
+    try {
+      const updates = updateRestaurantSchema.parse(req.body);
+      const restaurant = await storage.updateRestaurant(req.params.restaurantId, updates);
+      res.json(restaurant);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/partner/restaurants/:restaurantId/menu", ...requireOwnerOf, async (req, res) => {
+    try {
+      const foodItems = await storage.getFoodItemsByRestaurant(req.params.restaurantId, true);
+      res.json(foodItems);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/partner/restaurants/:restaurantId/menu", ...requireOwnerOf, async (req, res) => {
+    try {
+      const foodItemData = insertFoodItemSchema.parse({
+        ...req.body,
+        restaurantId: req.params.restaurantId,
       });
+      const foodItem = await storage.createFoodItem(foodItemData);
+      res.json(foodItem);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
 
-      // Update order with payment intent ID
-      if (orderId) {
-        await storage.updatePaymentStatus(orderId, "pending", paymentIntent.id);
+  // Also used to flip isAvailable and to archive/unarchive (isArchived)
+  app.patch("/api/partner/restaurants/:restaurantId/menu/:itemId", ...requireOwnerOf, async (req, res) => {
+    try {
+      const foodItem = await storage.getFoodItemById(req.params.itemId);
+      if (!foodItem || foodItem.restaurantId !== req.params.restaurantId) {
+        return res.status(404).json({ message: "Food item not found" });
       }
-      
-      res.json({ clientSecret: paymentIntent.client_secret });
+
+      const updates = updateFoodItemSchema.parse(req.body);
+      const updatedFoodItem = await storage.updateFoodItem(foodItem.id, updates);
+      res.json(updatedFoodItem);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Kitchen order queue
+  app.get("/api/partner/restaurants/:restaurantId/orders", ...requireOwnerOf, async (req, res) => {
+    try {
+      const statuses = req.query.status
+        ? z.array(orderSchema.shape.status).parse((req.query.status as string).split(","))
+        : OPEN_ORDER_STATUSES;
+      const orders = await storage.getOrdersByRestaurant(req.params.restaurantId, statuses);
+      res.json(orders);
     } catch (error: any) {
-      res.status(500).json({ message: "Error creating payment intent: " + error.message });
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Live updates for the kitchen view (Server-Sent Events)
+  app.get("/api/partner/restaurants/:restaurantId/orders/stream", ...requireOwnerOf, (req, res) => {
+    streamOrderUpdates(req, res, (order) => order.restaurantId === req.params.restaurantId);
+  });
+
+  app.patch("/api/partner/restaurants/:restaurantId/orders/:orderId/status", ...requireOwnerOf, async (req, res) => {
+    try {
+      const order = await storage.getOrderById(req.params.orderId);
+      if (!order || order.restaurantId !== req.params.restaurantId) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      // Invalid transitions are rejected by the storage layer; the ETA is recalculated
+      const status = orderSchema.shape.status.parse(req.body.status);
+      if (status === "cancelled") {
+        return res.status(400).json({ message: "Cancel orders with POST /api/orders/:id/cancel" });
+      }
+      if (!RESTAURANT_STATUS_UPDATES.includes(status)) {
+        return res.status(400).json({ message: `Restaurants can't set an order to ${status}` });
+      }
+      if (order.status === "pending") {
+        return res.status(400).json({ message: "This order is still awaiting payment" });
+      }
+      let updatedOrder = await changeOrderStatus(order.id, status, { type: "restaurant", id: req.user.id });
+      if (updatedOrder.status === "delivered") {
+        updatedOrder = await markCashCollected(updatedOrder);
+      }
+      res.json(updatedOrder);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Payment routes
+  app.get("/api/payment-methods", (_req, res) => {
+    res.json(paymentProviders.map(({ method, label }) => ({ method, label })));
+  });
+
+  app.post("/api/payments", authenticateToken, idempotent(), async (req, res) => {
+    try {
+      // The amount always comes from the stored order or checkout, never from the request
+      const parsed = startPaymentRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0].message });
+      }
+      const { orderId, checkoutId, paymentMethod } = parsed.data;
+      const provider = getPaymentProvider(paymentMethod);
+      if (!provider) {
+        return res.status(400).json({ message: `Payment method ${paymentMethod} is not available` });
+      }
+
+      let checkout: Checkout | undefined;
+      let orders: Order[];
+      if (checkoutId) {
+        const found = await storage.getCheckoutById(checkoutId);
+        if (!found || found.userId !== req.user.id) {
+          return res.status(404).json({ message: "Checkout not found" });
+        }
+        checkout = found;
+        orders = (await Promise.all(found.orderIds.map((id) => storage.getOrderById(id)))).filter((order) => order !== null);
+      } else {
+        const order = await storage.getOrderById(orderId!);
+        if (!order || order.userId !== req.user.id) {
+          return res.status(404).json({ message: "Order not found" });
+        }
+        orders = [order];
+      }
+
+      // Paid, cash on delivery already arranged, or cancelled
+      if (orders.some((order) => order.status !== "pending" || order.paymentStatus === "paid")) {
+        return res.status(400).json({ message: "This order is no longer awaiting payment" });
+      }
+
+      const started = await startPayment(provider, { orders, checkout, userId: req.user.id });
+      res.json({ paymentMethod, status: started.status, clientSecret: started.clientSecret });
+    } catch (error: any) {
+      if (error instanceof PaymentInProgressError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Error starting payment: " + error.message });
     }
   });
 
   app.post("/api/confirm-payment", authenticateToken, async (req, res) => {
     try {
       const { paymentIntentId } = req.body;
-      
-      const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
-      
-      if (paymentIntent.status === "succeeded") {
-        const orderId = paymentIntent.metadata.orderId;
-        if (orderId) {
-          await storage.updatePaymentStatus(orderId, "paid", paymentIntentId);
-          await storage.updateOrderStatus(orderId, "confirmed");
-        }
+      if (!stripeProvider) {
+        return res.status(400).json({ message: "Card payments are not available" });
+      }
+
+      if (await stripeProvider.isPaymentComplete(paymentIntentId)) {
+        // The webhook may have got here first; marking it again is harmless
+        await markPaymentSucceeded(paymentIntentId);
         res.json({ success: true, message: "Payment confirmed" });
       } else {
         res.status(400).json({ success: false, message: "Payment not completed" });
@@ -316,6 +1060,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Stripe reports payment outcomes here. index.ts keeps this route's body raw,
+  // as the signature covers the exact bytes Stripe sent.
+  app.post("/api/webhooks/stripe", async (req, res) => {
+    if (!stripeProvider?.acceptsWebhooks) {
+      return res.status(500).json({ message: "Stripe webhooks are not configured" });
+    }
+
+    let event: Stripe.Event;
+    try {
+      event = stripeProvider.parseWebhookEvent(req.body, req.headers["stripe-signature"] as string);
+    } catch (error: any) {
+      return res.status(400).json({ message: "Invalid webhook signature: " + error.message });
+    }
+
+    try {
+      // Stripe redelivers until it gets a 2xx, so an event can arrive more than once
+      if (await storage.hasProcessedWebhookEvent(event.id)) {
+        return res.json({ received: true, duplicate: true });
+      }
+      await handleStripeEvent(event);
+      await storage.recordWebhookEvent({ id: event.id, type: event.type });
+      res.json({ received: true });
+    } catch (error: any) {
+      // Not recorded, so Stripe's retry gets another go
+      res.status(500).json({ message: "Error handling webhook: " + error.message });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
\ No newline at end of file
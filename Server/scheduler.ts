@@ -0,0 +1,27 @@
+import { storage } from "./storage";
+import { changeOrderStatus } from "./eta";
+
+// Sends paid pre-orders to the kitchen once their release time comes round.
+// Returns how many were released.
+export async function releaseScheduledOrders(now = new Date()): Promise<number> {
+  let released = 0;
+  for (const order of await storage.getScheduledOrdersDue(now)) {
+    try {
+      await changeOrderStatus(order.id, "confirmed", { type: "system" });
+      released++;
+    } catch (error: any) {
+      // e.g. cancelled since it was read; anything still scheduled is retried next tick
+      console.error(`Could not release scheduled order ${order.id}: ${error.message}`);
+    }
+  }
+  return released;
+}
+
+// Checks for due pre-orders straight away, then every intervalMs
+export function startOrderScheduler(intervalMs = 30 * 1000) {
+  const tick = () => {
+    releaseScheduledOrders().catch((error) => console.error(`Order scheduler failed: ${error.message}`));
+  };
+  tick();
+  return setInterval(tick, intervalMs).unref();
+}
@@ -0,0 +1,29 @@
+import { storage, initStorage } from "../storage";
+
+// Makes an existing account a restaurant owner, so it can add restaurants and manage
+// their menus and orders. Sign-up only ever creates customers:
+//   STORAGE_DRIVER=sqlite npm run partner:grant -- owner@example.com
+// The new role reaches the owner's access token when it's next refreshed.
+async function main() {
+  const [email] = process.argv.slice(2);
+  if (!email) {
+    throw new Error("Usage: partner:grant <email>");
+  }
+
+  await initStorage();
+  const user = await storage.getUserByEmail(email);
+  if (!user) {
+    throw new Error(`No account with email ${email}`);
+  }
+  if (user.role === "restaurant_owner") {
+    console.log(`${user.email} is already a restaurant owner`);
+    return;
+  }
+  await storage.updateUser(user.id, { role: "restaurant_owner" });
+  console.log(`${user.email} is now a restaurant owner`);
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
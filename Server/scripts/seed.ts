@@ -0,0 +1,13 @@
+import { storage, initStorage } from "../storage";
+
+// Applies migrations and seeds the configured backend if it is empty:
+//   STORAGE_DRIVER=sqlite npm run db:seed
+initStorage()
+  .then(async () => {
+    const restaurants = await storage.getAllRestaurants();
+    console.log(`🌱 Storage ready with ${restaurants.length} restaurants`);
+  })
+  .catch((error) => {
+    console.error("Seeding failed:", error);
+    process.exit(1);
+  });
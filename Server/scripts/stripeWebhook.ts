@@ -0,0 +1,35 @@
+import { promises as fs } from "fs";
+import path from "path";
+import Stripe from "stripe";
+
+// Posts a signed event from Server/fixtures/stripe to a running server's webhook,
+// so payment flows can be tried without a Stripe account or network access:
+//   STRIPE_WEBHOOK_SECRET=whsec_test npm run stripe:webhook -- payment_intent.succeeded pi_123
+// Each run sends a new event id unless one is given as a third argument.
+async function main() {
+  const [type, paymentIntentId, eventId] = process.argv.slice(2);
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+  if (!type || !paymentIntentId || !secret) {
+    throw new Error("Usage: STRIPE_WEBHOOK_SECRET=... stripe:webhook <event type> <payment intent id> [event id]");
+  }
+
+  const fixture = await fs.readFile(path.join(__dirname, "../fixtures/stripe", `${type}.json`), "utf8");
+  const event = JSON.parse(fixture.replaceAll("pi_fixture", paymentIntentId));
+  event.id = eventId || `evt_${Date.now().toString(36)}`;
+
+  const payload = JSON.stringify(event);
+  const response = await fetch(`${process.env.WEBHOOK_URL || "http://localhost:3000"}/api/webhooks/stripe`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Stripe-Signature": Stripe.webhooks.generateTestHeaderString({ payload, secret }),
+    },
+    body: payload,
+  });
+  console.log(`${event.id} → ${response.status} ${await response.text()}`);
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
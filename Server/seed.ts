@@ -0,0 +1,277 @@
+import bcrypt from "bcryptjs";
+import { InsertRestaurant, InsertFoodItem, InsertCoupon } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// Seed data with authentic Indian restaurants and food items.
+// Goes through IStorage so it runs against either the in-memory or the SQL backend.
+export async function seedDatabase(storage: IStorage): Promise<void> {
+  // Seed restaurants
+  const restaurants: InsertRestaurant[] = [
+    {
+      name: "Sharma Ji Ka Dhaba",
+      description: "Authentic North Indian cuisine with traditional flavors from Punjab",
+      cuisine: "North Indian",
+      image: "https://images.unsplash.com/photo-1555939594-58d7cb561ad1?w=500",
+      rating: 4.5,
+      minDeliveryMinutes: 25,
+      maxDeliveryMinutes: 30,
+      pincode: "110001",
+      deliveryFee: 25,
+      freeDeliveryThreshold: 199,
+      packagingCharge: 10,
+      minOrder: 150,
+      isVeg: false,
+      isOpen: true,
+      timezone: "Asia/Kolkata",
+      openingHours: [],
+      holidays: [],
+      categoryHours: [],
+    },
+    {
+      name: "South Spice Express",
+      description: "Traditional South Indian delicacies - Dosas, Idlis, and more",
+      cuisine: "South Indian",
+      image: "https://images.unsplash.com/photo-1565557623262-b51c2513a641?w=500",
+      rating: 4.3,
+      minDeliveryMinutes: 20,
+      maxDeliveryMinutes: 25,
+      pincode: "560001",
+      deliveryFee: 20,
+      freeDeliveryThreshold: 150,
+      packagingCharge: 0,
+      minOrder: 120,
+      isVeg: true,
+      isOpen: true,
+      timezone: "Asia/Kolkata",
+      openingHours: [{ days: [0, 1, 2, 3, 4, 5, 6], open: "07:00", close: "22:30" }],
+      holidays: [],
+      categoryHours: [],
+    },
+    {
+      name: "Mumbai Street Kitchen",
+      description: "Mumbai street food favorites - Vada Pav, Pav Bhaji, Bhel Puri",
+      cuisine: "Street Food",
+      image: "https://images.unsplash.com/photo-1596797038530-2c107229654b?w=500",
+      rating: 4.7,
+      minDeliveryMinutes: 15,
+      maxDeliveryMinutes: 20,
+      pincode: "400001",
+      deliveryFee: 15,
+      freeDeliveryThreshold: 150,
+      packagingCharge: 5,
+      minOrder: 80,
+      isVeg: true,
+      isOpen: true,
+      timezone: "Asia/Kolkata",
+      openingHours: [],
+      holidays: [],
+      categoryHours: [],
+    },
+  ];
+
+  const restaurantIds: string[] = [];
+  for (const restaurant of restaurants) {
+    const newRestaurant = await storage.createRestaurant(restaurant);
+    restaurantIds.push(newRestaurant.id);
+  }
+
+  // Seed food items
+  const foodItems: InsertFoodItem[] = [
+    // North Indian items
+    {
+      restaurantId: restaurantIds[0],
+      name: "Butter Chicken",
+      description: "Creamy tomato-based curry with tender chicken pieces",
+      price: 280,
+      image: "https://images.unsplash.com/photo-1588166524941-3bf61a9c41db?w=400",
+      category: "Main Course",
+      isVeg: false,
+      isSpicy: true,
+      isAvailable: true,
+    isArchived: false,
+      minPrepMinutes: 20,
+      maxPrepMinutes: 25,
+      ingredients: ["Chicken", "Tomatoes", "Cream", "Spices"],
+      optionGroups: [
+        {
+          id: "size",
+          name: "Portion",
+          minSelections: 1,
+          maxSelections: 1,
+          options: [
+            { id: "half", name: "Half", priceDelta: 0 },
+            { id: "full", name: "Full", priceDelta: 160 },
+          ],
+        },
+        {
+          id: "extras",
+          name: "Add-ons",
+          minSelections: 0,
+          maxSelections: 3,
+          options: [
+            { id: "butter-naan", name: "Butter Naan", priceDelta: 45 },
+            { id: "jeera-rice", name: "Jeera Rice", priceDelta: 90 },
+            { id: "extra-gravy", name: "Extra Gravy", priceDelta: 60 },
+          ],
+        },
+      ],
+      availableHours: [],
+    },
+    {
+      restaurantId: restaurantIds[0],
+      name: "Dal Makhani",
+      description: "Rich and creamy black lentils cooked overnight",
+      price: 220,
+      image: "https://images.unsplash.com/photo-1546833999-b9f581a1996d?w=400",
+      category: "Main Course",
+      isVeg: true,
+      isSpicy: false,
+      isAvailable: true,
+    isArchived: false,
+      minPrepMinutes: 15,
+      maxPrepMinutes: 20,
+      ingredients: ["Black Lentils", "Butter", "Cream", "Spices"],
+      optionGroups: [],
+      availableHours: [],
+    },
+    // South Indian items
+    {
+      restaurantId: restaurantIds[1],
+      name: "Masala Dosa",
+      description: "Crispy rice crepe filled with spiced potato curry",
+      price: 120,
+      image: "https://images.unsplash.com/photo-1567188040759-fb8a883dc6d8?w=400",
+      category: "Main Course",
+      isVeg: true,
+      isSpicy: true,
+      isAvailable: true,
+    isArchived: false,
+      minPrepMinutes: 15,
+      maxPrepMinutes: 18,
+      ingredients: ["Rice", "Lentils", "Potatoes", "Spices"],
+      optionGroups: [
+        {
+          id: "extras",
+          name: "Add-ons",
+          minSelections: 0,
+          maxSelections: 2,
+          options: [
+            { id: "cheese", name: "Cheese", priceDelta: 30 },
+            { id: "extra-chutney", name: "Extra Chutney", priceDelta: 15 },
+          ],
+        },
+      ],
+      availableHours: [],
+    },
+    {
+      restaurantId: restaurantIds[1],
+      name: "Sambar Vada",
+      description: "Fried lentil donuts soaked in flavorful sambar",
+      price: 80,
+      image: "https://images.unsplash.com/photo-1596797038530-2c107229654b?w=400",
+      category: "Appetizers",
+      isVeg: true,
+      isSpicy: true,
+      isAvailable: true,
+    isArchived: false,
+      minPrepMinutes: 10,
+      maxPrepMinutes: 12,
+      ingredients: ["Lentils", "Tamarind", "Vegetables", "Spices"],
+      optionGroups: [],
+      availableHours: [{ days: [0, 1, 2, 3, 4, 5, 6], open: "07:00", close: "11:00" }],
+    },
+    // Street Food items
+    {
+      restaurantId: restaurantIds[2],
+      name: "Vada Pav",
+      description: "Mumbai's famous potato fritter sandwich",
+      price: 40,
+      image: "https://images.unsplash.com/photo-1601050690597-df0568f70950?w=400",
+      category: "Street Food",
+      isVeg: true,
+      isSpicy: true,
+      isAvailable: true,
+    isArchived: false,
+      minPrepMinutes: 8,
+      maxPrepMinutes: 10,
+      ingredients: ["Potatoes", "Bread", "Chutneys", "Spices"],
+      optionGroups: [],
+      availableHours: [],
+    },
+    {
+      restaurantId: restaurantIds[2],
+      name: "Pav Bhaji",
+      description: "Spicy vegetable curry served with buttered bread",
+      price: 90,
+      image: "https://images.unsplash.com/photo-1606491956689-2ea866880c84?w=400",
+      category: "Main Course",
+      isVeg: true,
+      isSpicy: true,
+      isAvailable: true,
+    isArchived: false,
+      minPrepMinutes: 12,
+      maxPrepMinutes: 15,
+      ingredients: ["Mixed Vegetables", "Bread", "Butter", "Spices"],
+      optionGroups: [],
+      availableHours: [],
+    },
+  ];
+
+  for (const foodItem of foodItems) {
+    await storage.createFoodItem(foodItem);
+  }
+
+  // Promo codes: two across the whole cart, one for Sharma Ji Ka Dhaba only
+  const coupons: InsertCoupon[] = [
+    {
+      code: "WELCOME50",
+      description: "50% off your first order, up to ₹100",
+      discountType: "percentage",
+      discountValue: 50,
+      maxDiscount: 100,
+      minOrderValue: 0,
+      firstOrderOnly: true,
+      isActive: true,
+    },
+    {
+      code: "FEAST100",
+      description: "₹100 off orders over ₹500, three times per customer",
+      discountType: "flat",
+      discountValue: 100,
+      minOrderValue: 500,
+      firstOrderOnly: false,
+      usageLimitPerUser: 3,
+      isActive: true,
+    },
+    {
+      code: "DHABA20",
+      description: "20% off at Sharma Ji Ka Dhaba, up to ₹75, on orders over ₹300",
+      discountType: "percentage",
+      discountValue: 20,
+      maxDiscount: 75,
+      minOrderValue: 300,
+      restaurantId: restaurantIds[0],
+      firstOrderOnly: false,
+      isActive: true,
+    },
+  ];
+
+  for (const coupon of coupons) {
+    await storage.createCoupon(coupon);
+  }
+
+  // Demo restaurant owner managing all seeded restaurants (partner@fastfeast.com / partner123).
+  // Its password is public, so production stores don't get it; owners there are granted
+  // with npm run partner:grant.
+  if (process.env.NODE_ENV === "production") return;
+  const owner = await storage.createUser({
+    username: "FastFeast Partner",
+    email: "partner@fastfeast.com",
+    password: await bcrypt.hash("partner123", 10),
+    role: "restaurant_owner",
+  });
+  await storage.updateUser(owner.id, { emailVerified: true });
+  for (const restaurantId of restaurantIds) {
+    await storage.addRestaurantOwner(restaurantId, owner.id);
+  }
+}
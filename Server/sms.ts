@@ -0,0 +1,67 @@
+export interface SmsMessage {
+  to: string; // E.164, e.g. +919876543210
+  body: string;
+}
+
+// Outgoing text messages. Pick an implementation with SMS_DRIVER (twilio, fake or console).
+export interface SmsSender {
+  send(message: SmsMessage): Promise<void>;
+}
+
+// Sends through Twilio's REST API using TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM
+export class TwilioSmsSender implements SmsSender {
+  constructor(private accountSid: string, private authToken: string, private from: string) {}
+
+  async send(message: SmsMessage): Promise<void> {
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`, {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${this.accountSid}:${this.authToken}`).toString("base64")}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams({ To: message.to, From: this.from, Body: message.body }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`SMS delivery failed with status ${response.status}`);
+    }
+  }
+}
+
+// Keeps messages in memory so tests can read the codes that were sent
+export class FakeSmsSender implements SmsSender {
+  sent: SmsMessage[] = [];
+
+  async send(message: SmsMessage): Promise<void> {
+    this.sent.push(message);
+  }
+
+  lastMessageTo(phone: string): SmsMessage | undefined {
+    return this.sent.filter(message => message.to === phone).at(-1);
+  }
+}
+
+// Prints messages to the server log
+export class ConsoleSmsSender implements SmsSender {
+  async send(message: SmsMessage): Promise<void> {
+    console.log(`[sms] To: ${message.to}\n${message.body}`);
+  }
+}
+
+function createSmsSender(): SmsSender {
+  switch (process.env.SMS_DRIVER) {
+    case "twilio": {
+      const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM } = process.env;
+      if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN || !TWILIO_FROM) {
+        throw new Error("Missing required SMS settings: TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM");
+      }
+      return new TwilioSmsSender(TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM);
+    }
+    case "fake":
+      return new FakeSmsSender();
+    default:
+      return new ConsoleSmsSender();
+  }
+}
+
+export const smsSender: SmsSender = createSmsSender();
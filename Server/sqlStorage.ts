@@ -0,0 +1,765 @@
+import { eq, ne, and, or, like, asc, desc, gte, lte, inArray, isNull, sql } from "drizzle-orm";
+import { normalizeEmail, User, InsertUser, UpdateUser, RefreshToken, InsertRefreshToken, UserToken, InsertUserToken, PhoneOtp, InsertPhoneOtp, Address, InsertAddress, UpdateAddress, Restaurant, InsertRestaurant, UpdateRestaurant, FoodItem, InsertFoodItem, UpdateFoodItem, Order, InsertOrder, OrderActor, OrderRefund, OrderStatusEvent, Checkout, InsertCheckout, CartItem, InsertCartItem, InsertWebhookEvent, IdempotencyKey, InsertIdempotencyKey, Coupon, InsertCoupon, MAX_CART_ITEM_QUANTITY } from "@shared/schema";
+import { assertTransition } from "@shared/orderStatus";
+import { optionsKey } from "@shared/menuOptions";
+import type { IStorage, PaymentDetails, OrderStatusUpdates, IdempotencyKeyId } from "./storage";
+import type { Database } from "./db";
+import { publishOrderUpdate } from "./orderEvents";
+import { type CartOwner, assertCartItemOwner, assertCartQuantity } from "./cart";
+import { assertCouponUsesLeft, assertFirstOrder } from "./coupons";
+import { users, refreshTokens, userTokens, phoneOtps, addresses, restaurants, restaurantOwners, foodItems, orders, orderStatusEvents, checkouts, cartItems, webhookEvents, idempotencyKeys, coupons } from "./dbSchema";
+
+// Row mappers: nullable columns come back as null, the zod types expect undefined
+function toUser(row: typeof users.$inferSelect): User {
+  return {
+    ...row,
+    email: row.email ?? undefined,
+    password: row.password ?? undefined,
+    phone: row.phone ?? undefined,
+    address: row.address ?? undefined,
+    stripeCustomerId: row.stripeCustomerId ?? undefined,
+    stripeSubscriptionId: row.stripeSubscriptionId ?? undefined,
+  };
+}
+
+function toRefreshToken(row: typeof refreshTokens.$inferSelect): RefreshToken {
+  return { ...row, revokedAt: row.revokedAt ?? undefined, replacedById: row.replacedById ?? undefined };
+}
+
+function toUserToken(row: typeof userTokens.$inferSelect): UserToken {
+  return { ...row, usedAt: row.usedAt ?? undefined };
+}
+
+function toPhoneOtp(row: typeof phoneOtps.$inferSelect): PhoneOtp {
+  return { ...row, consumedAt: row.consumedAt ?? undefined };
+}
+
+function toCartItem(row: typeof cartItems.$inferSelect): CartItem {
+  return { ...row, userId: row.userId ?? undefined, guestCartId: row.guestCartId ?? undefined };
+}
+
+function toAddress(row: typeof addresses.$inferSelect): Address {
+  return { ...row, landmark: row.landmark ?? undefined };
+}
+
+function toRestaurant(row: typeof restaurants.$inferSelect): Restaurant {
+  return { ...row, pincode: row.pincode ?? undefined };
+}
+
+function toFoodItem(row: typeof foodItems.$inferSelect): FoodItem {
+  return { ...row, ingredients: row.ingredients ?? undefined };
+}
+
+function toOrder(row: typeof orders.$inferSelect): Order {
+  return {
+    ...row,
+    // Orders placed before item options existed have none stored
+    items: row.items.map(item => ({ ...item, options: item.options ?? [] })),
+    checkoutId: row.checkoutId ?? undefined,
+    estimatedDeliveryAt: row.estimatedDeliveryAt ?? undefined,
+    scheduledFor: row.scheduledFor ?? undefined,
+    releaseAt: row.releaseAt ?? undefined,
+    paymentMethod: row.paymentMethod ?? undefined,
+    paymentId: row.paymentId ?? undefined,
+    couponId: row.couponId ?? undefined,
+    couponCode: row.couponCode ?? undefined,
+    priceBreakdown: row.priceBreakdown ?? undefined,
+    refunds: row.refunds.map(refund => ({ ...refund, createdAt: new Date(refund.createdAt) })),
+    cancellationReason: row.cancellationReason ?? undefined,
+    specialInstructions: row.specialInstructions ?? undefined,
+  };
+}
+
+function toOrderStatusEvent(row: typeof orderStatusEvents.$inferSelect): OrderStatusEvent {
+  return {
+    id: row.id,
+    orderId: row.orderId,
+    fromStatus: row.fromStatus ?? undefined,
+    toStatus: row.toStatus,
+    actor: { type: row.actorType, id: row.actorId ?? undefined },
+    createdAt: row.createdAt,
+  };
+}
+
+function toCoupon(row: typeof coupons.$inferSelect): Coupon {
+  return {
+    ...row,
+    maxDiscount: row.maxDiscount ?? undefined,
+    restaurantId: row.restaurantId ?? undefined,
+    usageLimitPerUser: row.usageLimitPerUser ?? undefined,
+    validFrom: row.validFrom ?? undefined,
+    validUntil: row.validUntil ?? undefined,
+  };
+}
+
+function toIdempotencyKey(row: typeof idempotencyKeys.$inferSelect): IdempotencyKey {
+  return { ...row, statusCode: row.statusCode ?? undefined, responseBody: row.responseBody ?? undefined };
+}
+
+function matchesIdempotencyKey({ userId, endpoint, key }: IdempotencyKeyId) {
+  return and(eq(idempotencyKeys.userId, userId), eq(idempotencyKeys.endpoint, endpoint), eq(idempotencyKeys.key, key));
+}
+
+function toCheckout(row: typeof checkouts.$inferSelect, orderIds: string[]): Checkout {
+  return { ...row, orderIds, paymentMethod: row.paymentMethod ?? undefined, paymentId: row.paymentId ?? undefined };
+}
+
+// SQL-backed storage implementation (SQLite via drizzle-orm)
+export class SqlStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  private generateId(): string {
+    return Math.random().toString(36).substring(2) + Date.now().toString(36);
+  }
+
+  // User operations
+  async createUser(user: InsertUser): Promise<User> {
+    const [row] = await this.db.insert(users).values({
+      ...user,
+      id: this.generateId(),
+      createdAt: new Date(),
+    }).returning();
+    return toUser(row);
+  }
+
+  async getUserById(id: string): Promise<User | null> {
+    const row = await this.db.query.users.findFirst({ where: eq(users.id, id) });
+    return row ? toUser(row) : null;
+  }
+
+  async getUserByPhone(phone: string): Promise<User | null> {
+    const row = await this.db.query.users.findFirst({ where: eq(users.phone, phone) });
+    return row ? toUser(row) : null;
+  }
+
+  async getUserByEmail(email: string): Promise<User | null> {
+    // Accounts from before emails were lowercased may still have capitals
+    const row = await this.db.query.users.findFirst({ where: sql`lower(${users.email}) = ${normalizeEmail(email)}` });
+    return row ? toUser(row) : null;
+  }
+
+  async updateStripeCustomerId(userId: string, stripeCustomerId: string): Promise<User> {
+    const [row] = await this.db.update(users).set({ stripeCustomerId }).where(eq(users.id, userId)).returning();
+    if (!row) throw new Error("User not found");
+    return toUser(row);
+  }
+
+  async updateUserStripeInfo(userId: string, stripeInfo: { stripeCustomerId: string; stripeSubscriptionId: string }): Promise<User> {
+    const [row] = await this.db.update(users).set(stripeInfo).where(eq(users.id, userId)).returning();
+    if (!row) throw new Error("User not found");
+    return toUser(row);
+  }
+
+  async updateUser(userId: string, updates: UpdateUser): Promise<User> {
+    const [row] = await this.db.update(users).set(updates).where(eq(users.id, userId)).returning();
+    if (!row) throw new Error("User not found");
+    return toUser(row);
+  }
+
+  // Refresh token operations
+  async createRefreshToken(refreshToken: InsertRefreshToken): Promise<RefreshToken> {
+    const [row] = await this.db.insert(refreshTokens).values({
+      ...refreshToken,
+      id: this.generateId(),
+      createdAt: new Date(),
+    }).returning();
+    return toRefreshToken(row);
+  }
+
+  async getRefreshTokenByHash(tokenHash: string): Promise<RefreshToken | null> {
+    const row = await this.db.query.refreshTokens.findFirst({ where: eq(refreshTokens.tokenHash, tokenHash) });
+    return row ? toRefreshToken(row) : null;
+  }
+
+  async revokeRefreshToken(id: string, replacedById?: string): Promise<void> {
+    await this.db.update(refreshTokens)
+      .set({ revokedAt: new Date(), replacedById })
+      .where(and(eq(refreshTokens.id, id), isNull(refreshTokens.revokedAt)));
+  }
+
+  async revokeRefreshTokensByUser(userId: string): Promise<void> {
+    await this.db.update(refreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(refreshTokens.userId, userId), isNull(refreshTokens.revokedAt)));
+  }
+
+  // Emailed single-use token operations
+  async createUserToken(userToken: InsertUserToken): Promise<UserToken> {
+    const [row] = await this.db.insert(userTokens).values({
+      ...userToken,
+      id: this.generateId(),
+      createdAt: new Date(),
+    }).returning();
+    return toUserToken(row);
+  }
+
+  async getUserTokenByHash(tokenHash: string): Promise<UserToken | null> {
+    const row = await this.db.query.userTokens.findFirst({ where: eq(userTokens.tokenHash, tokenHash) });
+    return row ? toUserToken(row) : null;
+  }
+
+  async consumeUserToken(id: string): Promise<boolean> {
+    const rows = await this.db.update(userTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(userTokens.id, id), isNull(userTokens.usedAt)))
+      .returning();
+    return rows.length > 0;
+  }
+
+  // Phone login code operations
+  async createPhoneOtp(phoneOtp: InsertPhoneOtp): Promise<PhoneOtp> {
+    const [row] = await this.db.insert(phoneOtps).values({
+      ...phoneOtp,
+      id: this.generateId(),
+      attempts: 0,
+      createdAt: new Date(),
+    }).returning();
+    return toPhoneOtp(row);
+  }
+
+  async getPhoneOtpsSince(phone: string, since: Date): Promise<PhoneOtp[]> {
+    const rows = await this.db.select().from(phoneOtps)
+      .where(and(eq(phoneOtps.phone, phone), gte(phoneOtps.createdAt, since)))
+      .orderBy(desc(phoneOtps.createdAt));
+    return rows.map(toPhoneOtp);
+  }
+
+  async incrementPhoneOtpAttempts(id: string): Promise<number> {
+    const [row] = await this.db.update(phoneOtps)
+      .set({ attempts: sql`${phoneOtps.attempts} + 1` })
+      .where(eq(phoneOtps.id, id))
+      .returning();
+    if (!row) throw new Error("Phone OTP not found");
+    return row.attempts;
+  }
+
+  async consumePhoneOtp(id: string): Promise<boolean> {
+    const rows = await this.db.update(phoneOtps)
+      .set({ consumedAt: new Date() })
+      .where(and(eq(phoneOtps.id, id), isNull(phoneOtps.consumedAt)))
+      .returning();
+    return rows.length > 0;
+  }
+
+  // Address book operations
+  // A user has at most one default address; their first address becomes the default
+  async createAddress(address: InsertAddress): Promise<Address> {
+    const row = await this.db.transaction(async (tx) => {
+      const existing = await tx.query.addresses.findFirst({ where: eq(addresses.userId, address.userId) });
+      const isDefault = address.isDefault || !existing;
+      if (isDefault) {
+        await tx.update(addresses).set({ isDefault: false }).where(eq(addresses.userId, address.userId));
+      }
+      const [inserted] = await tx.insert(addresses).values({
+        ...address,
+        isDefault,
+        id: this.generateId(),
+        createdAt: new Date(),
+      }).returning();
+      return inserted;
+    });
+    return toAddress(row);
+  }
+
+  async getAddressesByUser(userId: string): Promise<Address[]> {
+    const rows = await this.db.select().from(addresses)
+      .where(eq(addresses.userId, userId))
+      .orderBy(desc(addresses.isDefault), asc(addresses.createdAt));
+    return rows.map(toAddress);
+  }
+
+  async getAddressById(id: string): Promise<Address | null> {
+    const row = await this.db.query.addresses.findFirst({ where: eq(addresses.id, id) });
+    return row ? toAddress(row) : null;
+  }
+
+  async updateAddress(id: string, updates: UpdateAddress): Promise<Address> {
+    const row = await this.db.transaction(async (tx) => {
+      const address = await tx.query.addresses.findFirst({ where: eq(addresses.id, id) });
+      if (!address) throw new Error("Address not found");
+
+      if (updates.isDefault) {
+        await tx.update(addresses).set({ isDefault: false }).where(eq(addresses.userId, address.userId));
+      }
+      const [updated] = await tx.update(addresses).set(updates).where(eq(addresses.id, id)).returning();
+      return updated;
+    });
+    return toAddress(row);
+  }
+
+  async deleteAddress(id: string): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(addresses).where(eq(addresses.id, id)).returning();
+      if (!deleted?.isDefault) return;
+
+      const next = await tx.query.addresses.findFirst({
+        where: eq(addresses.userId, deleted.userId),
+        orderBy: asc(addresses.createdAt),
+      });
+      if (next) {
+        await tx.update(addresses).set({ isDefault: true }).where(eq(addresses.id, next.id));
+      }
+    });
+  }
+
+  // Restaurant operations
+  async createRestaurant(restaurant: InsertRestaurant): Promise<Restaurant> {
+    const [row] = await this.db.insert(restaurants).values({
+      ...restaurant,
+      id: this.generateId(),
+      createdAt: new Date(),
+    }).returning();
+    return toRestaurant(row);
+  }
+
+  async getAllRestaurants(): Promise<Restaurant[]> {
+    const rows = await this.db.select().from(restaurants);
+    return rows.map(toRestaurant);
+  }
+
+  async getRestaurantById(id: string): Promise<Restaurant | null> {
+    const row = await this.db.query.restaurants.findFirst({ where: eq(restaurants.id, id) });
+    return row ? toRestaurant(row) : null;
+  }
+
+  async getRestaurantsByCuisine(cuisine: string): Promise<Restaurant[]> {
+    const rows = await this.db.select().from(restaurants)
+      .where(sql`lower(${restaurants.cuisine}) like ${"%" + cuisine.toLowerCase() + "%"}`);
+    return rows.map(toRestaurant);
+  }
+
+  async updateRestaurant(id: string, updates: UpdateRestaurant): Promise<Restaurant> {
+    const [row] = await this.db.update(restaurants).set(updates).where(eq(restaurants.id, id)).returning();
+    if (!row) throw new Error("Restaurant not found");
+    return toRestaurant(row);
+  }
+
+  // Restaurant owner operations
+  async addRestaurantOwner(restaurantId: string, userId: string): Promise<void> {
+    await this.db.insert(restaurantOwners)
+      .values({ restaurantId, userId, createdAt: new Date() })
+      .onConflictDoNothing();
+  }
+
+  async getRestaurantsByOwner(userId: string): Promise<Restaurant[]> {
+    const rows = await this.db.select({ restaurant: restaurants })
+      .from(restaurantOwners)
+      .innerJoin(restaurants, eq(restaurantOwners.restaurantId, restaurants.id))
+      .where(eq(restaurantOwners.userId, userId));
+    return rows.map(row => toRestaurant(row.restaurant));
+  }
+
+  async isRestaurantOwner(userId: string, restaurantId: string): Promise<boolean> {
+    const row = await this.db.query.restaurantOwners.findFirst({
+      where: and(eq(restaurantOwners.userId, userId), eq(restaurantOwners.restaurantId, restaurantId)),
+    });
+    return !!row;
+  }
+
+  // Food item operations
+  async createFoodItem(foodItem: InsertFoodItem): Promise<FoodItem> {
+    const [row] = await this.db.insert(foodItems).values({
+      ...foodItem,
+      id: this.generateId(),
+      createdAt: new Date(),
+    }).returning();
+    return toFoodItem(row);
+  }
+
+  async getFoodItemsByRestaurant(restaurantId: string, includeArchived = false): Promise<FoodItem[]> {
+    const rows = await this.db.select().from(foodItems).where(and(
+      eq(foodItems.restaurantId, restaurantId),
+      includeArchived ? undefined : eq(foodItems.isArchived, false),
+    ));
+    return rows.map(toFoodItem);
+  }
+
+  async updateFoodItem(id: string, updates: UpdateFoodItem): Promise<FoodItem> {
+    const [row] = await this.db.update(foodItems).set(updates).where(eq(foodItems.id, id)).returning();
+    if (!row) throw new Error("Food item not found");
+    return toFoodItem(row);
+  }
+
+  async getFoodItemById(id: string): Promise<FoodItem | null> {
+    const row = await this.db.query.foodItems.findFirst({ where: eq(foodItems.id, id) });
+    return row ? toFoodItem(row) : null;
+  }
+
+  async getFoodItemsByCategory(category: string): Promise<FoodItem[]> {
+    const rows = await this.db.select().from(foodItems)
+      .where(and(
+        eq(foodItems.isArchived, false),
+        sql`lower(${foodItems.category}) = ${category.toLowerCase()}`,
+      ));
+    return rows.map(toFoodItem);
+  }
+
+  async searchFoodItems(query: string): Promise<FoodItem[]> {
+    // SQLite's LIKE is case-insensitive for ASCII, matching MemStorage's toLowerCase() search
+    const pattern = `%${query}%`;
+    const rows = await this.db.select().from(foodItems).where(and(
+      eq(foodItems.isArchived, false),
+      or(
+        like(foodItems.name, pattern),
+        like(foodItems.description, pattern),
+        like(foodItems.category, pattern),
+      ),
+    ));
+    return rows.map(toFoodItem);
+  }
+
+  // Order operations
+  async createOrder(order: InsertOrder): Promise<Order> {
+    const newOrder = await this.db.transaction(async (tx) => {
+      await this.checkCouponUses(tx, [order]);
+      const [row] = await tx.insert(orders).values({
+        ...order,
+        id: this.generateId(),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      }).returning();
+      await tx.insert(orderStatusEvents).values(this.initialStatusEvent(row));
+      return toOrder(row);
+    });
+    publishOrderUpdate(newOrder);
+    return newOrder;
+  }
+
+  async getOrderById(id: string): Promise<Order | null> {
+    const row = await this.db.query.orders.findFirst({ where: eq(orders.id, id) });
+    return row ? toOrder(row) : null;
+  }
+
+  async getOrdersByUser(userId: string): Promise<Order[]> {
+    const rows = await this.db.select().from(orders)
+      .where(eq(orders.userId, userId))
+      .orderBy(desc(orders.createdAt));
+    return rows.map(toOrder);
+  }
+
+  async getOrdersByRestaurant(restaurantId: string, statuses?: Order["status"][]): Promise<Order[]> {
+    const rows = await this.db.select().from(orders)
+      .where(and(
+        eq(orders.restaurantId, restaurantId),
+        statuses ? inArray(orders.status, statuses) : undefined,
+      ))
+      .orderBy(asc(orders.createdAt));
+    return rows.map(toOrder);
+  }
+
+  async getScheduledOrdersDue(now: Date): Promise<Order[]> {
+    const rows = await this.db.select().from(orders)
+      .where(and(eq(orders.status, "scheduled"), lte(orders.releaseAt, now)))
+      .orderBy(asc(orders.releaseAt));
+    return rows.map(toOrder);
+  }
+
+  async getOrdersByPaymentId(paymentId: string): Promise<Order[]> {
+    const rows = await this.db.select().from(orders).where(eq(orders.paymentId, paymentId));
+    return rows.map(toOrder);
+  }
+
+  async updateOrderStatus(orderId: string, status: Order["status"], actor: OrderActor, updates: OrderStatusUpdates = {}): Promise<Order> {
+    const updatedOrder = await this.db.transaction(async (tx) => {
+      const order = await tx.query.orders.findFirst({ where: eq(orders.id, orderId) });
+      if (!order) throw new Error("Order not found");
+      assertTransition(order.status, status);
+
+      const [row] = await tx.update(orders)
+        .set({ status, ...updates, updatedAt: new Date() })
+        .where(eq(orders.id, orderId))
+        .returning();
+      await tx.insert(orderStatusEvents).values({
+        id: this.generateId(),
+        orderId,
+        fromStatus: order.status,
+        toStatus: status,
+        actorType: actor.type,
+        actorId: actor.id,
+        createdAt: new Date(),
+      });
+      return toOrder(row);
+    });
+    publishOrderUpdate(updatedOrder);
+    return updatedOrder;
+  }
+
+  async updatePaymentStatus(orderId: string, paymentStatus: Order["paymentStatus"], payment: PaymentDetails = {}): Promise<Order> {
+    const [row] = await this.db.update(orders)
+      .set({
+        paymentStatus,
+        ...(payment.paymentMethod && { paymentMethod: payment.paymentMethod }),
+        ...(payment.paymentId && { paymentId: payment.paymentId }),
+        updatedAt: new Date(),
+      })
+      .where(eq(orders.id, orderId))
+      .returning();
+    if (!row) throw new Error("Order not found");
+    const updatedOrder = toOrder(row);
+    publishOrderUpdate(updatedOrder);
+    return updatedOrder;
+  }
+
+  async addRefund(orderId: string, refund: OrderRefund, paymentStatus: Order["paymentStatus"]): Promise<Order> {
+    const updatedOrder = await this.db.transaction(async (tx) => {
+      const order = await tx.query.orders.findFirst({ where: eq(orders.id, orderId) });
+      if (!order) throw new Error("Order not found");
+
+      const [row] = await tx.update(orders)
+        .set({
+          refunds: [...order.refunds, { ...refund, createdAt: refund.createdAt.toISOString() }],
+          paymentStatus,
+          updatedAt: new Date(),
+        })
+        .where(eq(orders.id, orderId))
+        .returning();
+      return toOrder(row);
+    });
+    publishOrderUpdate(updatedOrder);
+    return updatedOrder;
+  }
+
+  async getOrderStatusEvents(orderId: string): Promise<OrderStatusEvent[]> {
+    const rows = await this.db.select().from(orderStatusEvents)
+      .where(eq(orderStatusEvents.orderId, orderId))
+      .orderBy(asc(orderStatusEvents.createdAt));
+    return rows.map(toOrderStatusEvent);
+  }
+
+  private initialStatusEvent(order: typeof orders.$inferSelect): typeof orderStatusEvents.$inferInsert {
+    return {
+      id: this.generateId(),
+      orderId: order.id,
+      toStatus: order.status,
+      actorType: "customer",
+      actorId: order.userId,
+      createdAt: order.createdAt,
+    };
+  }
+
+  // Checkout operations
+  async createCheckout(checkout: InsertCheckout, orderData: InsertOrder[]): Promise<{ checkout: Checkout; orders: Order[] }> {
+    const result = await this.db.transaction(async (tx) => {
+      await this.checkCouponUses(tx, orderData);
+      const now = new Date();
+      const [checkoutRow] = await tx.insert(checkouts).values({
+        ...checkout,
+        id: this.generateId(),
+        createdAt: now,
+        updatedAt: now,
+      }).returning();
+
+      const orderRows = await tx.insert(orders).values(orderData.map(order => ({
+        ...order,
+        id: this.generateId(),
+        checkoutId: checkoutRow.id,
+        createdAt: now,
+        updatedAt: now,
+      }))).returning();
+      await tx.insert(orderStatusEvents).values(orderRows.map(row => this.initialStatusEvent(row)));
+
+      return {
+        checkout: toCheckout(checkoutRow, orderRows.map(row => row.id)),
+        orders: orderRows.map(toOrder),
+      };
+    });
+    result.orders.forEach(publishOrderUpdate);
+    return result;
+  }
+
+  async getCheckoutById(id: string): Promise<Checkout | null> {
+    const row = await this.db.query.checkouts.findFirst({ where: eq(checkouts.id, id) });
+    if (!row) return null;
+    return toCheckout(row, await this.getCheckoutOrderIds(id));
+  }
+
+  async updateCheckoutPaymentStatus(checkoutId: string, paymentStatus: Checkout["paymentStatus"], payment: PaymentDetails = {}): Promise<Checkout> {
+    const [row] = await this.db.update(checkouts)
+      .set({
+        paymentStatus,
+        ...(payment.paymentMethod && { paymentMethod: payment.paymentMethod }),
+        ...(payment.paymentId && { paymentId: payment.paymentId }),
+        updatedAt: new Date(),
+      })
+      .where(eq(checkouts.id, checkoutId))
+      .returning();
+    if (!row) throw new Error("Checkout not found");
+    return toCheckout(row, await this.getCheckoutOrderIds(checkoutId));
+  }
+
+  private async getCheckoutOrderIds(checkoutId: string): Promise<string[]> {
+    const rows = await this.db.select({ id: orders.id }).from(orders).where(eq(orders.checkoutId, checkoutId));
+    return rows.map(row => row.id);
+  }
+
+  // Coupon operations
+  async createCoupon(coupon: InsertCoupon): Promise<Coupon> {
+    if (await this.getCouponByCode(coupon.code)) {
+      throw new Error("Coupon code already exists");
+    }
+    const [row] = await this.db.insert(coupons).values({
+      ...coupon,
+      id: this.generateId(),
+      code: coupon.code.toUpperCase(),
+      createdAt: new Date(),
+    }).returning();
+    return toCoupon(row);
+  }
+
+  async getCouponByCode(code: string): Promise<Coupon | null> {
+    const row = await this.db.query.coupons.findFirst({ where: eq(coupons.code, code.toUpperCase()) });
+    return row ? toCoupon(row) : null;
+  }
+
+  async countCouponRedemptions(couponId: string, userId: string, db: Pick<Database, "select"> = this.db): Promise<number> {
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(distinct coalesce(${orders.checkoutId}, ${orders.id}))` })
+      .from(orders)
+      .where(and(eq(orders.couponId, couponId), eq(orders.userId, userId), ne(orders.status, "cancelled")));
+    return count;
+  }
+
+  // Counted in the transaction that adds the orders, which holds SQLite's write lock,
+  // so a concurrent order with the same coupon waits until these are in
+  private async checkCouponUses(tx: Pick<Database, "select" | "query">, orderData: InsertOrder[]): Promise<void> {
+    const order = orderData.find(order => order.couponId);
+    if (!order?.couponId) return;
+    const row = await tx.query.coupons.findFirst({ where: eq(coupons.id, order.couponId) });
+    if (!row) return;
+
+    const coupon = toCoupon(row);
+    if (coupon.firstOrderOnly) {
+      const earlierOrder = await tx.query.orders.findFirst({
+        where: and(eq(orders.userId, order.userId), ne(orders.status, "cancelled")),
+        columns: { id: true },
+      });
+      assertFirstOrder(coupon, !!earlierOrder);
+    }
+    assertCouponUsesLeft(coupon, await this.countCouponRedemptions(row.id, order.userId, tx));
+  }
+
+  // Cart operations
+  async addToCart(cartItem: InsertCartItem): Promise<CartItem> {
+    // Check if item already exists in cart with the same options
+    const sameFoodItems = await this.db.select().from(cartItems).where(and(
+      cartItem.userId ? eq(cartItems.userId, cartItem.userId) : isNull(cartItems.userId),
+      cartItem.guestCartId ? eq(cartItems.guestCartId, cartItem.guestCartId) : isNull(cartItems.guestCartId),
+      eq(cartItems.foodItemId, cartItem.foodItemId),
+    ));
+    const existingItem = sameFoodItems.find(item => optionsKey(item.options) === optionsKey(cartItem.options));
+
+    const quantity = (existingItem?.quantity ?? 0) + cartItem.quantity;
+    assertCartQuantity(quantity);
+
+    if (existingItem) {
+      const [row] = await this.db.update(cartItems).set({ quantity }).where(eq(cartItems.id, existingItem.id)).returning();
+      return toCartItem(row);
+    }
+
+    const [row] = await this.db.insert(cartItems).values({
+      ...cartItem,
+      id: this.generateId(),
+      createdAt: new Date(),
+    }).returning();
+    return toCartItem(row);
+  }
+
+  async getCartItemById(id: string): Promise<CartItem | null> {
+    const row = await this.db.query.cartItems.findFirst({ where: eq(cartItems.id, id) });
+    return row ? toCartItem(row) : null;
+  }
+
+  async getCartByUser(userId: string): Promise<CartItem[]> {
+    const rows = await this.db.select().from(cartItems).where(eq(cartItems.userId, userId));
+    return rows.map(toCartItem);
+  }
+
+  async getGuestCart(guestCartId: string): Promise<CartItem[]> {
+    const rows = await this.db.select().from(cartItems).where(eq(cartItems.guestCartId, guestCartId));
+    return rows.map(toCartItem);
+  }
+
+  async updateCartItemQuantity(cartItemId: string, quantity: number, owner: CartOwner): Promise<CartItem> {
+    assertCartItemOwner(await this.getCartItemById(cartItemId), owner);
+    assertCartQuantity(quantity);
+
+    const [row] = await this.db.update(cartItems).set({ quantity }).where(eq(cartItems.id, cartItemId)).returning();
+    return toCartItem(row);
+  }
+
+  async removeFromCart(cartItemId: string, owner: CartOwner): Promise<void> {
+    assertCartItemOwner(await this.getCartItemById(cartItemId), owner);
+    await this.db.delete(cartItems).where(eq(cartItems.id, cartItemId));
+  }
+
+  async clearCart(userId: string): Promise<void> {
+    await this.db.delete(cartItems).where(eq(cartItems.userId, userId));
+  }
+
+  async removeCartItems(userId: string, cartItemIds: string[]): Promise<void> {
+    if (cartItemIds.length === 0) return;
+    await this.db.delete(cartItems).where(and(eq(cartItems.userId, userId), inArray(cartItems.id, cartItemIds)));
+  }
+
+  async clearGuestCart(guestCartId: string): Promise<void> {
+    await this.db.delete(cartItems).where(eq(cartItems.guestCartId, guestCartId));
+  }
+
+  // Guest lines matching a line already in the user's cart add to its quantity
+  async mergeGuestCart(guestCartId: string, userId: string): Promise<CartItem[]> {
+    await this.db.transaction(async (tx) => {
+      const guestItems = await tx.select().from(cartItems).where(eq(cartItems.guestCartId, guestCartId));
+      for (const item of guestItems) {
+        const sameFoodItems = await tx.select().from(cartItems).where(
+          and(eq(cartItems.userId, userId), eq(cartItems.foodItemId, item.foodItemId))
+        );
+        const existingItem = sameFoodItems.find(userItem => optionsKey(userItem.options) === optionsKey(item.options));
+        if (existingItem) {
+          const quantity = Math.min(existingItem.quantity + item.quantity, MAX_CART_ITEM_QUANTITY);
+          await tx.update(cartItems).set({ quantity }).where(eq(cartItems.id, existingItem.id));
+          await tx.delete(cartItems).where(eq(cartItems.id, item.id));
+        } else {
+          await tx.update(cartItems).set({ userId, guestCartId: null }).where(eq(cartItems.id, item.id));
+        }
+      }
+    });
+    return this.getCartByUser(userId);
+  }
+
+  // Processed webhook event operations
+  async hasProcessedWebhookEvent(id: string): Promise<boolean> {
+    const row = await this.db.query.webhookEvents.findFirst({ where: eq(webhookEvents.id, id) });
+    return !!row;
+  }
+
+  async recordWebhookEvent(event: InsertWebhookEvent): Promise<void> {
+    await this.db.insert(webhookEvents).values({ ...event, processedAt: new Date() }).onConflictDoNothing();
+  }
+
+  // Idempotency key operations
+  async claimIdempotencyKey(record: InsertIdempotencyKey): Promise<IdempotencyKey | null> {
+    return this.db.transaction(async (tx) => {
+      const now = new Date();
+      await tx.delete(idempotencyKeys).where(and(matchesIdempotencyKey(record), lte(idempotencyKeys.expiresAt, now)));
+      // Of two requests racing for a key, only one insert goes through
+      const [claimed] = await tx.insert(idempotencyKeys).values({ ...record, createdAt: now }).onConflictDoNothing().returning();
+      if (claimed) return null;
+
+      const existing = await tx.query.idempotencyKeys.findFirst({ where: matchesIdempotencyKey(record) });
+      return existing ? toIdempotencyKey(existing) : null;
+    });
+  }
+
+  async saveIdempotentResponse(id: IdempotencyKeyId, statusCode: number, responseBody: unknown): Promise<void> {
+    await this.db.update(idempotencyKeys).set({ statusCode, responseBody }).where(matchesIdempotencyKey(id));
+  }
+
+  async releaseIdempotencyKey(id: IdempotencyKeyId): Promise<void> {
+    await this.db.delete(idempotencyKeys).where(matchesIdempotencyKey(id));
+  }
+
+  async deleteExpiredIdempotencyKeys(now: Date): Promise<number> {
+    const rows = await this.db.delete(idempotencyKeys).where(lte(idempotencyKeys.expiresAt, now)).returning();
+    return rows.length;
+  }
+}
@@ -1,4 +1,21 @@
-import { User, InsertUser, Restaurant, InsertRestaurant, FoodItem, InsertFoodItem, Order, InsertOrder, CartItem, InsertCartItem } from "@shared/schema";
+import { normalizeEmail, User, InsertUser, UpdateUser, RefreshToken, InsertRefreshToken, UserToken, InsertUserToken, PhoneOtp, InsertPhoneOtp, Address, InsertAddress, UpdateAddress, Restaurant, InsertRestaurant, UpdateRestaurant, FoodItem, InsertFoodItem, UpdateFoodItem, Order, InsertOrder, OrderActor, OrderRefund, OrderStatusEvent, Checkout, InsertCheckout, CartItem, InsertCartItem, WebhookEvent, InsertWebhookEvent, IdempotencyKey, InsertIdempotencyKey, Coupon, InsertCoupon, MAX_CART_ITEM_QUANTITY } from "@shared/schema";
+import { assertTransition } from "@shared/orderStatus";
+import { optionsKey } from "@shared/menuOptions";
+import { type CartOwner, assertCartItemOwner, assertCartQuantity } from "./cart";
+import { assertCouponUsesLeft, assertFirstOrder } from "./coupons";
+import { publishOrderUpdate } from "./orderEvents";
+import { SqlStorage } from "./sqlStorage";
+import { createDatabase, runMigrations } from "./db";
+import { seedDatabase } from "./seed";
+
+// How an order or checkout is being paid; fields left out keep their stored value
+export type PaymentDetails = Pick<Order, "paymentMethod" | "paymentId">;
+
+// Identifies a stored idempotency key: keys are scoped to the user and the endpoint
+export type IdempotencyKeyId = Pick<IdempotencyKey, "userId" | "endpoint" | "key">;
+
+// Saved along with a status change: a fresh delivery estimate, or why the order was cancelled
+export type OrderStatusUpdates = Partial<Pick<Order, "estimatedDeliveryAt" | "estimatedDeliveryTime" | "cancellationReason">>;
 
 // Storage interface for all CRUD operations
 export interface IStorage {
@@ -6,48 +23,118 @@ export interface IStorage {
   createUser(user: InsertUser): Promise<User>;
   getUserById(id: string): Promise<User | null>;
   getUserByEmail(email: string): Promise<User | null>;
+  getUserByPhone(phone: string): Promise<User | null>;
   updateStripeCustomerId(userId: string, stripeCustomerId: string): Promise<User>;
   updateUserStripeInfo(userId: string, stripeInfo: { stripeCustomerId: string; stripeSubscriptionId: string }): Promise<User>;
+  updateUser(userId: string, updates: UpdateUser): Promise<User>;
+  
+  // Refresh token operations
+  createRefreshToken(refreshToken: InsertRefreshToken): Promise<RefreshToken>;
+  getRefreshTokenByHash(tokenHash: string): Promise<RefreshToken | null>;
+  revokeRefreshToken(id: string, replacedById?: string): Promise<void>;
+  revokeRefreshTokensByUser(userId: string): Promise<void>;
+  
+  // Emailed single-use token operations
+  createUserToken(userToken: InsertUserToken): Promise<UserToken>;
+  getUserTokenByHash(tokenHash: string): Promise<UserToken | null>;
+  consumeUserToken(id: string): Promise<boolean>; // false if it was already used
+  
+  // Phone login code operations
+  createPhoneOtp(phoneOtp: InsertPhoneOtp): Promise<PhoneOtp>;
+  getPhoneOtpsSince(phone: string, since: Date): Promise<PhoneOtp[]>; // newest first
+  incrementPhoneOtpAttempts(id: string): Promise<number>; // returns the new count
+  consumePhoneOtp(id: string): Promise<boolean>; // false if it was already used
+  
+  // Address book operations
+  createAddress(address: InsertAddress): Promise<Address>;
+  getAddressesByUser(userId: string): Promise<Address[]>;
+  getAddressById(id: string): Promise<Address | null>;
+  updateAddress(id: string, updates: UpdateAddress): Promise<Address>;
+  deleteAddress(id: string): Promise<void>;
   
   // Restaurant operations
   createRestaurant(restaurant: InsertRestaurant): Promise<Restaurant>;
   getAllRestaurants(): Promise<Restaurant[]>;
   getRestaurantById(id: string): Promise<Restaurant | null>;
   getRestaurantsByCuisine(cuisine: string): Promise<Restaurant[]>;
+  updateRestaurant(id: string, updates: UpdateRestaurant): Promise<Restaurant>;
+  
+  // Restaurant owner operations
+  addRestaurantOwner(restaurantId: string, userId: string): Promise<void>;
+  getRestaurantsByOwner(userId: string): Promise<Restaurant[]>;
+  isRestaurantOwner(userId: string, restaurantId: string): Promise<boolean>;
   
   // Food item operations
   createFoodItem(foodItem: InsertFoodItem): Promise<FoodItem>;
-  getFoodItemsByRestaurant(restaurantId: string): Promise<FoodItem[]>;
+  getFoodItemsByRestaurant(restaurantId: string, includeArchived?: boolean): Promise<FoodItem[]>;
+  updateFoodItem(id: string, updates: UpdateFoodItem): Promise<FoodItem>;
   getFoodItemById(id: string): Promise<FoodItem | null>;
   getFoodItemsByCategory(category: string): Promise<FoodItem[]>;
   searchFoodItems(query: string): Promise<FoodItem[]>;
   
   // Order operations
-  createOrder(order: InsertOrder): Promise<Order>;
+  createOrder(order: InsertOrder): Promise<Order>; // throws a CouponError once the customer has no uses of the coupon left
   getOrderById(id: string): Promise<Order | null>;
   getOrdersByUser(userId: string): Promise<Order[]>;
-  updateOrderStatus(orderId: string, status: Order["status"]): Promise<Order>;
-  updatePaymentStatus(orderId: string, paymentStatus: Order["paymentStatus"], paymentIntentId?: string): Promise<Order>;
+  getOrdersByRestaurant(restaurantId: string, statuses?: Order["status"][]): Promise<Order[]>;
+  getScheduledOrdersDue(now: Date): Promise<Order[]>; // scheduled pre-orders whose releaseAt has passed
+  getOrdersByPaymentId(paymentId: string): Promise<Order[]>;
+  updateOrderStatus(orderId: string, status: Order["status"], actor: OrderActor, updates?: OrderStatusUpdates): Promise<Order>;
+  updatePaymentStatus(orderId: string, paymentStatus: Order["paymentStatus"], payment?: PaymentDetails): Promise<Order>;
+  addRefund(orderId: string, refund: OrderRefund, paymentStatus: Order["paymentStatus"]): Promise<Order>;
+  getOrderStatusEvents(orderId: string): Promise<OrderStatusEvent[]>;
+  
+  // Checkout operations
+  createCheckout(checkout: InsertCheckout, orders: InsertOrder[]): Promise<{ checkout: Checkout; orders: Order[] }>; // checks the coupon like createOrder
+  getCheckoutById(id: string): Promise<Checkout | null>;
+  updateCheckoutPaymentStatus(checkoutId: string, paymentStatus: Checkout["paymentStatus"], payment?: PaymentDetails): Promise<Checkout>;
+  
+  // Coupon operations
+  createCoupon(coupon: InsertCoupon): Promise<Coupon>;
+  getCouponByCode(code: string): Promise<Coupon | null>; // code in any case
+  countCouponRedemptions(couponId: string, userId: string): Promise<number>; // orders placed with the coupon, a checkout counting once; cancelled orders don't count
   
   // Cart operations
   addToCart(cartItem: InsertCartItem): Promise<CartItem>;
+  getCartItemById(id: string): Promise<CartItem | null>;
   getCartByUser(userId: string): Promise<CartItem[]>;
-  updateCartItemQuantity(cartItemId: string, quantity: number): Promise<CartItem>;
-  removeFromCart(cartItemId: string): Promise<void>;
+  getGuestCart(guestCartId: string): Promise<CartItem[]>;
+  // Both throw a CartError unless the line is in the owner's cart
+  updateCartItemQuantity(cartItemId: string, quantity: number, owner: CartOwner): Promise<CartItem>;
+  removeFromCart(cartItemId: string, owner: CartOwner): Promise<void>;
   clearCart(userId: string): Promise<void>;
+  removeCartItems(userId: string, cartItemIds: string[]): Promise<void>; // only the user's own lines; ones already gone are skipped
+  clearGuestCart(guestCartId: string): Promise<void>;
+  mergeGuestCart(guestCartId: string, userId: string): Promise<CartItem[]>; // returns the user's cart; quantities are capped at the per-item max
+  
+  // Processed webhook event operations
+  hasProcessedWebhookEvent(id: string): Promise<boolean>;
+  recordWebhookEvent(event: InsertWebhookEvent): Promise<void>;
+
+  // Idempotency key operations
+  claimIdempotencyKey(record: InsertIdempotencyKey): Promise<IdempotencyKey | null>; // null once claimed; otherwise the unexpired record already holding the key
+  saveIdempotentResponse(id: IdempotencyKeyId, statusCode: number, responseBody: unknown): Promise<void>;
+  releaseIdempotencyKey(id: IdempotencyKeyId): Promise<void>;
+  deleteExpiredIdempotencyKeys(now: Date): Promise<number>; // returns how many were deleted
 }
 
 // In-memory storage implementation
 export class MemStorage implements IStorage {
   private users: Map<string, User> = new Map();
+  private refreshTokens: Map<string, RefreshToken> = new Map();
+  private userTokens: Map<string, UserToken> = new Map();
+  private phoneOtps: Map<string, PhoneOtp> = new Map();
+  private addresses: Map<string, Address> = new Map();
   private restaurants: Map<string, Restaurant> = new Map();
+  private restaurantOwners: Map<string, Set<string>> = new Map(); // userId -> restaurantIds
   private foodItems: Map<string, FoodItem> = new Map();
   private orders: Map<string, Order> = new Map();
+  private orderStatusEvents: Map<string, OrderStatusEvent> = new Map();
+  private checkouts: Map<string, Checkout> = new Map();
   private cartItems: Map<string, CartItem> = new Map();
-
-  constructor() {
-    this.seedData();
-  }
+  private coupons: Map<string, Coupon> = new Map();
+  private webhookEvents: Map<string, WebhookEvent> = new Map();
+  private idempotencyKeys: Map<string, IdempotencyKey> = new Map(); // keyed by idempotencyMapKey
 
   private generateId(): string {
     return Math.random().toString(36).substring(2) + Date.now().toString(36);
@@ -57,6 +144,7 @@ export class MemStorage implements IStorage {
   async createUser(user: InsertUser): Promise<User> {
     const newUser: User = {
       ...user,
+      emailVerified: false,
       id: this.generateId(),
       createdAt: new Date(),
     };
@@ -70,7 +158,16 @@ export class MemStorage implements IStorage {
 
   async getUserByEmail(email: string): Promise<User | null> {
     for (const user of this.users.values()) {
-      if (user.email === email) {
+      if (user.email && normalizeEmail(user.email) === normalizeEmail(email)) {
+        return user;
+      }
+    }
+    return null;
+  }
+
+  async getUserByPhone(phone: string): Promise<User | null> {
+    for (const user of this.users.values()) {
+      if (user.phone === phone) {
         return user;
       }
     }
@@ -95,6 +192,163 @@ export class MemStorage implements IStorage {
     return updatedUser;
   }
 
+  async updateUser(userId: string, updates: UpdateUser): Promise<User> {
+    const user = this.users.get(userId);
+    if (!user) throw new Error("User not found");
+
+    const updatedUser = { ...user, ...updates };
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+
+  // Refresh token operations
+  async createRefreshToken(refreshToken: InsertRefreshToken): Promise<RefreshToken> {
+    const newRefreshToken: RefreshToken = {
+      ...refreshToken,
+      id: this.generateId(),
+      createdAt: new Date(),
+    };
+    this.refreshTokens.set(newRefreshToken.id, newRefreshToken);
+    return newRefreshToken;
+  }
+
+  async getRefreshTokenByHash(tokenHash: string): Promise<RefreshToken | null> {
+    for (const refreshToken of this.refreshTokens.values()) {
+      if (refreshToken.tokenHash === tokenHash) {
+        return refreshToken;
+      }
+    }
+    return null;
+  }
+
+  async revokeRefreshToken(id: string, replacedById?: string): Promise<void> {
+    const refreshToken = this.refreshTokens.get(id);
+    if (!refreshToken || refreshToken.revokedAt) return;
+    this.refreshTokens.set(id, { ...refreshToken, revokedAt: new Date(), replacedById });
+  }
+
+  async revokeRefreshTokensByUser(userId: string): Promise<void> {
+    for (const refreshToken of this.refreshTokens.values()) {
+      if (refreshToken.userId === userId && !refreshToken.revokedAt) {
+        this.refreshTokens.set(refreshToken.id, { ...refreshToken, revokedAt: new Date() });
+      }
+    }
+  }
+
+  // Emailed single-use token operations
+  async createUserToken(userToken: InsertUserToken): Promise<UserToken> {
+    const newUserToken: UserToken = {
+      ...userToken,
+      id: this.generateId(),
+      createdAt: new Date(),
+    };
+    this.userTokens.set(newUserToken.id, newUserToken);
+    return newUserToken;
+  }
+
+  async getUserTokenByHash(tokenHash: string): Promise<UserToken | null> {
+    for (const userToken of this.userTokens.values()) {
+      if (userToken.tokenHash === tokenHash) {
+        return userToken;
+      }
+    }
+    return null;
+  }
+
+  async consumeUserToken(id: string): Promise<boolean> {
+    const userToken = this.userTokens.get(id);
+    if (!userToken || userToken.usedAt) return false;
+    this.userTokens.set(id, { ...userToken, usedAt: new Date() });
+    return true;
+  }
+
+  // Phone login code operations
+  async createPhoneOtp(phoneOtp: InsertPhoneOtp): Promise<PhoneOtp> {
+    const newPhoneOtp: PhoneOtp = {
+      ...phoneOtp,
+      id: this.generateId(),
+      attempts: 0,
+      createdAt: new Date(),
+    };
+    this.phoneOtps.set(newPhoneOtp.id, newPhoneOtp);
+    return newPhoneOtp;
+  }
+
+  async getPhoneOtpsSince(phone: string, since: Date): Promise<PhoneOtp[]> {
+    return Array.from(this.phoneOtps.values())
+      .filter(phoneOtp => phoneOtp.phone === phone && phoneOtp.createdAt >= since)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async incrementPhoneOtpAttempts(id: string): Promise<number> {
+    const phoneOtp = this.phoneOtps.get(id);
+    if (!phoneOtp) throw new Error("Phone OTP not found");
+    const attempts = phoneOtp.attempts + 1;
+    this.phoneOtps.set(id, { ...phoneOtp, attempts });
+    return attempts;
+  }
+
+  async consumePhoneOtp(id: string): Promise<boolean> {
+    const phoneOtp = this.phoneOtps.get(id);
+    if (!phoneOtp || phoneOtp.consumedAt) return false;
+    this.phoneOtps.set(id, { ...phoneOtp, consumedAt: new Date() });
+    return true;
+  }
+
+  // Address book operations
+  // A user has at most one default address; their first address becomes the default
+  async createAddress(address: InsertAddress): Promise<Address> {
+    const existing = await this.getAddressesByUser(address.userId);
+    const newAddress: Address = {
+      ...address,
+      isDefault: address.isDefault || existing.length === 0,
+      id: this.generateId(),
+      createdAt: new Date(),
+    };
+    if (newAddress.isDefault) this.clearDefaultAddress(address.userId);
+    this.addresses.set(newAddress.id, newAddress);
+    return newAddress;
+  }
+
+  async getAddressesByUser(userId: string): Promise<Address[]> {
+    return Array.from(this.addresses.values())
+      .filter(address => address.userId === userId)
+      .sort((a, b) => Number(b.isDefault) - Number(a.isDefault) || a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getAddressById(id: string): Promise<Address | null> {
+    return this.addresses.get(id) || null;
+  }
+
+  async updateAddress(id: string, updates: UpdateAddress): Promise<Address> {
+    const address = this.addresses.get(id);
+    if (!address) throw new Error("Address not found");
+
+    if (updates.isDefault) this.clearDefaultAddress(address.userId);
+    const updatedAddress = { ...address, ...updates };
+    this.addresses.set(id, updatedAddress);
+    return updatedAddress;
+  }
+
+  async deleteAddress(id: string): Promise<void> {
+    const address = this.addresses.get(id);
+    if (!address) return;
+
+    this.addresses.delete(id);
+    if (address.isDefault) {
+      const [next] = await this.getAddressesByUser(address.userId);
+      if (next) this.addresses.set(next.id, { ...next, isDefault: true });
+    }
+  }
+
+  private clearDefaultAddress(userId: string): void {
+    for (const address of this.addresses.values()) {
+      if (address.userId === userId && address.isDefault) {
+        this.addresses.set(address.id, { ...address, isDefault: false });
+      }
+    }
+  }
+
   // Restaurant operations
   async createRestaurant(restaurant: InsertRestaurant): Promise<Restaurant> {
     const newRestaurant: Restaurant = {
@@ -118,6 +372,31 @@ export class MemStorage implements IStorage {
     return Array.from(this.restaurants.values()).filter(r => r.cuisine.toLowerCase().includes(cuisine.toLowerCase()));
   }
 
+  async updateRestaurant(id: string, updates: UpdateRestaurant): Promise<Restaurant> {
+    const restaurant = this.restaurants.get(id);
+    if (!restaurant) throw new Error("Restaurant not found");
+    
+    const updatedRestaurant = { ...restaurant, ...updates };
+    this.restaurants.set(id, updatedRestaurant);
+    return updatedRestaurant;
+  }
+
+  // Restaurant owner operations
+  async addRestaurantOwner(restaurantId: string, userId: string): Promise<void> {
+    const restaurantIds = this.restaurantOwners.get(userId) || new Set<string>();
+    restaurantIds.add(restaurantId);
+    this.restaurantOwners.set(userId, restaurantIds);
+  }
+
+  async getRestaurantsByOwner(userId: string): Promise<Restaurant[]> {
+    const restaurantIds = this.restaurantOwners.get(userId) || new Set<string>();
+    return Array.from(this.restaurants.values()).filter(r => restaurantIds.has(r.id));
+  }
+
+  async isRestaurantOwner(userId: string, restaurantId: string): Promise<boolean> {
+    return this.restaurantOwners.get(userId)?.has(restaurantId) ?? false;
+  }
+
   // Food item operations
   async createFoodItem(foodItem: InsertFoodItem): Promise<FoodItem> {
     const newFoodItem: FoodItem = {
@@ -129,8 +408,19 @@ export class MemStorage implements IStorage {
     return newFoodItem;
   }
 
-  async getFoodItemsByRestaurant(restaurantId: string): Promise<FoodItem[]> {
-    return Array.from(this.foodItems.values()).filter(item => item.restaurantId === restaurantId);
+  async getFoodItemsByRestaurant(restaurantId: string, includeArchived = false): Promise<FoodItem[]> {
+    return Array.from(this.foodItems.values()).filter(item => 
+      item.restaurantId === restaurantId && (includeArchived || !item.isArchived)
+    );
+  }
+
+  async updateFoodItem(id: string, updates: UpdateFoodItem): Promise<FoodItem> {
+    const foodItem = this.foodItems.get(id);
+    if (!foodItem) throw new Error("Food item not found");
+    
+    const updatedFoodItem = { ...foodItem, ...updates };
+    this.foodItems.set(id, updatedFoodItem);
+    return updatedFoodItem;
   }
 
   async getFoodItemById(id: string): Promise<FoodItem | null> {
@@ -138,27 +428,39 @@ export class MemStorage implements IStorage {
   }
 
   async getFoodItemsByCategory(category: string): Promise<FoodItem[]> {
-    return Array.from(this.foodItems.values()).filter(item => item.category.toLowerCase() === category.toLowerCase());
+    return Array.from(this.foodItems.values()).filter(item => 
+      !item.isArchived && item.category.toLowerCase() === category.toLowerCase()
+    );
   }
 
   async searchFoodItems(query: string): Promise<FoodItem[]> {
     const searchTerm = query.toLowerCase();
     return Array.from(this.foodItems.values()).filter(item => 
-      item.name.toLowerCase().includes(searchTerm) ||
-      item.description.toLowerCase().includes(searchTerm) ||
-      item.category.toLowerCase().includes(searchTerm)
+      !item.isArchived && (
+        item.name.toLowerCase().includes(searchTerm) ||
+        item.description.toLowerCase().includes(searchTerm) ||
+        item.category.toLowerCase().includes(searchTerm)
+      )
     );
   }
 
   // Order operations
   async createOrder(order: InsertOrder): Promise<Order> {
+    this.checkCouponUses([order]);
+    return this.insertOrder(order);
+  }
+
+  private insertOrder(order: InsertOrder): Order {
     const newOrder: Order = {
       ...order,
       id: this.generateId(),
+      refunds: [],
       createdAt: new Date(),
       updatedAt: new Date(),
     };
     this.orders.set(newOrder.id, newOrder);
+    this.recordStatusEvent(newOrder.id, undefined, newOrder.status, { type: "customer", id: newOrder.userId });
+    publishOrderUpdate(newOrder);
     return newOrder;
   }
 
@@ -167,41 +469,173 @@ export class MemStorage implements IStorage {
   }
 
   async getOrdersByUser(userId: string): Promise<Order[]> {
-    return Array.from(this.orders.values()).filter(order => order.userId === userId);
+    return Array.from(this.orders.values())
+      .filter(order => order.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getOrdersByRestaurant(restaurantId: string, statuses?: Order["status"][]): Promise<Order[]> {
+    return Array.from(this.orders.values())
+      .filter(order => order.restaurantId === restaurantId && (!statuses || statuses.includes(order.status)))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getScheduledOrdersDue(now: Date): Promise<Order[]> {
+    return Array.from(this.orders.values())
+      .filter(order => order.status === "scheduled" && order.releaseAt && order.releaseAt <= now)
+      .sort((a, b) => a.releaseAt!.getTime() - b.releaseAt!.getTime());
   }
 
-  async updateOrderStatus(orderId: string, status: Order["status"]): Promise<Order> {
+  async getOrdersByPaymentId(paymentId: string): Promise<Order[]> {
+    return Array.from(this.orders.values()).filter(order => order.paymentId === paymentId);
+  }
+
+  async updateOrderStatus(orderId: string, status: Order["status"], actor: OrderActor, updates: OrderStatusUpdates = {}): Promise<Order> {
     const order = this.orders.get(orderId);
     if (!order) throw new Error("Order not found");
+    assertTransition(order.status, status);
     
-    const updatedOrder = { ...order, status, updatedAt: new Date() };
+    const updatedOrder = { ...order, status, ...updates, updatedAt: new Date() };
     this.orders.set(orderId, updatedOrder);
+    this.recordStatusEvent(orderId, order.status, status, actor);
+    publishOrderUpdate(updatedOrder);
     return updatedOrder;
   }
 
-  async updatePaymentStatus(orderId: string, paymentStatus: Order["paymentStatus"], paymentIntentId?: string): Promise<Order> {
+  async updatePaymentStatus(orderId: string, paymentStatus: Order["paymentStatus"], payment: PaymentDetails = {}): Promise<Order> {
     const order = this.orders.get(orderId);
     if (!order) throw new Error("Order not found");
     
     const updatedOrder = { 
       ...order, 
       paymentStatus, 
-      stripePaymentIntentId: paymentIntentId || order.stripePaymentIntentId,
+      paymentMethod: payment.paymentMethod || order.paymentMethod,
+      paymentId: payment.paymentId || order.paymentId,
       updatedAt: new Date() 
     };
     this.orders.set(orderId, updatedOrder);
+    publishOrderUpdate(updatedOrder);
+    return updatedOrder;
+  }
+
+  async addRefund(orderId: string, refund: OrderRefund, paymentStatus: Order["paymentStatus"]): Promise<Order> {
+    const order = this.orders.get(orderId);
+    if (!order) throw new Error("Order not found");
+
+    const updatedOrder = { ...order, refunds: [...order.refunds, refund], paymentStatus, updatedAt: new Date() };
+    this.orders.set(orderId, updatedOrder);
+    publishOrderUpdate(updatedOrder);
     return updatedOrder;
   }
 
+  async getOrderStatusEvents(orderId: string): Promise<OrderStatusEvent[]> {
+    return Array.from(this.orderStatusEvents.values()).filter(event => event.orderId === orderId);
+  }
+
+  private recordStatusEvent(orderId: string, fromStatus: Order["status"] | undefined, toStatus: Order["status"], actor: OrderActor) {
+    const event: OrderStatusEvent = {
+      id: this.generateId(),
+      orderId,
+      fromStatus,
+      toStatus,
+      actor,
+      createdAt: new Date(),
+    };
+    this.orderStatusEvents.set(event.id, event);
+  }
+
+  // Checkout operations
+  async createCheckout(checkout: InsertCheckout, orders: InsertOrder[]): Promise<{ checkout: Checkout; orders: Order[] }> {
+    const checkoutId = this.generateId();
+    this.checkCouponUses(orders);
+    const newOrders = orders.map(order => this.insertOrder({ ...order, checkoutId }));
+
+    const newCheckout: Checkout = {
+      ...checkout,
+      id: checkoutId,
+      orderIds: newOrders.map(order => order.id),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.checkouts.set(newCheckout.id, newCheckout);
+    return { checkout: newCheckout, orders: newOrders };
+  }
+
+  async getCheckoutById(id: string): Promise<Checkout | null> {
+    return this.checkouts.get(id) || null;
+  }
+
+  async updateCheckoutPaymentStatus(checkoutId: string, paymentStatus: Checkout["paymentStatus"], payment: PaymentDetails = {}): Promise<Checkout> {
+    const checkout = this.checkouts.get(checkoutId);
+    if (!checkout) throw new Error("Checkout not found");
+    
+    const updatedCheckout = { 
+      ...checkout, 
+      paymentStatus, 
+      paymentMethod: payment.paymentMethod || checkout.paymentMethod,
+      paymentId: payment.paymentId || checkout.paymentId,
+      updatedAt: new Date() 
+    };
+    this.checkouts.set(checkoutId, updatedCheckout);
+    return updatedCheckout;
+  }
+
+  // Coupon operations
+  async createCoupon(coupon: InsertCoupon): Promise<Coupon> {
+    if (await this.getCouponByCode(coupon.code)) {
+      throw new Error("Coupon code already exists");
+    }
+    const newCoupon: Coupon = {
+      ...coupon,
+      id: this.generateId(),
+      code: coupon.code.toUpperCase(),
+      createdAt: new Date(),
+    };
+    this.coupons.set(newCoupon.id, newCoupon);
+    return newCoupon;
+  }
+
+  async getCouponByCode(code: string): Promise<Coupon | null> {
+    return Array.from(this.coupons.values()).find(coupon => coupon.code === code.toUpperCase()) || null;
+  }
+
+  async countCouponRedemptions(couponId: string, userId: string): Promise<number> {
+    return this.redemptionCount(couponId, userId);
+  }
+
+  private redemptionCount(couponId: string, userId: string): number {
+    const redemptions = new Set(Array.from(this.orders.values())
+      .filter(order => order.couponId === couponId && order.userId === userId && order.status !== "cancelled")
+      .map(order => order.checkoutId || order.id));
+    return redemptions.size;
+  }
+
+  // Counts without awaiting before the orders are added, so another order can't slip in between
+  private checkCouponUses(orders: InsertOrder[]): void {
+    const order = orders.find(order => order.couponId);
+    const coupon = order?.couponId ? this.coupons.get(order.couponId) : undefined;
+    if (order && coupon) {
+      assertFirstOrder(coupon, Array.from(this.orders.values())
+        .some(existing => existing.userId === order.userId && existing.status !== "cancelled"));
+      assertCouponUsesLeft(coupon, this.redemptionCount(coupon.id, order.userId));
+    }
+  }
+
   // Cart operations
   async addToCart(cartItem: InsertCartItem): Promise<CartItem> {
-    // Check if item already exists in cart
+    // Check if item already exists in cart with the same options
     const existingItem = Array.from(this.cartItems.values()).find(
-      item => item.userId === cartItem.userId && item.foodItemId === cartItem.foodItemId
+      item => item.userId === cartItem.userId && item.guestCartId === cartItem.guestCartId && item.foodItemId === cartItem.foodItemId
+        && optionsKey(item.options) === optionsKey(cartItem.options)
     );
 
+    const quantity = (existingItem?.quantity ?? 0) + cartItem.quantity;
+    assertCartQuantity(quantity);
+
     if (existingItem) {
-      return this.updateCartItemQuantity(existingItem.id, existingItem.quantity + cartItem.quantity);
+      const updatedItem = { ...existingItem, quantity };
+      this.cartItems.set(existingItem.id, updatedItem);
+      return updatedItem;
     }
 
     const newCartItem: CartItem = {
@@ -213,20 +647,30 @@ export class MemStorage implements IStorage {
     return newCartItem;
   }
 
+  async getCartItemById(id: string): Promise<CartItem | null> {
+    return this.cartItems.get(id) || null;
+  }
+
   async getCartByUser(userId: string): Promise<CartItem[]> {
     return Array.from(this.cartItems.values()).filter(item => item.userId === userId);
   }
 
-  async updateCartItemQuantity(cartItemId: string, quantity: number): Promise<CartItem> {
-    const cartItem = this.cartItems.get(cartItemId);
-    if (!cartItem) throw new Error("Cart item not found");
+  async getGuestCart(guestCartId: string): Promise<CartItem[]> {
+    return Array.from(this.cartItems.values()).filter(item => item.guestCartId === guestCartId);
+  }
+
+  async updateCartItemQuantity(cartItemId: string, quantity: number, owner: CartOwner): Promise<CartItem> {
+    const cartItem = this.cartItems.get(cartItemId) || null;
+    assertCartItemOwner(cartItem, owner);
+    assertCartQuantity(quantity);
     
     const updatedItem = { ...cartItem, quantity };
     this.cartItems.set(cartItemId, updatedItem);
     return updatedItem;
   }
 
-  async removeFromCart(cartItemId: string): Promise<void> {
+  async removeFromCart(cartItemId: string, owner: CartOwner): Promise<void> {
+    assertCartItemOwner(this.cartItems.get(cartItemId) || null, owner);
     this.cartItems.delete(cartItemId);
   }
 
@@ -235,153 +679,98 @@ export class MemStorage implements IStorage {
     userCartItems.forEach(([id]) => this.cartItems.delete(id));
   }
 
-  // Seed data with authentic Indian restaurants and food items
-  private seedData() {
-    // Seed restaurants
-    const restaurants = [
-      {
-        name: "Sharma Ji Ka Dhaba",
-        description: "Authentic North Indian cuisine with traditional flavors from Punjab",
-        cuisine: "North Indian",
-        image: "https://images.unsplash.com/photo-1555939594-58d7cb561ad1?w=500",
-        rating: 4.5,
-        deliveryTime: "25-30 mins",
-        deliveryFee: 25,
-        minOrder: 150,
-        isVeg: false,
-        isOpen: true,
-      },
-      {
-        name: "South Spice Express",
-        description: "Traditional South Indian delicacies - Dosas, Idlis, and more",
-        cuisine: "South Indian",
-        image: "https://images.unsplash.com/photo-1565557623262-b51c2513a641?w=500",
-        rating: 4.3,
-        deliveryTime: "20-25 mins",
-        deliveryFee: 20,
-        minOrder: 120,
-        isVeg: true,
-        isOpen: true,
-      },
-      {
-        name: "Mumbai Street Kitchen",
-        description: "Mumbai street food favorites - Vada Pav, Pav Bhaji, Bhel Puri",
-        cuisine: "Street Food",
-        image: "https://images.unsplash.com/photo-1596797038530-2c107229654b?w=500",
-        rating: 4.7,
-        deliveryTime: "15-20 mins",
-        deliveryFee: 15,
-        minOrder: 80,
-        isVeg: true,
-        isOpen: true,
-      },
-    ];
-
-    restaurants.forEach(restaurant => {
-      const newRestaurant: Restaurant = {
-        ...restaurant,
-        id: this.generateId(),
-        createdAt: new Date(),
-      };
-      this.restaurants.set(newRestaurant.id, newRestaurant);
-    });
-
-    // Seed food items
-    const restaurantIds = Array.from(this.restaurants.keys());
-    
-    const foodItems = [
-      // North Indian items
-      {
-        restaurantId: restaurantIds[0],
-        name: "Butter Chicken",
-        description: "Creamy tomato-based curry with tender chicken pieces",
-        price: 280,
-        image: "https://images.unsplash.com/photo-1588166524941-3bf61a9c41db?w=400",
-        category: "Main Course",
-        isVeg: false,
-        isSpicy: true,
-        isAvailable: true,
-        preparationTime: "20-25 mins",
-        ingredients: ["Chicken", "Tomatoes", "Cream", "Spices"],
-      },
-      {
-        restaurantId: restaurantIds[0],
-        name: "Dal Makhani",
-        description: "Rich and creamy black lentils cooked overnight",
-        price: 220,
-        image: "https://images.unsplash.com/photo-1546833999-b9f581a1996d?w=400",
-        category: "Main Course",
-        isVeg: true,
-        isSpicy: false,
-        isAvailable: true,
-        preparationTime: "15-20 mins",
-        ingredients: ["Black Lentils", "Butter", "Cream", "Spices"],
-      },
-      // South Indian items
-      {
-        restaurantId: restaurantIds[1],
-        name: "Masala Dosa",
-        description: "Crispy rice crepe filled with spiced potato curry",
-        price: 120,
-        image: "https://images.unsplash.com/photo-1567188040759-fb8a883dc6d8?w=400",
-        category: "Main Course",
-        isVeg: true,
-        isSpicy: true,
-        isAvailable: true,
-        preparationTime: "15-18 mins",
-        ingredients: ["Rice", "Lentils", "Potatoes", "Spices"],
-      },
-      {
-        restaurantId: restaurantIds[1],
-        name: "Sambar Vada",
-        description: "Fried lentil donuts soaked in flavorful sambar",
-        price: 80,
-        image: "https://images.unsplash.com/photo-1596797038530-2c107229654b?w=400",
-        category: "Appetizers",
-        isVeg: true,
-        isSpicy: true,
-        isAvailable: true,
-        preparationTime: "10-12 mins",
-        ingredients: ["Lentils", "Tamarind", "Vegetables", "Spices"],
-      },
-      // Street Food items
-      {
-        restaurantId: restaurantIds[2],
-        name: "Vada Pav",
-        description: "Mumbai's famous potato fritter sandwich",
-        price: 40,
-        image: "https://images.unsplash.com/photo-1601050690597-df0568f70950?w=400",
-        category: "Street Food",
-        isVeg: true,
-        isSpicy: true,
-        isAvailable: true,
-        preparationTime: "8-10 mins",
-        ingredients: ["Potatoes", "Bread", "Chutneys", "Spices"],
-      },
-      {
-        restaurantId: restaurantIds[2],
-        name: "Pav Bhaji",
-        description: "Spicy vegetable curry served with buttered bread",
-        price: 90,
-        image: "https://images.unsplash.com/photo-1606491956689-2ea866880c84?w=400",
-        category: "Main Course",
-        isVeg: true,
-        isSpicy: true,
-        isAvailable: true,
-        preparationTime: "12-15 mins",
-        ingredients: ["Mixed Vegetables", "Bread", "Butter", "Spices"],
-      },
-    ];
-
-    foodItems.forEach(foodItem => {
-      const newFoodItem: FoodItem = {
-        ...foodItem,
-        id: this.generateId(),
-        createdAt: new Date(),
-      };
-      this.foodItems.set(newFoodItem.id, newFoodItem);
-    });
+  async removeCartItems(userId: string, cartItemIds: string[]): Promise<void> {
+    for (const id of cartItemIds) {
+      if (this.cartItems.get(id)?.userId === userId) this.cartItems.delete(id);
+    }
+  }
+
+  async clearGuestCart(guestCartId: string): Promise<void> {
+    const guestCartItems = Array.from(this.cartItems.entries()).filter(([_, item]) => item.guestCartId === guestCartId);
+    guestCartItems.forEach(([id]) => this.cartItems.delete(id));
+  }
+
+  // Guest lines matching a line already in the user's cart add to its quantity
+  async mergeGuestCart(guestCartId: string, userId: string): Promise<CartItem[]> {
+    const userCart = await this.getCartByUser(userId);
+    for (const item of await this.getGuestCart(guestCartId)) {
+      const existingItem = userCart.find(userItem =>
+        userItem.foodItemId === item.foodItemId && optionsKey(userItem.options) === optionsKey(item.options)
+      );
+      if (existingItem) {
+        const quantity = Math.min(existingItem.quantity + item.quantity, MAX_CART_ITEM_QUANTITY);
+        this.cartItems.set(existingItem.id, { ...existingItem, quantity });
+        this.cartItems.delete(item.id);
+      } else {
+        this.cartItems.set(item.id, { ...item, userId, guestCartId: undefined });
+      }
+    }
+    return this.getCartByUser(userId);
+  }
+
+  // Processed webhook event operations
+  async hasProcessedWebhookEvent(id: string): Promise<boolean> {
+    return this.webhookEvents.has(id);
+  }
+
+  async recordWebhookEvent(event: InsertWebhookEvent): Promise<void> {
+    if (!this.webhookEvents.has(event.id)) {
+      this.webhookEvents.set(event.id, { ...event, processedAt: new Date() });
+    }
+  }
+
+  // Idempotency key operations
+  private idempotencyMapKey({ userId, endpoint, key }: IdempotencyKeyId): string {
+    return `${userId}|${endpoint}|${key}`;
+  }
+
+  async claimIdempotencyKey(record: InsertIdempotencyKey): Promise<IdempotencyKey | null> {
+    const mapKey = this.idempotencyMapKey(record);
+    const existing = this.idempotencyKeys.get(mapKey);
+    if (existing && existing.expiresAt > new Date()) return existing;
+
+    this.idempotencyKeys.set(mapKey, { ...record, createdAt: new Date() });
+    return null;
+  }
+
+  async saveIdempotentResponse(id: IdempotencyKeyId, statusCode: number, responseBody: unknown): Promise<void> {
+    const record = this.idempotencyKeys.get(this.idempotencyMapKey(id));
+    if (record) {
+      this.idempotencyKeys.set(this.idempotencyMapKey(id), { ...record, statusCode, responseBody });
+    }
+  }
+
+  async releaseIdempotencyKey(id: IdempotencyKeyId): Promise<void> {
+    this.idempotencyKeys.delete(this.idempotencyMapKey(id));
+  }
+
+  async deleteExpiredIdempotencyKeys(now: Date): Promise<number> {
+    let deleted = 0;
+    for (const [mapKey, record] of this.idempotencyKeys) {
+      if (record.expiresAt <= now) {
+        this.idempotencyKeys.delete(mapKey);
+        deleted++;
+      }
+    }
+    return deleted;
   }
 }
 
-export const storage = new MemStorage();
\ No newline at end of file
+// STORAGE_DRIVER=sqlite selects the SQL store (DATABASE_URL, default file:fastfeast.db);
+// anything else keeps the in-memory store
+const useSql = process.env.STORAGE_DRIVER === "sqlite";
+const database = useSql ? createDatabase() : null;
+
+export const storage: IStorage = database ? new SqlStorage(database) : new MemStorage();
+
+// Must complete before the server starts accepting requests
+export async function initStorage(): Promise<void> {
+  if (database) {
+    await runMigrations(database);
+  }
+
+  const restaurants = await storage.getAllRestaurants();
+  if (restaurants.length === 0) {
+    await seedDatabase(storage);
+  }
+}
\ No newline at end of file
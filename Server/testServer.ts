@@ -0,0 +1,74 @@
+import express from "express";
+import { once } from "events";
+import type { AddressInfo } from "net";
+import { registerRoutes } from "./routes";
+import { initStorage, storage } from "./storage";
+
+interface TestRequest {
+  body?: unknown; // sent as is when it's a string, e.g. a signed webhook payload
+  token?: string;
+  headers?: Record<string, string>;
+}
+
+export interface TestResponse {
+  status: number;
+  headers: Headers;
+  body: any;
+}
+
+// Runs the API on a free port for tests, parsing bodies the way index.ts does.
+// Storage is whatever STORAGE_DRIVER picks, seeded as on startup.
+export async function startTestServer() {
+  const app = express();
+  app.use("/api/webhooks/stripe", express.raw({ type: "application/json" }));
+  app.use(express.json());
+  await initStorage();
+  const server = (await registerRoutes(app)).listen(0, "127.0.0.1");
+  await once(server, "listening");
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  async function request(method: string, path: string, { body, token, headers }: TestRequest = {}): Promise<TestResponse> {
+    const response = await fetch(baseUrl + path, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        ...(token && { Authorization: `Bearer ${token}` }),
+        ...headers,
+      },
+      body: body === undefined || typeof body === "string" ? body : JSON.stringify(body),
+    });
+    const text = await response.text();
+    return { status: response.status, headers: response.headers, body: text ? JSON.parse(text) : undefined };
+  }
+
+  // Registers a customer and returns their access token
+  async function signUp(email: string): Promise<string> {
+    const response = await request("POST", "/api/register", { body: { username: email.split("@")[0], email, password: "secret123" } });
+    if (response.status !== 200) throw new Error(response.body.message);
+    return response.body.token;
+  }
+
+  async function login(email: string, password: string): Promise<string> {
+    const response = await request("POST", "/api/login", { body: { email, password } });
+    if (response.status !== 200) throw new Error(response.body.message);
+    return response.body.token;
+  }
+
+  // A restaurant from the seed data and the menu item with the given name
+  async function seededItem(restaurantName: string, itemName: string) {
+    const restaurant = (await storage.getAllRestaurants()).find(restaurant => restaurant.name === restaurantName);
+    const foodItem = restaurant && (await storage.getFoodItemsByRestaurant(restaurant.id)).find(item => item.name === itemName);
+    if (!restaurant || !foodItem) throw new Error(`${itemName} at ${restaurantName} isn't in the seed data`);
+    return { restaurant, foodItem };
+  }
+
+  return {
+    request,
+    signUp,
+    login,
+    seededItem,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve())),
+  };
+}
+
+export type TestServer = Awaited<ReturnType<typeof startTestServer>>;
@@ -0,0 +1,115 @@
+import { promises as fs } from "fs";
+import path from "path";
+import Stripe from "stripe";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { Order } from "@shared/schema";
+import { storage } from "./storage";
+import { startTestServer, type TestServer } from "./testServer";
+
+const WEBHOOK_SECRET = "whsec_test";
+
+// Payment providers are set up from the environment when they're first imported
+vi.hoisted(() => {
+  process.env.PAYMENT_PROVIDERS = "stripe,cash_on_delivery";
+  process.env.STRIPE_SECRET_KEY = "sk_test_webhooks";
+  process.env.STRIPE_WEBHOOK_SECRET = "whsec_test";
+});
+
+let server: TestServer;
+let token: string;
+let orderRequest: object;
+let paymentIntents = 0;
+
+beforeAll(async () => {
+  server = await startTestServer();
+  token = await server.signUp("webhooks@example.com");
+  const { restaurant, foodItem } = await server.seededItem("Sharma Ji Ka Dhaba", "Dal Makhani");
+  orderRequest = {
+    restaurantId: restaurant.id,
+    deliveryAddress: "1 Janpath, New Delhi 110001",
+    items: [{ foodItemId: foodItem.id, quantity: 1 }],
+  };
+});
+
+afterAll(() => server.close());
+
+// An order whose card payment has started, as if POST /api/payments had created the intent
+async function orderPaidWithStripe(): Promise<{ order: Order; paymentIntentId: string }> {
+  const placed = await server.request("POST", "/api/orders", { token, body: orderRequest });
+  const paymentIntentId = `pi_test_${++paymentIntents}`;
+  const order = await storage.updatePaymentStatus(placed.body.id, "pending", { paymentMethod: "stripe", paymentId: paymentIntentId });
+  return { order, paymentIntentId };
+}
+
+// Posts a fixture from Server/fixtures/stripe for the payment intent, signed like Stripe does
+async function sendEvent(type: string, paymentIntentId: string, eventId = `evt_${type}_${paymentIntentId}`, secret = WEBHOOK_SECRET) {
+  const fixture = await fs.readFile(path.join(__dirname, "fixtures/stripe", `${type}.json`), "utf8");
+  const payload = JSON.stringify({ ...JSON.parse(fixture.replaceAll("pi_fixture", paymentIntentId)), id: eventId });
+  return server.request("POST", "/api/webhooks/stripe", {
+    body: payload,
+    headers: { "Stripe-Signature": Stripe.webhooks.generateTestHeaderString({ payload, secret }) },
+  });
+}
+
+const reload = async (order: Order) => (await storage.getOrderById(order.id))!;
+
+describe("Stripe webhook", () => {
+  it("rejects events that aren't signed with the webhook secret", async () => {
+    const { order, paymentIntentId } = await orderPaidWithStripe();
+    const response = await sendEvent("payment_intent.succeeded", paymentIntentId, undefined, "whsec_someone_else");
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toMatch(/^Invalid webhook signature/);
+    expect(await reload(order)).toMatchObject({ status: "pending", paymentStatus: "pending" });
+  });
+
+  it("confirms the order when the payment succeeds", async () => {
+    const { order, paymentIntentId } = await orderPaidWithStripe();
+    const response = await sendEvent("payment_intent.succeeded", paymentIntentId);
+
+    expect(response.body).toEqual({ received: true });
+    expect(await reload(order)).toMatchObject({ status: "confirmed", paymentStatus: "paid" });
+  });
+
+  it("acknowledges a redelivered event without applying it again", async () => {
+    const { order, paymentIntentId } = await orderPaidWithStripe();
+    await sendEvent("payment_intent.succeeded", paymentIntentId, "evt_redelivered");
+    const events = await storage.getOrderStatusEvents(order.id);
+
+    const redelivery = await sendEvent("payment_intent.succeeded", paymentIntentId, "evt_redelivered");
+    expect(redelivery.status).toBe(200);
+    expect(redelivery.body).toEqual({ received: true, duplicate: true });
+    expect(await storage.getOrderStatusEvents(order.id)).toHaveLength(events.length);
+  });
+
+  it("marks the payment failed and leaves the order open for another try", async () => {
+    const { order, paymentIntentId } = await orderPaidWithStripe();
+    await sendEvent("payment_intent.payment_failed", paymentIntentId);
+
+    expect(await reload(order)).toMatchObject({ status: "pending", paymentStatus: "failed" });
+  });
+
+  it("ignores a failure that arrives after the payment went through", async () => {
+    const { order, paymentIntentId } = await orderPaidWithStripe();
+    await sendEvent("payment_intent.succeeded", paymentIntentId);
+    const response = await sendEvent("payment_intent.payment_failed", paymentIntentId);
+
+    expect(response.status).toBe(200);
+    expect(await reload(order)).toMatchObject({ status: "confirmed", paymentStatus: "paid" });
+  });
+
+  it("records a full refund from the dashboard and cancels the order", async () => {
+    const { order, paymentIntentId } = await orderPaidWithStripe();
+    await sendEvent("payment_intent.succeeded", paymentIntentId);
+    await sendEvent("charge.refunded", paymentIntentId);
+
+    const refunded = await reload(order);
+    expect(refunded).toMatchObject({ status: "cancelled", paymentStatus: "refunded", cancellationReason: "Payment refunded" });
+    expect(refunded.refunds).toHaveLength(1);
+    expect(refunded.refunds[0]).toMatchObject({ amount: order.totalAmount, reason: "Refunded by the payment provider" });
+
+    // Stripe's next refund event reports the same running total, which is already recorded
+    await sendEvent("charge.refunded", paymentIntentId, "evt_refund_again");
+    expect((await reload(order)).refunds).toHaveLength(1);
+  });
+});
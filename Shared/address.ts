@@ -0,0 +1,8 @@
+import { Address } from "./schema";
+
+// One-line form of a saved address, as stored on Order.deliveryAddress
+export function formatAddress(address: Pick<Address, "address" | "landmark" | "pincode">): string {
+  return [address.address, address.landmark && `Near ${address.landmark}`, address.pincode]
+    .filter(Boolean)
+    .join(", ");
+}
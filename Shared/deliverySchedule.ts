@@ -0,0 +1,81 @@
+import { FoodItem, Restaurant } from "./schema";
+import { isRestaurantOpen, formatDayName, formatTimeOfDay } from "./openingHours";
+
+// Pre-orders are for quarter-hour slots, up to two days ahead
+export const SLOT_MINUTES = 15;
+export const MAX_SCHEDULE_DAYS = 2;
+
+const MINUTE_MS = 60 * 1000;
+
+type ScheduleRestaurant = Pick<Restaurant, "name" | "maxDeliveryMinutes" | "isOpen" | "timezone" | "openingHours" | "holidays">;
+
+// "25-30 mins", or "20 mins" when both ends match
+export function formatMinutesRange(min: number, max: number): string {
+  return min === max ? `${max} mins` : `${min}-${max} mins`;
+}
+
+// The longest any of these dishes takes to prepare
+export function maxPrepMinutes(foodItems: Pick<FoodItem, "maxPrepMinutes">[]): number {
+  return Math.max(0, ...foodItems.map(item => item.maxPrepMinutes));
+}
+
+// How long before delivery the kitchen has to start: the slowest dish plus the ride
+export function leadTimeMinutes(restaurant: Pick<Restaurant, "maxDeliveryMinutes">, foodItems: Pick<FoodItem, "maxPrepMinutes">[]): number {
+  return maxPrepMinutes(foodItems) + restaurant.maxDeliveryMinutes;
+}
+
+export function kitchenReleaseTime(scheduledFor: Date, leadMinutes: number): Date {
+  return new Date(scheduledFor.getTime() - leadMinutes * MINUTE_MS);
+}
+
+// Why the restaurant can't deliver at `scheduledFor`, or undefined if it can. The kitchen
+// has to be open from when cooking starts until the food leaves.
+export function checkDeliverySlot(
+  restaurant: ScheduleRestaurant,
+  scheduledFor: Date,
+  leadMinutes: number,
+  now = new Date(),
+): string | undefined {
+  if (scheduledFor.getTime() % (SLOT_MINUTES * MINUTE_MS) !== 0) {
+    return `Delivery times are in ${SLOT_MINUTES}-minute slots`;
+  }
+  if (scheduledFor.getTime() > now.getTime() + MAX_SCHEDULE_DAYS * 24 * 60 * MINUTE_MS) {
+    return `You can order up to ${MAX_SCHEDULE_DAYS} days ahead`;
+  }
+
+  const releaseAt = kitchenReleaseTime(scheduledFor, leadMinutes);
+  if (releaseAt.getTime() < now.getTime()) {
+    return `${restaurant.name} needs at least ${leadMinutes} minutes to prepare and deliver this order`;
+  }
+
+  const leavesAt = new Date(scheduledFor.getTime() - restaurant.maxDeliveryMinutes * MINUTE_MS - MINUTE_MS);
+  if (!isRestaurantOpen(restaurant, releaseAt) || !isRestaurantOpen(restaurant, leavesAt)) {
+    return `${restaurant.name} isn't open to prepare an order for ${formatDeliverySlot(scheduledFor, restaurant.timezone)}`;
+  }
+  return undefined;
+}
+
+// Every slot the restaurant can deliver in, soonest first
+export function deliverySlots(restaurant: ScheduleRestaurant, leadMinutes: number, now = new Date()): Date[] {
+  const slotMs = SLOT_MINUTES * MINUTE_MS;
+  const first = Math.ceil((now.getTime() + leadMinutes * MINUTE_MS) / slotMs) * slotMs;
+  const last = now.getTime() + MAX_SCHEDULE_DAYS * 24 * 60 * MINUTE_MS;
+
+  const slots: Date[] = [];
+  for (let time = first; time <= last; time += slotMs) {
+    const slot = new Date(time);
+    if (!checkDeliverySlot(restaurant, slot, leadMinutes, now)) slots.push(slot);
+  }
+  return slots;
+}
+
+// "Tue 20 Oct at 1 PM" - an absolute label, kept on the order as its delivery estimate
+export function formatDeliverySlot(scheduledFor: Date, timeZone: string): string {
+  const date = new Intl.DateTimeFormat("en-GB", { timeZone, weekday: "short", day: "numeric", month: "short" }).format(scheduledFor);
+  return `${date} at ${formatTimeOfDay(scheduledFor, timeZone)}`;
+}
+
+// "Today at 1 PM", "Tomorrow at 12:30 PM"
+export function describeDeliverySlot(scheduledFor: Date, timeZone: string, now = new Date()): string {
+  return `${formatDayName(scheduledFor, timeZone, now)} at ${formatTimeOfDay(scheduledFor, timeZone)}`;
+}
@@ -0,0 +1,46 @@
+import { FoodItem, OptionSelection, SelectedOption } from "./schema";
+
+// Check a customer's picks against the item's option groups and return them with
+// current names and prices, in menu order. Throws a message fit to show the customer.
+export function resolveOptions(foodItem: Pick<FoodItem, "name" | "optionGroups">, selections: OptionSelection[]): SelectedOption[] {
+  for (const selection of selections) {
+    const group = foodItem.optionGroups.find(group => group.id === selection.groupId);
+    if (!group || !group.options.some(option => option.id === selection.optionId)) {
+      throw new Error(`That choice isn't available for ${foodItem.name}`);
+    }
+  }
+
+  const resolved: SelectedOption[] = [];
+  for (const group of foodItem.optionGroups) {
+    const pickedIds = new Set(selections.filter(selection => selection.groupId === group.id).map(selection => selection.optionId));
+    if (pickedIds.size < group.minSelections) {
+      throw new Error(group.minSelections === 1
+        ? `Choose a ${group.name} for ${foodItem.name}`
+        : `Choose at least ${group.minSelections} ${group.name} for ${foodItem.name}`);
+    }
+    if (pickedIds.size > group.maxSelections) {
+      throw new Error(`Choose at most ${group.maxSelections} ${group.name} for ${foodItem.name}`);
+    }
+
+    for (const option of group.options) {
+      if (pickedIds.has(option.id)) {
+        resolved.push({ groupId: group.id, groupName: group.name, optionId: option.id, name: option.name, priceDelta: option.priceDelta });
+      }
+    }
+  }
+  return resolved;
+}
+
+export function unitPrice(basePrice: number, options: SelectedOption[]): number {
+  return options.reduce((total, option) => total + option.priceDelta, basePrice);
+}
+
+// The same picks give the same key, so they share a cart line
+export function optionsKey(options: OptionSelection[]): string {
+  return options.map(option => `${option.groupId}:${option.optionId}`).sort().join("|");
+}
+
+// "Full plate, Extra cheese"
+export function formatOptions(options: SelectedOption[]): string {
+  return options.map(option => option.name).join(", ");
+}
@@ -0,0 +1,142 @@
+import { FoodItem, Restaurant, WeeklyHours } from "./schema";
+
+type RestaurantHours = Pick<Restaurant, "isOpen" | "timezone" | "openingHours" | "holidays">;
+
+// A restaurant as customers see it: isOpen follows the schedule, and opensAt says
+// when a restaurant that's closed for now opens next
+export type ScheduledRestaurant = Restaurant & { opensAt?: Date };
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ALL_WEEK: WeeklyHours = { days: [0, 1, 2, 3, 4, 5, 6], open: "00:00", close: "00:00" };
+
+interface ZonedTime {
+  date: string; // YYYY-MM-DD
+  day: number; // 0 is Sunday
+  minutes: number; // since midnight
+}
+
+function zonedTime(at: Date, timeZone: string): ZonedTime {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)!.value;
+  return {
+    date: `${part("year")}-${part("month")}-${part("day")}`,
+    day: WEEKDAYS.indexOf(part("weekday")),
+    minutes: Number(part("hour")) * 60 + Number(part("minute")),
+  };
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+// True if `at` falls in one of the windows; no windows means no restriction
+export function isWithinHours(hours: WeeklyHours[], at: Date, timeZone: string): boolean {
+  if (hours.length === 0) return true;
+  const { day, minutes } = zonedTime(at, timeZone);
+  const yesterday = (day + 6) % 7;
+
+  return hours.some(window => {
+    const open = toMinutes(window.open);
+    const close = toMinutes(window.close);
+    if (close > open) {
+      return window.days.includes(day) && minutes >= open && minutes < close;
+    }
+    // Runs past midnight: the evening part today, or the small hours of yesterday's window
+    return (window.days.includes(day) && minutes >= open) || (window.days.includes(yesterday) && minutes < close);
+  });
+}
+
+function isHoliday(restaurant: RestaurantHours, at: Date): boolean {
+  const { date } = zonedTime(at, restaurant.timezone);
+  return restaurant.holidays.some(holiday => holiday.date === date);
+}
+
+export function isRestaurantOpen(restaurant: RestaurantHours, at = new Date()): boolean {
+  return restaurant.isOpen
+    && !isHoliday(restaurant, at)
+    && isWithinHours(restaurant.openingHours, at, restaurant.timezone);
+}
+
+// When a restaurant closed by its schedule next opens, looking up to a week ahead.
+// Undefined if it's open now, or its owner has closed it.
+export function nextOpening(restaurant: RestaurantHours, at = new Date()): Date | undefined {
+  if (!restaurant.isOpen || isRestaurantOpen(restaurant, at)) return undefined;
+
+  const windows = restaurant.openingHours.length > 0 ? restaurant.openingHours : [ALL_WEEK];
+  const now = zonedTime(at, restaurant.timezone);
+  const startOfMinute = Math.floor(at.getTime() / 60000) * 60000;
+
+  for (let offset = 0; offset <= 7; offset++) {
+    const { date, day } = zonedTime(new Date(at.getTime() + offset * DAY_MS), restaurant.timezone);
+    if (restaurant.holidays.some(holiday => holiday.date === date)) continue;
+
+    const opens = windows
+      .filter(window => window.days.includes(day))
+      .map(window => toMinutes(window.open))
+      .filter(open => offset > 0 || open > now.minutes);
+    if (opens.length > 0) {
+      const minutesAhead = offset * 24 * 60 + Math.min(...opens) - now.minutes;
+      return new Date(startOfMinute + minutesAhead * 60000);
+    }
+  }
+  return undefined;
+}
+
+export function withOpeningStatus(restaurant: Restaurant, at = new Date()): ScheduledRestaurant {
+  return { ...restaurant, isOpen: isRestaurantOpen(restaurant, at), opensAt: nextOpening(restaurant, at) };
+}
+
+// In stock, and inside both the item's own hours and its category's
+export function isFoodItemAvailable(
+  foodItem: Pick<FoodItem, "isAvailable" | "category" | "availableHours">,
+  restaurant: Pick<Restaurant, "timezone" | "categoryHours">,
+  at = new Date(),
+): boolean {
+  const categoryHours = restaurant.categoryHours.find(entry => entry.category === foodItem.category)?.hours ?? [];
+  return foodItem.isAvailable
+    && isWithinHours(foodItem.availableHours, at, restaurant.timezone)
+    && isWithinHours(categoryHours, at, restaurant.timezone);
+}
+
+// "6 PM" or "11:30 AM"
+export function formatTimeOfDay(at: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hour: "numeric",
+    minute: zonedTime(at, timeZone).minutes % 60 === 0 ? undefined : "2-digit",
+  }).format(at);
+}
+
+// "Today", "Tomorrow", or the weekday for later dates
+export function formatDayName(at: Date, timeZone: string, now = new Date()): string {
+  const { date } = zonedTime(at, timeZone);
+  if (date === zonedTime(now, timeZone).date) return "Today";
+  if (date === zonedTime(new Date(now.getTime() + DAY_MS), timeZone).date) return "Tomorrow";
+  return new Intl.DateTimeFormat("en-US", { timeZone, weekday: "long" }).format(at);
+}
+
+// "Opens at 6 PM", "Opens tomorrow at 11:30 AM", "Opens Monday at 9 AM"
+export function describeOpening(opensAt: Date, timeZone: string, now = new Date()): string {
+  const time = formatTimeOfDay(opensAt, timeZone);
+  const day = formatDayName(opensAt, timeZone, now);
+  if (day === "Today") return `Opens at ${time}`;
+  return `Opens ${day === "Tomorrow" ? "tomorrow" : day} at ${time}`;
+}
+
+// Status badge text for customers: "Open", "Opens at 6 PM" or "Closed"
+export function openingStatusLabel(restaurant: Pick<ScheduledRestaurant, "isOpen" | "opensAt" | "timezone">, openLabel = "Open"): string {
+  if (restaurant.isOpen) return openLabel;
+  // opensAt arrives as an ISO string over JSON
+  return restaurant.opensAt ? describeOpening(new Date(restaurant.opensAt), restaurant.timezone) : "Closed";
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import {
+  ORDER_STATUS_TRANSITIONS,
+  RESTAURANT_STATUS_UPDATES,
+  assertTransition,
+  canCustomerCancel,
+  canTransition,
+  isFinalStatus,
+  type OrderStatus,
+} from "./orderStatus";
+
+describe("order status transitions", () => {
+  it("moves an order from placed to delivered one step at a time", () => {
+    const path: OrderStatus[] = ["pending", "confirmed", "preparing", "ready_for_pickup", "out_for_delivery", "delivered"];
+    for (let i = 1; i < path.length; i++) {
+      expect(canTransition(path[i - 1], path[i])).toBe(true);
+    }
+  });
+
+  it("holds paid pre-orders as scheduled until they're confirmed", () => {
+    expect(canTransition("pending", "scheduled")).toBe(true);
+    expect(canTransition("scheduled", "confirmed")).toBe(true);
+    expect(canTransition("scheduled", "preparing")).toBe(false);
+  });
+
+  it("doesn't skip or go back a step", () => {
+    expect(canTransition("pending", "preparing")).toBe(false);
+    expect(canTransition("confirmed", "out_for_delivery")).toBe(false);
+    expect(canTransition("preparing", "confirmed")).toBe(false);
+  });
+
+  it("can cancel until the order is out for delivery", () => {
+    const cancellable = (Object.keys(ORDER_STATUS_TRANSITIONS) as OrderStatus[]).filter(status => canTransition(status, "cancelled"));
+    expect(cancellable).toEqual(["pending", "scheduled", "confirmed", "preparing", "ready_for_pickup"]);
+  });
+
+  it("treats delivered and cancelled as final", () => {
+    expect(isFinalStatus("delivered")).toBe(true);
+    expect(isFinalStatus("cancelled")).toBe(true);
+    expect(isFinalStatus("out_for_delivery")).toBe(false);
+    expect(canTransition("cancelled", "confirmed")).toBe(false);
+  });
+
+  it("throws for a transition that isn't allowed", () => {
+    expect(() => assertTransition("delivered", "cancelled")).toThrow("Cannot change order status from delivered to cancelled");
+    expect(() => assertTransition("confirmed", "preparing")).not.toThrow();
+  });
+
+  it("lets customers cancel only until the kitchen starts", () => {
+    expect(canCustomerCancel("pending")).toBe(true);
+    expect(canCustomerCancel("scheduled")).toBe(true);
+    expect(canCustomerCancel("confirmed")).toBe(true);
+    expect(canCustomerCancel("preparing")).toBe(false);
+  });
+});
+
+describe("restaurant status updates", () => {
+  it("leave confirming and scheduling to payments and the scheduler", () => {
+    expect(RESTAURANT_STATUS_UPDATES).not.toContain("confirmed");
+    expect(RESTAURANT_STATUS_UPDATES).not.toContain("scheduled");
+    expect(RESTAURANT_STATUS_UPDATES).not.toContain("cancelled");
+  });
+
+  it("follow each other from a confirmed order", () => {
+    let from: OrderStatus = "confirmed";
+    for (const status of RESTAURANT_STATUS_UPDATES) {
+      expect(canTransition(from, status)).toBe(true);
+      from = status;
+    }
+  });
+});
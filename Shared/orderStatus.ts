@@ -0,0 +1,57 @@
+import { Order } from "./schema";
+
+export type OrderStatus = Order["status"];
+
+// Allowed order status transitions. The restaurant can cancel until the order
+// leaves with a rider, the customer only before preparation starts (see
+// canCustomerCancel); delivered and cancelled are terminal. Paid pre-orders wait
+// as scheduled until the scheduler confirms them.
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["scheduled", "confirmed", "cancelled"],
+  scheduled: ["confirmed", "cancelled"],
+  confirmed: ["preparing", "cancelled"],
+  preparing: ["ready_for_pickup", "cancelled"],
+  ready_for_pickup: ["out_for_delivery", "cancelled"],
+  out_for_delivery: ["delivered"],
+  delivered: [],
+  cancelled: [],
+};
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: "Order Placed",
+  scheduled: "Scheduled",
+  confirmed: "Confirmed",
+  preparing: "Preparing",
+  ready_for_pickup: "Ready for Pickup",
+  out_for_delivery: "Out for Delivery",
+  delivered: "Delivered",
+  cancelled: "Cancelled",
+};
+
+// Orders the kitchen still has to act on. Pending orders aren't paid for yet; a
+// payment, or choosing cash on delivery, confirms them.
+export const OPEN_ORDER_STATUSES: OrderStatus[] = ["confirmed", "preparing", "ready_for_pickup"];
+
+// The statuses a restaurant moves its orders through. Payments confirm orders and
+// the scheduler releases pre-orders, so restaurants never set those themselves.
+export const RESTAURANT_STATUS_UPDATES: OrderStatus[] = ["preparing", "ready_for_pickup", "out_for_delivery", "delivered"];
+
+// Delivered and cancelled orders can't change any more
+export function isFinalStatus(status: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[status].length === 0;
+}
+
+// Customers can call an order off until the kitchen starts on it
+export function canCustomerCancel(status: OrderStatus): boolean {
+  return status === "pending" || status === "scheduled" || status === "confirmed";
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export function assertTransition(from: OrderStatus, to: OrderStatus): void {
+  if (!canTransition(from, to)) {
+    throw new Error(`Cannot change order status from ${from} to ${to}`);
+  }
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { amountForFreeDelivery, combineBreakdowns, formatAmount, priceBreakdown } from "./pricing";
+
+// Sharma Ji Ka Dhaba in the seed data
+const dhaba = { deliveryFee: 25, freeDeliveryThreshold: 199, packagingCharge: 10 };
+
+describe("priceBreakdown", () => {
+  it("charges delivery below the free delivery threshold", () => {
+    expect(priceBreakdown(dhaba, 180)).toEqual({
+      subtotal: 180,
+      discount: 0,
+      packagingCharge: 10,
+      deliveryFee: 25,
+      platformFee: 5,
+      taxes: [
+        { name: "CGST", rate: 2.5, amount: 4.75 },
+        { name: "SGST", rate: 2.5, amount: 4.75 },
+      ],
+      totalAmount: 229.5,
+    });
+  });
+
+  it("checks the threshold before the discount and taxes what's left after it", () => {
+    const breakdown = priceBreakdown(dhaba, 220, 44);
+    expect(breakdown.deliveryFee).toBe(0);
+    expect(breakdown.taxes.map(tax => tax.amount)).toEqual([4.65, 4.65]);
+    expect(breakdown.totalAmount).toBe(200.3);
+  });
+
+  it("always charges delivery without a threshold", () => {
+    expect(priceBreakdown({ ...dhaba, freeDeliveryThreshold: null }, 1000).deliveryFee).toBe(25);
+  });
+
+  it("keeps amounts to the paisa", () => {
+    const breakdown = priceBreakdown({ deliveryFee: 0, freeDeliveryThreshold: null, packagingCharge: 0 }, 33.33);
+    expect(breakdown.taxes[0].amount).toBe(0.83);
+    expect(breakdown.totalAmount).toBe(39.99);
+  });
+});
+
+describe("combineBreakdowns", () => {
+  it("adds up orders and merges matching tax lines", () => {
+    const combined = combineBreakdowns([priceBreakdown(dhaba, 180), priceBreakdown(dhaba, 220, 44)]);
+    expect(combined).toMatchObject({ subtotal: 400, discount: 44, packagingCharge: 20, deliveryFee: 25, platformFee: 10, totalAmount: 429.8 });
+    expect(combined.taxes).toEqual([
+      { name: "CGST", rate: 2.5, amount: 9.4 },
+      { name: "SGST", rate: 2.5, amount: 9.4 },
+    ]);
+  });
+});
+
+describe("amountForFreeDelivery", () => {
+  it("says how much more food gets free delivery", () => {
+    expect(amountForFreeDelivery(dhaba, 150.5)).toBe(48.5);
+    expect(amountForFreeDelivery(dhaba, 199)).toBeUndefined();
+    expect(amountForFreeDelivery({ ...dhaba, freeDeliveryThreshold: null }, 0)).toBeUndefined();
+  });
+});
+
+describe("formatAmount", () => {
+  it("shows paise only when there are some", () => {
+    expect(formatAmount(120)).toBe("₹120");
+    expect(formatAmount(120.5)).toBe("₹120.50");
+  });
+});
@@ -0,0 +1,78 @@
+import { PriceBreakdown, Restaurant, TaxLine } from "./schema";
+
+export interface PricingRules {
+  platformFee: number; // per order, in rupees
+  taxes: Omit<TaxLine, "amount">[]; // charged on the food after any discount, plus packaging
+}
+
+// GST on restaurant food is 5%, split evenly between the central and state governments
+export const PRICING_RULES: PricingRules = {
+  platformFee: 5,
+  taxes: [
+    { name: "CGST", rate: 2.5 },
+    { name: "SGST", rate: 2.5 },
+  ],
+};
+
+type PricingRestaurant = Pick<Restaurant, "deliveryFee" | "freeDeliveryThreshold" | "packagingCharge">;
+
+// Amounts are in rupees, kept to the paisa
+export function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// "₹120", or "₹120.50" when there are paise
+export function formatAmount(amount: number): string {
+  return `₹${Number.isInteger(amount) ? amount : amount.toFixed(2)}`;
+}
+
+// How much more food it takes to get free delivery, or undefined when delivery is
+// already free or the restaurant always charges for it
+export function amountForFreeDelivery(restaurant: PricingRestaurant, subtotal: number): number | undefined {
+  if (restaurant.freeDeliveryThreshold === null || restaurant.deliveryFee === 0) return undefined;
+  const remaining = roundAmount(restaurant.freeDeliveryThreshold - subtotal);
+  return remaining > 0 ? remaining : undefined;
+}
+
+// What an order from one restaurant costs. The free delivery threshold looks at the
+// food before the discount; taxes are on what's left after it.
+export function priceBreakdown(restaurant: PricingRestaurant, subtotal: number, discount = 0, rules = PRICING_RULES): PriceBreakdown {
+  const packagingCharge = restaurant.packagingCharge;
+  const freeDelivery = restaurant.freeDeliveryThreshold !== null && subtotal >= restaurant.freeDeliveryThreshold;
+  const deliveryFee = freeDelivery ? 0 : restaurant.deliveryFee;
+  const taxable = subtotal - discount + packagingCharge;
+  const taxes = rules.taxes.map(tax => ({ ...tax, amount: roundAmount(taxable * tax.rate / 100) }));
+
+  return {
+    subtotal,
+    discount,
+    packagingCharge,
+    deliveryFee,
+    platformFee: rules.platformFee,
+    taxes,
+    totalAmount: roundAmount(taxable + deliveryFee + rules.platformFee + taxes.reduce((sum, tax) => sum + tax.amount, 0)),
+  };
+}
+
+// Adds up the orders of a checkout, for one summary across restaurants
+export function combineBreakdowns(breakdowns: PriceBreakdown[]): PriceBreakdown {
+  const sum = (amount: (breakdown: PriceBreakdown) => number) =>
+    roundAmount(breakdowns.reduce((total, breakdown) => total + amount(breakdown), 0));
+
+  const taxes: TaxLine[] = [];
+  for (const tax of breakdowns.flatMap(breakdown => breakdown.taxes)) {
+    const existing = taxes.find(line => line.name === tax.name && line.rate === tax.rate);
+    if (existing) existing.amount = roundAmount(existing.amount + tax.amount);
+    else taxes.push({ ...tax });
+  }
+
+  return {
+    subtotal: sum(breakdown => breakdown.subtotal),
+    discount: sum(breakdown => breakdown.discount),
+    packagingCharge: sum(breakdown => breakdown.packagingCharge),
+    deliveryFee: sum(breakdown => breakdown.deliveryFee),
+    platformFee: sum(breakdown => breakdown.platformFee),
+    taxes,
+    totalAmount: sum(breakdown => breakdown.totalAmount),
+  };
+}
@@ -1,12 +1,29 @@
 import { z } from "zod";
 import { createInsertSchema } from "drizzle-zod";
 
-// User schema
+// Mobile numbers are stored in E.164 form; a bare 10-digit number is taken as Indian (+91)
+export const phoneNumberSchema = z.string()
+  .transform(value => value.replace(/[\s()-]/g, ""))
+  .transform(value => /^\d{10}$/.test(value) ? `+91${value}` : value)
+  .pipe(z.string().regex(/^\+\d{10,15}$/, "Please enter a valid phone number"));
+
+// Emails are matched case-insensitively, and kept trimmed and lowercased
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export const emailSchema = z.string()
+  .transform(normalizeEmail)
+  .pipe(z.string().email());
+
+// User schema - accounts created by phone login have no email or password
 export const userSchema = z.object({
   id: z.string(),
   username: z.string(),
-  email: z.string().email(),
-  password: z.string(),
+  email: emailSchema.optional(),
+  password: z.string().optional(),
+  role: z.enum(["customer", "restaurant_owner"]).default("customer"),
+  emailVerified: z.boolean().default(false),
   phone: z.string().optional(),
   address: z.string().optional(),
   stripeCustomerId: z.string().optional(),
@@ -14,10 +31,138 @@ export const userSchema = z.object({
   createdAt: z.date(),
 });
 
-export const insertUserSchema = userSchema.omit({ id: true, createdAt: true });
+export const insertUserSchema = userSchema.omit({ id: true, emailVerified: true, createdAt: true });
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = z.infer<typeof userSchema>;
 
+// Sign-up always creates a customer; restaurant owners are granted with npm run partner:grant.
+// A phone number is added later through POST /api/me/phone, once a code proves the user holds it.
+export const registerUserSchema = insertUserSchema.omit({ role: true, phone: true }).required({ email: true, password: true });
+
+export const updateUserSchema = userSchema.pick({ username: true, phone: true, password: true, emailVerified: true, role: true }).partial();
+export type UpdateUser = z.infer<typeof updateUserSchema>;
+
+// Request body for PATCH /api/me; a new password needs the current one
+export const updateProfileRequestSchema = z.object({
+  username: z.string().min(2, "Username must be at least 2 characters").optional(),
+  currentPassword: z.string().optional(),
+  newPassword: z.string().min(6, "Password must be at least 6 characters").optional(),
+}).refine(data => !data.newPassword || !!data.currentPassword, {
+  message: "Current password is required to set a new password",
+  path: ["currentPassword"],
+});
+export type UpdateProfileRequest = z.infer<typeof updateProfileRequestSchema>;
+
+// Refresh token - only a hash of the token is stored; each one is single-use and rotated on refresh
+export const refreshTokenSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  tokenHash: z.string(),
+  expiresAt: z.date(),
+  revokedAt: z.date().optional(),
+  replacedById: z.string().optional(), // the token issued when this one was rotated
+  createdAt: z.date(),
+});
+
+export const insertRefreshTokenSchema = refreshTokenSchema.omit({ id: true, revokedAt: true, replacedById: true, createdAt: true });
+export type InsertRefreshToken = z.infer<typeof insertRefreshTokenSchema>;
+export type RefreshToken = z.infer<typeof refreshTokenSchema>;
+
+// Single-use token emailed to a user, e.g. to verify their address or reset their password
+export const userTokenSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  purpose: z.enum(["email_verification", "password_reset"]),
+  tokenHash: z.string(),
+  expiresAt: z.date(),
+  usedAt: z.date().optional(),
+  createdAt: z.date(),
+});
+
+export const insertUserTokenSchema = userTokenSchema.omit({ id: true, usedAt: true, createdAt: true });
+export type InsertUserToken = z.infer<typeof insertUserTokenSchema>;
+export type UserToken = z.infer<typeof userTokenSchema>;
+
+// One-time code texted to a phone number for login - only an HMAC of the code is stored
+export const phoneOtpSchema = z.object({
+  id: z.string(),
+  phone: z.string(),
+  codeHash: z.string(),
+  expiresAt: z.date(),
+  attempts: z.number().int().default(0), // failed verification attempts
+  consumedAt: z.date().optional(),
+  createdAt: z.date(),
+});
+
+export const insertPhoneOtpSchema = phoneOtpSchema.omit({ id: true, attempts: true, consumedAt: true, createdAt: true });
+export type InsertPhoneOtp = z.infer<typeof insertPhoneOtpSchema>;
+export type PhoneOtp = z.infer<typeof phoneOtpSchema>;
+
+// Request bodies for POST /api/auth/otp/request, and /api/auth/otp/verify or /api/me/phone
+export const otpRequestSchema = z.object({
+  phone: phoneNumberSchema,
+});
+
+export const otpVerifySchema = z.object({
+  phone: phoneNumberSchema,
+  code: z.string().regex(/^\d{6}$/, "Enter the 6-digit code"),
+});
+
+// Saved delivery address - a user's address book
+export const addressSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  label: z.string().min(1, "Label is required"), // "Home", "Work", ...
+  address: z.string().min(5, "Please enter the full address"),
+  landmark: z.string().optional(),
+  pincode: z.string().regex(/^\d{6}$/, "Pincode must be 6 digits"),
+  isDefault: z.boolean().default(false),
+  createdAt: z.date(),
+});
+
+export const insertAddressSchema = addressSchema.omit({ id: true, createdAt: true });
+export const updateAddressSchema = insertAddressSchema.omit({ userId: true }).partial();
+export type InsertAddress = z.infer<typeof insertAddressSchema>;
+export type UpdateAddress = z.infer<typeof updateAddressSchema>;
+export type Address = z.infer<typeof addressSchema>;
+
+// "HH:MM" on a 24-hour clock
+export const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM on a 24-hour clock");
+
+// A weekly time window; days run 0 (Sunday) to 6. A close time at or before the
+// open time runs past midnight into the next day.
+export const weeklyHoursSchema = z.object({
+  days: z.array(z.number().int().min(0).max(6)).min(1),
+  open: timeOfDaySchema,
+  close: timeOfDaySchema,
+});
+export type WeeklyHours = z.infer<typeof weeklyHoursSchema>;
+
+// A whole day the restaurant is closed, in its own timezone
+export const holidayClosureSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD"),
+  reason: z.string().optional(),
+});
+export type HolidayClosure = z.infer<typeof holidayClosureSchema>;
+
+// Hours a whole menu category is served, e.g. breakfast until 11am
+export const categoryHoursSchema = z.object({
+  category: z.string().min(1),
+  hours: z.array(weeklyHoursSchema).min(1),
+});
+export type CategoryHours = z.infer<typeof categoryHoursSchema>;
+
+export const DEFAULT_TIMEZONE = "Asia/Kolkata";
+
+const timeZoneSchema = z.string().refine(timeZone => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}, "Unknown timezone");
+
 // Restaurant schema
 export const restaurantSchema = z.object({
   id: z.string(),
@@ -26,11 +171,19 @@ export const restaurantSchema = z.object({
   cuisine: z.string(), // Indian, South Indian, North Indian, etc.
   image: z.string(),
   rating: z.number().min(0).max(5),
-  deliveryTime: z.string(), // "25-30 mins"
+  minDeliveryMinutes: z.number().int().min(0), // typical ride to a customer, when the distance isn't known
+  maxDeliveryMinutes: z.number().int().min(0),
+  pincode: z.string().regex(/^\d{6}$/, "Pincode must be 6 digits").optional(), // the kitchen's, for distance estimates
   deliveryFee: z.number(),
+  freeDeliveryThreshold: z.number().min(0).nullable().default(null), // subtotal from which delivery is free; null always charges
+  packagingCharge: z.number().min(0).default(0), // per order
   minOrder: z.number(),
   isVeg: z.boolean(),
-  isOpen: z.boolean(),
+  isOpen: z.boolean(), // the owner's switch; customers also need it to be within opening hours
+  timezone: timeZoneSchema.default(DEFAULT_TIMEZONE),
+  openingHours: z.array(weeklyHoursSchema).default([]), // empty means open around the clock
+  holidays: z.array(holidayClosureSchema).default([]),
+  categoryHours: z.array(categoryHoursSchema).default([]),
   createdAt: z.date(),
 });
 
@@ -38,6 +191,52 @@ export const insertRestaurantSchema = restaurantSchema.omit({ id: true, createdA
 export type InsertRestaurant = z.infer<typeof insertRestaurantSchema>;
 export type Restaurant = z.infer<typeof restaurantSchema>;
 
+// Fields a restaurant owner may change; rating is not owner-editable
+export const updateRestaurantSchema = insertRestaurantSchema.omit({ rating: true }).partial();
+export type UpdateRestaurant = z.infer<typeof updateRestaurantSchema>;
+
+// Links restaurant owners to the restaurants they manage (many-to-many)
+export const restaurantOwnerSchema = z.object({
+  restaurantId: z.string(),
+  userId: z.string(),
+  createdAt: z.date(),
+});
+export type RestaurantOwner = z.infer<typeof restaurantOwnerSchema>;
+
+// Customization choices on a food item, e.g. a "Size" group (Half/Full plate) or "Add-ons"
+export const foodOptionSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  priceDelta: z.number().default(0), // added to the item price; may be negative
+});
+export type FoodOption = z.infer<typeof foodOptionSchema>;
+
+export const foodOptionGroupSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  minSelections: z.number().int().min(0).default(0), // 1 or more makes the group required
+  maxSelections: z.number().int().min(1).default(1),
+  options: z.array(foodOptionSchema).min(1),
+}).refine(group => group.minSelections <= group.maxSelections && group.minSelections <= group.options.length, {
+  message: "Minimum selections can't exceed the maximum or the number of options",
+});
+export type FoodOptionGroup = z.infer<typeof foodOptionGroupSchema>;
+
+// A customer's pick from an option group
+export const optionSelectionSchema = z.object({
+  groupId: z.string(),
+  optionId: z.string(),
+});
+export type OptionSelection = z.infer<typeof optionSelectionSchema>;
+
+// A pick with the names and price it had when chosen, as kept on cart lines and orders
+export const selectedOptionSchema = optionSelectionSchema.extend({
+  groupName: z.string(),
+  name: z.string(),
+  priceDelta: z.number(),
+});
+export type SelectedOption = z.infer<typeof selectedOptionSchema>;
+
 // Food Item schema
 export const foodItemSchema = z.object({
   id: z.string(),
@@ -49,9 +248,13 @@ export const foodItemSchema = z.object({
   category: z.string(), // Appetizers, Main Course, Desserts, Beverages
   isVeg: z.boolean(),
   isSpicy: z.boolean(),
-  isAvailable: z.boolean(),
-  preparationTime: z.string(), // "15-20 mins"
+  isAvailable: z.boolean(), // the owner's in-stock switch; customers also need it to be within its hours
+  isArchived: z.boolean().default(false), // archived items are hidden from customers but kept for past orders
+  minPrepMinutes: z.number().int().min(0),
+  maxPrepMinutes: z.number().int().min(0),
   ingredients: z.array(z.string()).optional(),
+  optionGroups: z.array(foodOptionGroupSchema).default([]),
+  availableHours: z.array(weeklyHoursSchema).default([]), // empty means whenever the restaurant is open
   createdAt: z.date(),
 });
 
@@ -59,41 +262,246 @@ export const insertFoodItemSchema = foodItemSchema.omit({ id: true, createdAt: t
 export type InsertFoodItem = z.infer<typeof insertFoodItemSchema>;
 export type FoodItem = z.infer<typeof foodItemSchema>;
 
+export const updateFoodItemSchema = insertFoodItemSchema.omit({ restaurantId: true }).partial();
+export type UpdateFoodItem = z.infer<typeof updateFoodItemSchema>;
+
+// How an order is paid: by card through Stripe, in cash to the rider, or with the
+// fake gateway used in development and tests
+export const paymentMethodSchema = z.enum(["stripe", "cash_on_delivery", "fake"]);
+export type PaymentMethod = z.infer<typeof paymentMethodSchema>;
+
+// Coupon schema - promo codes taking a flat amount or a percentage off the food.
+// Without a restaurantId a coupon works across the whole cart.
+const couponCodeSchema = z.string().trim().min(1).max(32).transform(code => code.toUpperCase());
+
+export const couponSchema = z.object({
+  id: z.string(),
+  code: couponCodeSchema, // stored upper case; customers can type it in any case
+  description: z.string(),
+  discountType: z.enum(["flat", "percentage"]),
+  discountValue: z.number().positive(), // rupees off, or percent off
+  maxDiscount: z.number().positive().optional(), // cap for percentage discounts
+  minOrderValue: z.number().min(0).default(0), // subtotal of the items the coupon covers
+  restaurantId: z.string().optional(),
+  firstOrderOnly: z.boolean().default(false),
+  usageLimitPerUser: z.number().int().positive().optional(),
+  validFrom: z.date().optional(),
+  validUntil: z.date().optional(),
+  isActive: z.boolean().default(true),
+  createdAt: z.date(),
+});
+
+export const insertCouponSchema = couponSchema.omit({ id: true, createdAt: true });
+export type InsertCoupon = z.infer<typeof insertCouponSchema>;
+export type Coupon = z.infer<typeof couponSchema>;
+
+// Request body for POST /api/cart/apply-coupon
+export const applyCouponRequestSchema = z.object({
+  code: couponCodeSchema,
+  scheduledFor: z.coerce.date().optional(),
+});
+export type ApplyCouponRequest = z.infer<typeof applyCouponRequestSchema>;
+
+// Money returned to the customer for an order; an order can be refunded in parts
+export const orderRefundSchema = z.object({
+  amount: z.number().positive(), // in rupees
+  reason: z.string().optional(),
+  refundId: z.string().optional(), // the provider's reference, e.g. a Stripe refund id
+  createdAt: z.date(),
+});
+export type OrderRefund = z.infer<typeof orderRefundSchema>;
+
+// A tax charged on an order, e.g. CGST at 2.5%
+export const taxLineSchema = z.object({
+  name: z.string(),
+  rate: z.number(), // percent
+  amount: z.number(),
+});
+export type TaxLine = z.infer<typeof taxLineSchema>;
+
+// Everything an order costs, worked out with Shared/pricing.ts; amounts in rupees
+export const priceBreakdownSchema = z.object({
+  subtotal: z.number(), // the food, including options
+  discount: z.number(),
+  packagingCharge: z.number(),
+  deliveryFee: z.number(),
+  platformFee: z.number(),
+  taxes: z.array(taxLineSchema),
+  totalAmount: z.number(),
+});
+export type PriceBreakdown = z.infer<typeof priceBreakdownSchema>;
+
 // Order schema
 export const orderSchema = z.object({
   id: z.string(),
   userId: z.string(),
   restaurantId: z.string(),
+  checkoutId: z.string().optional(), // parent checkout when placed as part of a multi-restaurant cart
   items: z.array(z.object({
     foodItemId: z.string(),
     quantity: z.number(),
-    price: z.number(),
+    price: z.number(), // unit price including options
+    options: z.array(selectedOptionSchema).default([]),
   })),
-  totalAmount: z.number(),
+  totalAmount: z.number(), // what the customer pays, as in priceBreakdown
   deliveryAddress: z.string(),
   deliveryFee: z.number(),
-  status: z.enum(["pending", "confirmed", "preparing", "out_for_delivery", "delivered", "cancelled"]),
-  paymentStatus: z.enum(["pending", "paid", "failed"]),
-  stripePaymentIntentId: z.string().optional(),
-  estimatedDeliveryTime: z.string(),
+  discount: z.number().default(0), // taken off by the coupon
+  couponId: z.string().optional(),
+  couponCode: z.string().optional(), // as it was when the order was placed
+  priceBreakdown: priceBreakdownSchema.optional(), // missing on orders placed before breakdowns were kept
+  status: z.enum(["pending", "scheduled", "confirmed", "preparing", "ready_for_pickup", "out_for_delivery", "delivered", "cancelled"]),
+  paymentStatus: z.enum(["pending", "paid", "failed", "refunded", "partially_refunded"]),
+  paymentMethod: paymentMethodSchema.optional(), // chosen when payment starts
+  paymentId: z.string().optional(), // the provider's reference, e.g. a Stripe payment intent id
+  refunds: z.array(orderRefundSchema).default([]),
+  cancellationReason: z.string().optional(),
+  estimatedDeliveryTime: z.string(), // label for the estimate: "1:45 PM", or the slot of a pre-order
+  estimatedDeliveryAt: z.date().optional(), // recalculated on every status change
+  scheduledFor: z.date().optional(), // requested delivery time for a pre-order; ASAP when absent
+  releaseAt: z.date().optional(), // when a pre-order goes to the kitchen
   specialInstructions: z.string().optional(),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
 
-export const insertOrderSchema = orderSchema.omit({ id: true, createdAt: true, updatedAt: true });
+export const insertOrderSchema = orderSchema.omit({ id: true, refunds: true, cancellationReason: true, createdAt: true, updatedAt: true });
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
 export type Order = z.infer<typeof orderSchema>;
 
-// Cart schema
-export const cartItemSchema = z.object({
+// Order status history - one event per transition, including the initial "pending"
+export const orderActorSchema = z.object({
+  type: z.enum(["customer", "restaurant", "system"]),
+  id: z.string().optional(), // user id for customer/restaurant actors
+});
+export type OrderActor = z.infer<typeof orderActorSchema>;
+
+export const orderStatusEventSchema = z.object({
   id: z.string(),
+  orderId: z.string(),
+  fromStatus: orderSchema.shape.status.optional(),
+  toStatus: orderSchema.shape.status,
+  actor: orderActorSchema,
+  createdAt: z.date(),
+});
+export type OrderStatusEvent = z.infer<typeof orderStatusEventSchema>;
+
+// Most of one item a cart line or an order may hold
+export const MAX_CART_ITEM_QUANTITY = 20;
+
+const cartQuantitySchema = z.number()
+  .int("Quantity must be a whole number")
+  .max(MAX_CART_ITEM_QUANTITY, `You can order at most ${MAX_CART_ITEM_QUANTITY} of an item`);
+
+// Request body for placing a single order; prices and fees are computed by the server
+export const createOrderRequestSchema = z.object({
+  restaurantId: z.string(),
+  items: z.array(z.object({
+    foodItemId: z.string(),
+    quantity: cartQuantitySchema.min(1, "Quantity must be at least 1"),
+    options: z.array(optionSelectionSchema).default([]),
+  })).min(1),
+  deliveryAddress: z.string().min(1),
+  specialInstructions: z.string().optional(),
+  scheduledFor: z.coerce.date().optional(),
+  couponCode: couponCodeSchema.optional(),
+});
+export type CreateOrderRequest = z.infer<typeof createOrderRequestSchema>;
+
+// Request body for cancelling an order; restaurants have to give a reason
+export const cancelOrderRequestSchema = z.object({
+  reason: z.string().trim().min(1).max(500).optional(),
+  refundAmount: z.number().positive().optional(), // restaurants only; the whole payment when left out
+});
+export type CancelOrderRequest = z.infer<typeof cancelOrderRequestSchema>;
+
+// Checkout schema - one combined payment covering an order per restaurant
+export const checkoutSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  orderIds: z.array(z.string()),
+  totalAmount: z.number(),
+  paymentStatus: orderSchema.shape.paymentStatus,
+  paymentMethod: paymentMethodSchema.optional(),
+  paymentId: z.string().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const insertCheckoutSchema = checkoutSchema.omit({ id: true, orderIds: true, createdAt: true, updatedAt: true });
+export type InsertCheckout = z.infer<typeof insertCheckoutSchema>;
+export type Checkout = z.infer<typeof checkoutSchema>;
+
+// Request body for checking out the whole cart
+export const checkoutRequestSchema = z.object({
+  deliveryAddress: z.string().min(1),
+  specialInstructions: z.string().optional(),
+  scheduledFor: z.coerce.date().optional(), // one delivery slot for every order in the checkout
+  couponCode: couponCodeSchema.optional(), // checked again against the orders being placed
+});
+export type CheckoutRequest = z.infer<typeof checkoutRequestSchema>;
+
+// Request body for POST /api/payments - pays for one order or a whole checkout
+export const startPaymentRequestSchema = z.object({
+  orderId: z.string().optional(),
+  checkoutId: z.string().optional(),
+  paymentMethod: paymentMethodSchema.default("stripe"),
+}).refine(data => !!data.orderId !== !!data.checkoutId, {
+  message: "Pay for either an order or a checkout",
+});
+export type StartPaymentRequest = z.infer<typeof startPaymentRequestSchema>;
+
+// Stripe webhook events that have been handled, so redelivered events are skipped
+export const webhookEventSchema = z.object({
+  id: z.string(), // Stripe's event id
+  type: z.string(),
+  processedAt: z.date(),
+});
+
+export const insertWebhookEventSchema = webhookEventSchema.omit({ processedAt: true });
+export type InsertWebhookEvent = z.infer<typeof insertWebhookEventSchema>;
+export type WebhookEvent = z.infer<typeof webhookEventSchema>;
+
+// Idempotency keys - the response to a request sent with an Idempotency-Key header,
+// replayed when the same request is sent again
+export const idempotencyKeySchema = z.object({
   userId: z.string(),
+  endpoint: z.string(), // e.g. "POST /api/orders"
+  key: z.string(), // the header value
+  requestHash: z.string(), // of the request body, so a key can't be reused for a different request
+  statusCode: z.number().optional(), // unset while the first request is still running
+  responseBody: z.unknown().optional(),
+  createdAt: z.date(),
+  expiresAt: z.date(),
+});
+
+export const insertIdempotencyKeySchema = idempotencyKeySchema.omit({ statusCode: true, responseBody: true, createdAt: true });
+export type InsertIdempotencyKey = z.infer<typeof insertIdempotencyKeySchema>;
+export type IdempotencyKey = z.infer<typeof idempotencyKeySchema>;
+
+// Cart schema - a line belongs to a signed-in user or to an anonymous guest cart
+export const guestCartIdSchema = z.string().uuid();
+
+export const cartItemSchema = z.object({
+  id: z.string(),
+  userId: z.string().optional(),
+  guestCartId: guestCartIdSchema.optional(),
   foodItemId: z.string(),
-  quantity: z.number(),
+  quantity: cartQuantitySchema.min(1, "Quantity must be at least 1"),
+  options: z.array(selectedOptionSchema).default([]),
   createdAt: z.date(),
 });
 
 export const insertCartItemSchema = cartItemSchema.omit({ id: true, createdAt: true });
+
+// Request body for POST /api/cart; option names and prices are filled in by the server
+export const addToCartRequestSchema = insertCartItemSchema.pick({ foodItemId: true, quantity: true }).extend({
+  options: z.array(optionSelectionSchema).default([]),
+});
 export type InsertCartItem = z.infer<typeof insertCartItemSchema>;
 export type CartItem = z.infer<typeof cartItemSchema>;
+
+// Request body for PUT /api/cart/:id; a quantity of 0 removes the line
+export const updateCartItemRequestSchema = z.object({
+  quantity: cartQuantitySchema.min(0, "Quantity can't be negative"),
+});
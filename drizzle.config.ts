@@ -0,0 +1,10 @@
+import { defineConfig } from "drizzle-kit";
+
+export default defineConfig({
+  dialect: "sqlite",
+  schema: "./Server/dbSchema.ts",
+  out: "./Server/migrations",
+  dbCredentials: {
+    url: process.env.DATABASE_URL || "file:fastfeast.db",
+  },
+});
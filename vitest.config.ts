@@ -0,0 +1,15 @@
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(__dirname, "Shared"),
+    },
+  },
+  test: {
+    include: ["Server/**/*.test.ts", "Shared/**/*.test.ts"],
+    // Keep texted codes in memory so tests can read them
+    env: { SMS_DRIVER: "fake" },
+  },
+});